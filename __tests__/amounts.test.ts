@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { annualAed, parseAed, parseAedRange } from '../src/amounts';
+
+describe('AED amounts', () => {
+  it.each([
+    ['AED 1,450,000', { value: 1450000 }],
+    ['1,450,000 AED', { value: 1450000 }],
+    ['AED1.2M', { value: 1200000 }],
+    ['1.2 mn', { value: 1200000 }],
+    ['1.15 million dirhams', { value: 1150000 }],
+    ['2.5 mil', { value: 2500000 }],
+    ['85k', { value: 85000 }],
+    ['AED 85k/yr', { value: 85000, period: 'year' }],
+    ['95,000 yearly', { value: 95000, period: 'year' }],
+    ['120k p.a.', { value: 120000, period: 'year' }],
+    ['AED 8,500 a month', { value: 8500, period: 'month' }],
+    ['8.5k per month', { value: 8500, period: 'month' }],
+    ['7,000 pcm', { value: 7000, period: 'month' }],
+    ['900 AED in Marina', { value: 900 }],
+    ['75 m² for 1.2M', { value: 1200000 }],
+    ['2 bed, 1,200 sqft, AED 1.6M', { value: 1600000 }],
+    ['6.5% yield', null],
+    ['price on request', null],
+  ])('should read %s', (text, expected) => {
+    expect(parseAed(text)).toEqual(expected);
+  });
+
+  it.each([
+    [{ value: 8500, period: 'month' as const }, 102000],
+    [{ value: 95000, period: 'year' as const }, 95000],
+    [{ value: 1200000 }, 1200000],
+  ])('should give %o per year as %s', (amount, expected) => {
+    expect(annualAed(amount)).toBe(expected);
+  });
+
+  it.each([
+    ['under 1.2M', { max: { value: 1200000 } }],
+    ['max 900 AED in Marina', { max: { value: 900 } }],
+    ['budget of AED 2.5 mn', { max: { value: 2500000 } }],
+    ['above 800k', { min: { value: 800000 } }],
+    ['at least 1,000,000 AED', { min: { value: 1000000 } }],
+    ['drop the budget to 2M', { max: { value: 2000000 } }],
+    ['max price 1.5M', { max: { value: 1500000 } }],
+    ['min price 800k', { min: { value: 800000 } }],
+    ['raise the minimum to 900k', { min: { value: 900000 } }],
+    ['800k-1.2M', { min: { value: 800000 }, max: { value: 1200000 } }],
+    ['between 800k and 1.2M', { min: { value: 800000 }, max: { value: 1200000 } }],
+    ['from 1 to 1.5 mn', { min: { value: 1000000 }, max: { value: 1500000 } }],
+    ['500 - 1.2M', { min: { value: 500 }, max: { value: 1200000 } }],
+    [
+      '8-10k a month',
+      { min: { value: 8000, period: 'month' }, max: { value: 10000, period: 'month' } },
+    ],
+    ['under AED 85k/yr', { max: { value: 85000, period: 'year' } }],
+    ['over 1,000 sqft under 120k', { max: { value: 120000 } }],
+    ['2-bed in JVC under 900k', { max: { value: 900000 } }],
+    ['yielding at least 7%', null],
+    ['between 80 and 120 sqm', null],
+    ['2 bed in Marina', null],
+  ])('should read the range in %s', (text, expected) => {
+    expect(parseAedRange(text)).toEqual(expected);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, expect, it, vi, beforeAll, afterAll } from 'vitest';
+import plugin from '../src/plugin';
+import { logger } from '@elizaos/core';
+import type { HandlerCallback } from '@elizaos/core';
+import { RentalYieldStore, parseRentalYieldsCsv, setRentalYieldStore } from '../src/rental-yields';
+import { renderTable } from '../src/format';
+import {
+  createMockMessage,
+  createMockRuntime,
+  createMockState,
+  documentTestResult,
+} from './utils/core-test-utils';
+
+const SAMPLE_CSV = [
+  'area,property_type,bedrooms,size_sqft,annual_rent,transaction_price,contract_date',
+  'Business Bay,Apartment,1,800,80000,1300000,2023-02-01',
+  'Business Bay,Apartment,1,760,78000,1250000,2023-05-01',
+  'Dubai Marina,Apartment,2,1200,130000,2400000,2023-03-01',
+  'Dubai Marina,Apartment,2,1300,135000,2600000,2023-08-01',
+  'Dubai Marina,Apartment,2,1250,128000,2500000,2023-09-01',
+  'Jumeirah Village Circle,Apartment,Studio,400,42000,560000,2023-02-01',
+  'Jumeirah Lake Towers,Apartment,Studio,450,50000,700000,2023-02-01',
+  'Arabian Ranches 2,Villa,3,2800,180000,3900000,2023-04-01',
+].join('\n');
+
+beforeAll(() => {
+  vi.spyOn(logger, 'info');
+  vi.spyOn(logger, 'warn');
+  setRentalYieldStore(new RentalYieldStore(parseRentalYieldsCsv(SAMPLE_CSV)));
+});
+
+afterAll(() => {
+  setRentalYieldStore(null);
+  vi.restoreAllMocks();
+});
+
+describe('COMPARE_AREAS Action', () => {
+  const action = plugin.actions?.find((a) => a.name === 'COMPARE_AREAS');
+  const yieldStats = plugin.actions?.find((a) => a.name === 'YIELD_STATS');
+
+  async function runAction(text: string) {
+    let response: any = null;
+    const callback = (async (content) => {
+      response = content;
+      return [];
+    }) as HandlerCallback;
+    await action.handler(
+      createMockRuntime(),
+      createMockMessage(text),
+      createMockState(),
+      {},
+      callback
+    );
+    return response;
+  }
+
+  it('should validate comparisons and leave single-segment questions to YIELD_STATS', async () => {
+    const runtime = createMockRuntime();
+    const state = createMockState();
+    const comparison = createMockMessage(
+      'Is it better to buy a 1-bed in Business Bay or a 2-bed in Dubai Marina for yield?'
+    );
+    const single = createMockMessage('What is the yield for 1-beds in Business Bay?');
+
+    expect(await action.validate(runtime, comparison, state)).toBe(true);
+    expect(await yieldStats.validate(runtime, comparison, state)).toBe(false);
+    expect(await action.validate(runtime, single, state)).toBe(false);
+  });
+
+  it('should not read a single place named with its community as a comparison', async () => {
+    const runtime = createMockRuntime();
+    const state = createMockState();
+    const single = createMockMessage('What are yields in Samara, Arabian Ranches 2?');
+
+    expect(await action.validate(runtime, single, state)).toBe(false);
+    expect(await yieldStats.validate(runtime, single, state)).toBe(true);
+  });
+
+  it('should render a side-by-side table with a winner per metric', async () => {
+    const response = await runAction(
+      'Is it better to buy a 1-bed in Business Bay or a 2-bed in Dubai Marina for yield?'
+    );
+
+    expect(response.text).toContain('**A** = 1-bed units in Business Bay');
+    expect(response.text).toContain('**B** = 2-bed units in Dubai Marina');
+    expect(response.text).toMatch(/Gross yield \| 6\.2%\s+\| 5\.2%\s+\| A/);
+    expect(response.text).toMatch(/Contracts\s+\| 2\s+\| 3\s+\| B/);
+    expect(response.text).toContain('**1-bed units in Business Bay** wins');
+    documentTestResult('COMPARE_AREAS handler', response);
+  });
+
+  it('should carry bedrooms over to sides that omit them', async () => {
+    const response = await runAction('studios in JVC vs JLT');
+    expect(response.text).toContain('**B** = studios in Jumeirah Lake Towers');
+  });
+
+  it('should align table columns', () => {
+    const table = renderTable(['Metric', 'A'], [['Yield', '6.1%']]);
+    expect(table.split('\n')).toEqual([
+      '```',
+      'Metric | A',
+      '-------+-----',
+      'Yield  | 6.1%',
+      '```',
+    ]);
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, expect, it, vi, beforeAll, afterAll, afterEach } from 'vitest';
+import { ModelType, logger } from '@elizaos/core';
+import type { HandlerCallback } from '@elizaos/core';
+import { extractCriteriaWithModel } from '../src/criteria-extraction';
+import { setListingSource } from '../src/listing-sources';
+import { createMockMessage, createMockRuntime, createMockState } from './utils/core-test-utils';
+
+// A runtime whose TEXT_SMALL model replies with the given text
+function runtimeReplying(reply: string | (() => Promise<string>)) {
+  const useModel = vi.fn(typeof reply === 'string' ? async () => reply : reply);
+  return Object.assign(createMockRuntime(), {
+    useModel,
+    getModel: vi.fn(() => useModel),
+  }) as any;
+}
+
+beforeAll(() => {
+  vi.spyOn(logger, 'info');
+  vi.spyOn(logger, 'warn');
+  vi.spyOn(logger, 'error');
+});
+
+afterAll(() => {
+  vi.restoreAllMocks();
+});
+
+afterEach(() => {
+  setListingSource(null);
+});
+
+describe('Criteria extraction', () => {
+  it('should read validated criteria from the small model', async () => {
+    const runtime = runtimeReplying(
+      '```json\n{"area": "Dubai Marina", "bedrooms": 2, "maxPrice": 1200000, "furnished": null, "note": "x"}\n```'
+    );
+
+    expect(
+      await extractCriteriaWithModel(
+        runtime,
+        '2 bed near the Marina walk, budget one point two mil'
+      )
+    ).toEqual({
+      area: 'Dubai Marina',
+      bedrooms: '2',
+      maxPrice: 1200000,
+    });
+    expect(runtime.useModel).toHaveBeenCalledWith(
+      ModelType.TEXT_SMALL,
+      expect.objectContaining({ prompt: expect.stringContaining('one point two mil') })
+    );
+  });
+
+  it('should normalise studios and property types', async () => {
+    const runtime = runtimeReplying('{"bedrooms": 0, "propertyType": "Villa", "purpose": "rent"}');
+    expect(await extractCriteriaWithModel(runtime, 'studio villa to rent')).toEqual({
+      bedrooms: 'studio',
+      propertyType: 'villa',
+      purpose: 'rent',
+    });
+  });
+
+  it.each([
+    ['prose', 'Never gonna give you up'],
+    ['a wrongly typed field', '{"area": "JVC", "maxPrice": "cheap"}'],
+    ['an inverted price range', '{"minPrice": 2000000, "maxPrice": 1000000}'],
+  ])('should return null for %s', async (_case, reply) => {
+    expect(await extractCriteriaWithModel(runtimeReplying(reply), 'anything')).toBeNull();
+  });
+
+  it('should return null when the model fails or is missing', async () => {
+    const failing = runtimeReplying(async () => {
+      throw new Error('rate limited');
+    });
+    expect(await extractCriteriaWithModel(failing, 'anything')).toBeNull();
+
+    const unregistered = Object.assign(runtimeReplying('{}'), { getModel: vi.fn(() => undefined) });
+    expect(await extractCriteriaWithModel(unregistered, 'anything')).toBeNull();
+    expect(unregistered.useModel).not.toHaveBeenCalled();
+
+    expect(await extractCriteriaWithModel(createMockRuntime(), 'anything')).toBeNull();
+  });
+
+  describe('SEARCH_LISTINGS', () => {
+    async function searchWith(runtime: any, text: string) {
+      const { default: plugin } = await import('../src/plugin');
+      const action = plugin.actions?.find((a) => a.name === 'SEARCH_LISTINGS');
+      const search = vi.fn(async () => ({ listings: [], offset: 0, total: 0, nextCursor: null }));
+      setListingSource({
+        name: 'fake',
+        search,
+        fetchDetails: vi.fn(async () => null),
+        healthCheck: vi.fn(async () => true),
+      });
+      const callback = (async () => []) as HandlerCallback;
+      await action.handler(runtime, createMockMessage(text), createMockState(), {}, callback);
+      return search;
+    }
+
+    it('should search with the criteria the model read', async () => {
+      const runtime = runtimeReplying(
+        '{"area": "Dubai Marina", "bedrooms": 2, "maxPrice": 1200000}'
+      );
+      const search = await searchWith(
+        runtime,
+        '2 bed near the Marina walk, budget one point two mil'
+      );
+
+      expect(search).toHaveBeenCalledWith(
+        { area: 'Dubai Marina', bedrooms: '2', maxPrice: 1200000 },
+        { limit: 5, offset: 0 }
+      );
+    });
+
+    it('should keep fields the regex parser read when the model leaves them out', async () => {
+      const runtime = runtimeReplying('{"area": "Dubai Marina", "bedrooms": 2}');
+      const search = await searchWith(runtime, '2 bed in the Marina over 1,000 sqft, 7%+ yield');
+
+      expect(search).toHaveBeenCalledWith(
+        expect.objectContaining({
+          area: 'Dubai Marina',
+          bedrooms: '2',
+          minSizeSqft: 1000,
+          yieldFloor: 7,
+        }),
+        expect.anything()
+      );
+    });
+
+    it('should fall back to the regex parser when the model output is invalid', async () => {
+      const runtime = runtimeReplying('Sure! Here are some great apartments.');
+      const search = await searchWith(runtime, '2 bed apartment in JVC under 1M');
+
+      expect(search).toHaveBeenCalledWith(
+        { area: 'Jumeirah Village Circle', propertyType: 'apartment', bedrooms: '2', maxPrice: 1000000 },
+        { limit: 5, offset: 0 }
+      );
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, expect, it, vi, beforeAll, afterAll, afterEach } from 'vitest';
+import { logger } from '@elizaos/core';
+import type { HandlerCallback, Memory } from '@elizaos/core';
+import { REFINEMENT_PATTERN, refineCriteria } from '../src/criteria-refinement';
+import { setListingSource } from '../src/listing-sources';
+import { createMockMessage, createMockRuntime, createMockState } from './utils/core-test-utils';
+
+const ENTITY = '6b9c5a1e-0000-4000-8000-0000000000e1';
+
+const marina = {
+  area: 'Dubai Marina',
+  propertyType: 'apartment',
+  bedrooms: '2',
+  minPrice: 1000000,
+  maxPrice: 1500000,
+};
+
+beforeAll(() => {
+  vi.spyOn(logger, 'info');
+  vi.spyOn(logger, 'warn');
+  vi.spyOn(logger, 'error');
+});
+
+afterAll(() => {
+  vi.restoreAllMocks();
+});
+
+afterEach(() => {
+  setListingSource(null);
+});
+
+describe('Criteria refinement', () => {
+  it('should replace only the criteria the message sets', () => {
+    expect(refineCriteria(marina, 'make it 3 beds', { bedrooms: '3' })).toEqual({
+      criteria: { ...marina, bedrooms: '3' },
+      changed: ['bedrooms'],
+      cleared: [],
+    });
+  });
+
+  it('should move the area when a lifted filter is given a new value', () => {
+    const { criteria, cleared } = refineCriteria(marina, 'any area near Downtown', {
+      area: 'Downtown Dubai',
+    });
+    expect(criteria.area).toBe('Downtown Dubai');
+    expect(cleared).toEqual([]);
+  });
+
+  it.each([
+    ['any area', ['area']],
+    ['no budget', ['maxPrice']],
+    ['drop the bedroom filter and any type', ['bedrooms', 'propertyType']],
+  ])('should lift the filters in "%s"', (text, fields) => {
+    const { criteria, cleared } = refineCriteria(marina, text, {});
+    expect(cleared).toEqual(fields);
+    for (const field of fields) expect(criteria).not.toHaveProperty(field);
+  });
+
+  it('should drop the other end of a range the change inverts', () => {
+    expect(
+      refineCriteria(marina, 'drop the budget to 900k', { maxPrice: 900000 }).criteria
+    ).toEqual({ area: 'Dubai Marina', propertyType: 'apartment', bedrooms: '2', maxPrice: 900000 });
+  });
+
+  it('should report nothing changed for a message with no criteria', () => {
+    const refinement = refineCriteria(marina, 'hmm not sure', {});
+    expect(refinement.changed).toEqual([]);
+    expect(refinement.cleared).toEqual([]);
+    expect(refinement.criteria).toEqual(marina);
+  });
+
+  it.each([
+    ['make it 3 beds', true],
+    ['drop the budget to 2M', true],
+    ['villas instead', true],
+    ['no budget', true],
+    ['any area near Downtown', true],
+    ['only villas', true],
+    ['actually 3 beds', true],
+    ['no, make it 2M', true],
+    ['no more than 1.5M', true],
+    ['change the budget to 2M', true],
+    ['change it to villas', true],
+    ['3 beds instead', true],
+    ['in Business Bay instead', true],
+    ['show more', false],
+    ['2 bed in JVC', false],
+    ['no thanks', false],
+    ["actually that's all", false],
+    ['any news?', false],
+    ['only looking for now', false],
+    ["change of plans, what's the weather", false],
+    ["I'll call the agent instead", false],
+  ])('should recognise "%s" as a refinement: %s', (text, expected) => {
+    expect(REFINEMENT_PATTERN.test(text)).toBe(expected);
+  });
+
+  describe('SEARCH_LISTINGS', () => {
+    it('should merge refinements into the search on screen and echo them', async () => {
+      const { default: plugin } = await import('../src/plugin');
+      const action = plugin.actions?.find((a) => a.name === 'SEARCH_LISTINGS');
+      const cache = new Map<string, unknown>();
+      const runtime = Object.assign(createMockRuntime(), {
+        getCache: vi.fn(async (key: string) => cache.get(key)),
+        setCache: vi.fn(async (key: string, value: unknown) => cache.set(key, value).has(key)),
+        deleteCache: vi.fn(async (key: string) => cache.delete(key)),
+      }) as any;
+      const search = vi.fn(async () => ({ listings: [], offset: 0, total: 0, nextCursor: null }));
+      setListingSource({
+        name: 'fake',
+        search,
+        fetchDetails: vi.fn(async () => null),
+        healthCheck: vi.fn(async () => true),
+      });
+
+      let response: any = null;
+      const callback = (async (content) => {
+        response = content;
+        return [];
+      }) as HandlerCallback;
+      const send = async (text: string) => {
+        const message = { ...createMockMessage(text), entityId: ENTITY } as Memory;
+        const state = createMockState();
+        expect(await action.validate(runtime, message, state)).toBe(true);
+        await action.handler(runtime, message, state, {}, callback);
+        return response.text as string;
+      };
+
+      await send('2 bed apartment in Dubai Marina under 1.5M');
+      expect(await send('make it 3 beds')).toContain(
+        'Updated search: 3 bedroom apartment properties in Dubai Marina under AED 1,500,000.'
+      );
+      expect(search).toHaveBeenLastCalledWith(
+        { area: 'Dubai Marina', propertyType: 'apartment', bedrooms: '3', maxPrice: 1500000 },
+        { limit: 5, offset: 0 }
+      );
+
+      expect(await send('narrow it down')).toContain(
+        "Let's refine your search: 3 bedroom apartment properties in Dubai Marina"
+      );
+      await send('drop the budget to 2M');
+      expect(search).toHaveBeenLastCalledWith(
+        { area: 'Dubai Marina', propertyType: 'apartment', bedrooms: '3', maxPrice: 2000000 },
+        { limit: 5, offset: 0 }
+      );
+
+      expect(await send('any area near Downtown')).toContain(
+        'Updated search: 3 bedroom apartment properties in Downtown Dubai under AED 2,000,000.'
+      );
+
+      // Unnamed clears refine the search on screen; named ones go to the saved search
+      const savedSearches = plugin.actions?.find((a) => a.name === 'SAVED_SEARCHES');
+      const from = (text: string) => ({ ...createMockMessage(text), entityId: ENTITY }) as Memory;
+      expect(await savedSearches.validate(runtime, from('remove the yield floor'))).toBe(false);
+      expect(
+        await savedSearches.validate(runtime, from('clear the budget from search marina-2bed'))
+      ).toBe(true);
+    });
+  });
+});
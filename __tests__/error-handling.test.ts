@@ -1,6 +1,6 @@
 import { describe, expect, it, vi, beforeEach, afterEach } from 'vitest';
 import plugin from '../src/plugin';
-import { StarterService } from '../src/plugin';
+import { ListingAlertService } from '../src/listing-alerts';
 import { logger } from '@elizaos/core';
 import type { IAgentRuntime, Memory, State } from '@elizaos/core';
 import { v4 as uuidv4 } from 'uuid';
@@ -85,14 +85,14 @@ describe('Error Handling', () => {
 
       let caughtError = null;
       try {
-        await StarterService.stop(mockRuntime);
+        await ListingAlertService.stop(mockRuntime);
       } catch (error: any) {
         caughtError = error;
-        expect(error.message).toBe('Starter service not found');
+        expect(error.message).toBe('Listing alert service not found');
       }
 
       expect(caughtError).not.toBeNull();
-      expect(mockRuntime.getService).toHaveBeenCalledWith('starter');
+      expect(mockRuntime.getService).toHaveBeenCalledWith('listing-alerts');
     });
 
     it('should handle service stop errors gracefully', async () => {
@@ -109,14 +109,14 @@ describe('Error Handling', () => {
       // The error should be propagated
       let caughtError = null;
       try {
-        await StarterService.stop(mockRuntime);
+        await ListingAlertService.stop(mockRuntime);
       } catch (error: any) {
         caughtError = error;
         expect(error.message).toBe('Error stopping service');
       }
 
       expect(caughtError).not.toBeNull();
-      expect(mockRuntime.getService).toHaveBeenCalledWith('starter');
+      expect(mockRuntime.getService).toHaveBeenCalledWith('listing-alerts');
       expect(mockServiceWithError.stop).toHaveBeenCalled();
     });
   });
@@ -0,0 +1,258 @@
+import { describe, expect, it, vi, beforeAll, afterAll, afterEach } from 'vitest';
+import { logger } from '@elizaos/core';
+import type { HandlerCallback, Memory } from '@elizaos/core';
+import {
+  calculateMortgage,
+  cashOnCashReturn,
+  maxLoanToValue,
+  monthlyPayment,
+  parseFinanceRequest,
+  recallFinanceListing,
+  rememberFinanceListing,
+} from '../src/finance';
+import { setListingSource } from '../src/listing-sources';
+import {
+  ServiceChargeStore,
+  parseServiceChargesCsv,
+  setServiceChargeStore,
+} from '../src/service-charges';
+import { createMockMessage, createMockRuntime, createMockState } from './utils/core-test-utils';
+
+const ENTITY = '6b9c5a1e-0000-4000-8000-0000000000f1';
+
+function createRuntimeWithCache() {
+  const cache = new Map<string, unknown>();
+  return Object.assign(createMockRuntime(), {
+    getCache: vi.fn(async (key: string) => cache.get(key)),
+    setCache: vi.fn(async (key: string, value: unknown) => cache.set(key, value).has(key)),
+    deleteCache: vi.fn(async (key: string) => cache.delete(key)),
+  }) as any;
+}
+
+beforeAll(() => {
+  vi.spyOn(logger, 'info');
+  vi.spyOn(logger, 'warn');
+  vi.spyOn(logger, 'error');
+});
+
+afterAll(() => {
+  vi.restoreAllMocks();
+});
+
+afterEach(() => {
+  setListingSource(null);
+  setServiceChargeStore(null);
+});
+
+describe('Finance', () => {
+  it.each([
+    ['resident', true, 2000000, false, 0.8],
+    ['uae_national', true, 2000000, false, 0.85],
+    ['resident', true, 6000000, false, 0.65],
+    ['uae_national', true, 6000000, false, 0.7],
+    ['resident', false, 2000000, false, 0.6],
+    ['uae_national', false, 2000000, false, 0.65],
+    ['non_resident', true, 2000000, false, 0.5],
+    ['resident', true, 2000000, true, 0.5],
+  ] as const)(
+    'should cap a %s (first home: %s) at AED %i, off-plan %s, at %s LTV',
+    (residency, firstHome, price, offPlan, expected) => {
+      expect(maxLoanToValue(price, residency, firstHome, offPlan)).toBe(expected);
+    }
+  );
+
+  it('should compute the monthly payment on an amortising loan', () => {
+    expect(monthlyPayment(1200000, 4.5, 25)).toBeCloseTo(6670, 0);
+    expect(monthlyPayment(1200000, 0, 25)).toBe(4000);
+  });
+
+  it('should put down the minimum deposit when none is given', () => {
+    const mortgage = calculateMortgage({
+      price: 1500000,
+      residency: 'resident',
+      firstHome: true,
+      annualRate: 4.5,
+      termYears: 25,
+    });
+    expect(mortgage).toMatchObject({
+      maxLtv: 0.8,
+      loanAmount: 1200000,
+      downPayment: 300000,
+      depositRaised: false,
+    });
+    expect(mortgage.totalInterest).toBeCloseTo(mortgage.totalRepaid - 1200000, 6);
+  });
+
+  it('should raise a deposit below the minimum and cap the term', () => {
+    const mortgage = calculateMortgage({
+      price: 2000000,
+      residency: 'non_resident',
+      firstHome: true,
+      downPayment: 200000,
+      annualRate: 4.5,
+      termYears: 30,
+    });
+    expect(mortgage.downPayment).toBe(1000000);
+    expect(mortgage.depositRaised).toBe(true);
+    expect(mortgage.scenario.termYears).toBe(25);
+  });
+
+  it('should work out the cash-on-cash return on the cash put in', () => {
+    const mortgage = calculateMortgage({
+      price: 1000000,
+      residency: 'resident',
+      firstHome: true,
+      annualRate: 0,
+      termYears: 25,
+    });
+    // AED 800k over 300 months is AED 32,000 a year
+    const returns = cashOnCashReturn(mortgage, 80000, 50000);
+    expect(returns).toMatchObject({
+      netIncome: 80000,
+      annualDebtService: 32000,
+      annualCashFlow: 48000,
+      cashInvested: 250000,
+    });
+    expect(returns.cashOnCash).toBeCloseTo(19.2, 6);
+  });
+
+  it.each([
+    [
+      'mortgage on a 1.5M flat at 4.2% over 20 years with 30% down, non-resident',
+      {
+        price: 1500000,
+        annualRate: 4.2,
+        termYears: 20,
+        downPaymentShare: 0.3,
+        residency: 'non_resident',
+      },
+    ],
+    [
+      'deposit of 300k for a 2M villa, second home, rents for 120k',
+      { price: 2000000, downPayment: 300000, firstHome: false, annualRent: 120000 },
+    ],
+    [
+      "I'm an expat buying my first home off-plan for AED 950,000, rent is 6k a month",
+      {
+        price: 950000,
+        residency: 'resident',
+        firstHome: true,
+        offPlan: true,
+        annualRent: 72000,
+      },
+    ],
+    ['finance it', {}],
+  ])('should read "%s"', (text, expected) => {
+    expect(parseFinanceRequest(text)).toEqual(expected);
+  });
+
+  it('should remember the analysed listing for a day', async () => {
+    const runtime = createRuntimeWithCache();
+    const listing = { link: 'https://x', title: 'Marina View', price: 2400000, analysedAt: 0 };
+    await rememberFinanceListing(runtime, ENTITY, listing);
+
+    expect(await recallFinanceListing(runtime, ENTITY, new Date(3600000))).toEqual(listing);
+    expect(await recallFinanceListing(runtime, 'someone-else', new Date(3600000))).toBeNull();
+    expect(await recallFinanceListing(runtime, ENTITY, new Date(25 * 3600000))).toBeNull();
+    expect(await recallFinanceListing(createMockRuntime(), ENTITY)).toBeNull();
+  });
+
+  describe('FINANCE_CALC', () => {
+    const send = async (runtime: any, text: string) => {
+      const { default: plugin } = await import('../src/plugin');
+      const action = plugin.actions?.find((a) => a.name === 'FINANCE_CALC');
+      const message = { ...createMockMessage(text), entityId: ENTITY } as Memory;
+      const state = createMockState();
+      expect(await action.validate(runtime, message, state)).toBe(true);
+
+      let response: any = null;
+      const callback = (async (content) => {
+        response = content;
+        return [];
+      }) as HandlerCallback;
+      await action.handler(runtime, message, state, {}, callback);
+      return response.text as string;
+    };
+
+    it('should break down a mortgage for a quoted price', async () => {
+      const text = await send(
+        createRuntimeWithCache(),
+        'mortgage on 1.5M at 4.2% over 20 years, non-resident, rents for 90k'
+      );
+      expect(text).toContain('**Financing AED 1,500,000**');
+      expect(text).toContain("I've assumed you're buying your first home");
+      expect(text).toContain('• Max loan-to-value: **50%** (Non-resident, first home)');
+      expect(text).toContain('• Loan: **AED 750,000** with **AED 750,000** down (50%)');
+      expect(text).toContain('at 4.2% over 20 years');
+      expect(text).toContain('• Cash-on-cash return: **');
+      expect(text).toContain('Max LTV');
+    });
+
+    it('should ask for a price when there is nothing to finance', async () => {
+      expect(await send(createRuntimeWithCache(), 'what would the monthly payment be?')).toContain(
+        'Which purchase should I work the mortgage out for?'
+      );
+    });
+
+    it('should prefill the price of the last sale listing analysed', async () => {
+      const runtime = createRuntimeWithCache();
+      await rememberFinanceListing(runtime, ENTITY, {
+        link: 'https://www.bayut.com/property/details-123.html',
+        title: 'Marina View',
+        price: 2400000,
+        netIncome: 106000,
+        analysedAt: Date.now(),
+      });
+
+      const text = await send(runtime, 'finance it');
+      expect(text).toContain('**Financing Marina View (AED 2,400,000)**');
+      expect(text).toContain('• Loan: **AED 1,920,000** with **AED 480,000** down (20%)');
+      expect(text).toContain('net rent of AED 106,000/yr');
+      expect(text).toContain('<https://www.bayut.com/property/details-123.html>');
+    });
+
+    it("should take service charges on the listing's size off a quoted rent", async () => {
+      const runtime = createRuntimeWithCache();
+      await rememberFinanceListing(runtime, ENTITY, {
+        link: 'https://www.bayut.com/property/details-123.html',
+        title: 'Marina View',
+        price: 2400000,
+        size: 1000,
+        analysedAt: Date.now(),
+      });
+
+      // AED 150k less 15,000 in service charges and 5% each for vacancy and management
+      const text = await send(runtime, 'finance it, rents for 150k');
+      expect(text).toContain('net rent of AED 120,000/yr');
+    });
+
+    it("should charge the building's service charge rate when one is on record", async () => {
+      setServiceChargeStore(
+        new ServiceChargeStore(
+          parseServiceChargesCsv('community,building,rate_per_sqft\nDubai Marina,Cayan Tower,18')
+        )
+      );
+      const runtime = createRuntimeWithCache();
+      await rememberFinanceListing(runtime, ENTITY, {
+        link: 'https://www.bayut.com/property/details-123.html',
+        title: 'Cayan Tower 2BR',
+        price: 2400000,
+        location: 'Cayan Tower, Dubai Marina, Dubai',
+        size: 1000,
+        analysedAt: Date.now(),
+      });
+
+      const text = await send(runtime, 'finance it, rents for 150k');
+      expect(text).toContain('net rent of AED 117,000/yr');
+    });
+
+    it('should leave financing questions about a link to FINANCE_CALC', async () => {
+      const { default: plugin } = await import('../src/plugin');
+      const analyse = plugin.actions?.find((a) => a.name === 'ANALYSE_PROPERTY_LINK');
+      const message = createMockMessage(
+        'What would the mortgage be on https://www.bayut.com/property/details-123.html'
+      );
+      expect(await analyse.validate(createMockRuntime(), message)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import {
+  PLACES,
+  findPlace,
+  masterCommunity,
+  placeLineage,
+  placesWithin,
+  resolvePlace,
+} from '../src/gazetteer';
+
+describe('Dubai gazetteer', () => {
+  it('should give every place a known parent', () => {
+    const names = new Set(PLACES.map((place) => place.name));
+    for (const place of PLACES) {
+      if (place.level === 'master') expect(place.parent).toBeUndefined();
+      else expect(names.has(place.parent)).toBe(true);
+    }
+  });
+
+  it.each([
+    ['JVC', 'Jumeirah Village Circle'],
+    ['jumeirah-village circle', 'Jumeirah Village Circle'],
+    ['the marina', 'Dubai Marina'],
+    ['MBR City', 'Mohammed Bin Rashid City'],
+    ['impz', 'Dubai Production City'],
+  ])('should find %s by name or alias', (name, expected) => {
+    expect(findPlace(name)?.name).toBe(expected);
+  });
+
+  it.each([
+    ['2 bed in Samara, Arabian Ranches 2', 'Arabian Ranches 2'],
+    ['villas in Arabian Ranches 2', 'Arabian Ranches 2'],
+    ['villas in arabian ranches', 'Arabian Ranches'],
+    ['studio in Jumeirah Village Circle', 'Jumeirah Village Circle'],
+    ['apartment in Palm Jumeirah', 'Palm Jumeirah'],
+    ['townhouse in Jumeirah', 'Jumeirah'],
+    ['1 bed in Marina Gate please', 'Marina Gate'],
+    ['somewhere quiet', undefined],
+  ])('should resolve the longest place in "%s"', (text, expected) => {
+    expect(resolvePlace(text)?.name).toBe(expected);
+  });
+
+  it('should not match a place inside another word', () => {
+    expect(resolvePlace('a downtowner in the palmyra')).toBeNull();
+  });
+
+  it.each([
+    'villa with palm trees and greens out back',
+    'ranches style home with a casa feel',
+    'maple floors throughout',
+  ])('should not read everyday words in "%s" as places', (text) => {
+    expect(resolvePlace(text)).toBeNull();
+  });
+
+  it.each([
+    ['4 bed villa in Casa', 'Casa'],
+    ['Casa AR2', 'Casa'],
+    ['Casa', 'Casa'],
+    ['villa in the Springs', 'The Springs'],
+  ])('should match generic names in context in "%s"', (text, expected) => {
+    expect(resolvePlace(text)?.name).toBe(expected);
+  });
+
+  it('should walk up and down the hierarchy', () => {
+    expect(placeLineage('samara').map((place) => place.name)).toEqual([
+      'Samara',
+      'Arabian Ranches 2',
+    ]);
+    expect(placeLineage('nowhere')).toEqual([]);
+    expect(masterCommunity('Cayan')?.name).toBe('Dubai Marina');
+    expect(masterCommunity('Business Bay')?.name).toBe('Business Bay');
+    expect(masterCommunity('Emirates Hills')?.name).toBe('Emirates Hills');
+    expect(placesWithin('Dubai Marina')).toEqual(['Marina Gate', 'Cayan Tower', 'Princess Tower']);
+    expect(placesWithin('Motor City')).toEqual([]);
+  });
+});
@@ -0,0 +1,264 @@
+import { describe, expect, it, vi, beforeAll, afterAll, afterEach } from 'vitest';
+import { logger } from '@elizaos/core';
+import {
+  type AlertSettings,
+  ListingAlertService,
+  isAlertDue,
+  isQuietHour,
+  parseAlertRequest,
+  recordShownListings,
+  saveAlertSettings,
+} from '../src/listing-alerts';
+import type { ListingSummary } from '../src/listing-schema';
+import { type ListingSource, setListingSource } from '../src/listing-sources';
+import { createMockRuntime } from './utils/core-test-utils';
+
+const listing = (id: number): ListingSummary => ({
+  title: `JVC 1BR #${id}`,
+  price: 'AED 850,000',
+  priceAed: 850000,
+  link: `https://www.propertyfinder.ae/en/plp/buy/apartment-for-sale-dubai-jvc-${id}.html`,
+});
+
+const settings = (overrides: Partial<AlertSettings> = {}): AlertSettings => ({
+  userId: 'user-1',
+  source: 'telegram',
+  roomId: 'room-1',
+  entityId: 'entity-1',
+  frequencyHours: 24,
+  quietStart: null,
+  quietEnd: null,
+  enabled: true,
+  lastCheckedAt: null,
+  ...overrides,
+});
+
+// Just enough of the SQL plugin to back alert settings, shown listings and saved searches
+function createFakeSql() {
+  const alerts = new Map<string, any>();
+  const shown: any[] = [];
+  const savedSearches: any[] = [
+    {
+      user_id: 'user-1',
+      name: 'jvc-1bed',
+      area: 'JVC',
+      bedrooms: '1',
+      max_price: 900000,
+      is_active: 1,
+      updated_at: 0,
+    },
+  ];
+  return {
+    alerts,
+    shown,
+    query: vi.fn(async (sql: string, params: any[] = []) => {
+      if (sql.includes('INSERT INTO alert_settings')) {
+        const [user_id, source, room_id, entity_id, frequency_hours, quiet_start, quiet_end] =
+          params;
+        const [enabled, last_checked_at] = params.slice(7);
+        alerts.set(user_id, {
+          user_id,
+          source,
+          room_id,
+          entity_id,
+          frequency_hours,
+          quiet_start,
+          quiet_end,
+          enabled,
+          last_checked_at,
+        });
+      } else if (sql.includes('FROM alert_settings WHERE enabled = 1')) {
+        return [...alerts.values()].filter((row) => row.enabled === 1);
+      } else if (sql.includes('FROM alert_settings')) {
+        return alerts.has(params[0]) ? [alerts.get(params[0])] : [];
+      } else if (sql.includes('INSERT INTO shown_listings')) {
+        const [user_id, link, shown_at] = params;
+        if (!shown.some((row) => row.user_id === user_id && row.link === link)) {
+          shown.push({ user_id, link, shown_at });
+        }
+      } else if (sql.includes('FROM shown_listings')) {
+        return shown.filter((row) => row.user_id === params[0]);
+      } else if (sql.includes('FROM saved_searches')) {
+        return savedSearches.filter((row) => row.user_id === params[0]);
+      }
+      return [];
+    }),
+  };
+}
+
+function createAlertRuntime() {
+  return Object.assign(createMockRuntime(), {
+    sql: createFakeSql(),
+    sendMessageToTarget: vi.fn(async () => {}),
+  }) as any;
+}
+
+function useListings(listings: ListingSummary[]): ListingSource {
+  const source: ListingSource = {
+    name: 'fake',
+    search: vi.fn(async () => ({ listings, offset: 0, total: listings.length, nextCursor: null })),
+    fetchDetails: vi.fn(async () => null),
+    healthCheck: vi.fn(async () => true),
+  };
+  setListingSource(source);
+  return source;
+}
+
+beforeAll(() => {
+  vi.spyOn(logger, 'info');
+  vi.spyOn(logger, 'warn');
+  vi.spyOn(logger, 'error');
+});
+
+afterAll(() => {
+  vi.restoreAllMocks();
+});
+
+afterEach(() => {
+  setListingSource(null);
+});
+
+describe('Listing alerts', () => {
+  describe('parseAlertRequest', () => {
+    it('should read frequency and quiet hours', () => {
+      expect(parseAlertRequest('alert me every 6 hours, quiet hours 10pm to 8am')).toEqual({
+        enabled: true,
+        frequencyHours: 6,
+        quietStart: 22,
+        quietEnd: 8,
+      });
+      expect(parseAlertRequest('notify me weekly')).toMatchObject({ frequencyHours: 168 });
+      expect(parseAlertRequest('alerts daily with no quiet hours')).toMatchObject({
+        frequencyHours: 24,
+        quietStart: null,
+        quietEnd: null,
+      });
+    });
+
+    it('should recognise requests to pause alerts', () => {
+      expect(parseAlertRequest('stop alerts')).toEqual({ enabled: false });
+    });
+  });
+
+  describe('scheduling', () => {
+    it('should treat quiet hours as Dubai time and wrap past midnight', () => {
+      const quiet = settings({ quietStart: 22, quietEnd: 8 });
+      // 19:00 UTC is 23:00 in Dubai
+      expect(isQuietHour(quiet, new Date('2026-10-01T19:00:00Z'))).toBe(true);
+      expect(isQuietHour(quiet, new Date('2026-10-01T03:00:00Z'))).toBe(true);
+      expect(isQuietHour(quiet, new Date('2026-10-01T05:00:00Z'))).toBe(false);
+      expect(isQuietHour(settings(), new Date('2026-10-01T19:00:00Z'))).toBe(false);
+    });
+
+    it('should wait for the frequency to elapse', () => {
+      const checked = settings({ lastCheckedAt: new Date('2026-10-01T08:00:00Z') });
+      expect(isAlertDue(checked, new Date('2026-10-02T07:59:00Z'))).toBe(false);
+      expect(isAlertDue(checked, new Date('2026-10-02T08:00:00Z'))).toBe(true);
+      expect(isAlertDue({ ...checked, enabled: false }, new Date('2026-10-03T08:00:00Z'))).toBe(
+        false
+      );
+    });
+  });
+
+  describe('ListingAlertService', () => {
+    it('should send only listings the user has not been shown', async () => {
+      const runtime = createAlertRuntime();
+      const source = useListings([listing(1), listing(2), listing(3)]);
+      await saveAlertSettings(runtime, settings());
+      await recordShownListings(runtime, 'user-1', [listing(1).link]);
+
+      const service = new ListingAlertService(runtime);
+      expect(await service.checkAlerts(new Date('2026-10-01T06:00:00Z'))).toBe(1);
+
+      expect(source.search).toHaveBeenCalledWith(
+        { area: 'JVC', bedrooms: '1', maxPrice: 900000 },
+        { limit: 5, offset: 0, cursor: null }
+      );
+      expect(runtime.sendMessageToTarget).toHaveBeenCalledTimes(1);
+      const [target, content] = runtime.sendMessageToTarget.mock.calls[0];
+      expect(target).toEqual({ source: 'telegram', roomId: 'room-1', entityId: 'entity-1' });
+      expect(content.text).toContain('"jvc-1bed"');
+      expect(content.text).not.toContain(listing(1).link);
+      expect(content.text).toContain(listing(2).link);
+      expect(content.text).toContain(listing(3).link);
+      expect(runtime.sql.shown).toHaveLength(3);
+
+      // Nothing new on the next run, so nothing is sent
+      expect(await service.checkAlerts(new Date('2026-10-02T06:00:00Z'))).toBe(0);
+      expect(runtime.sendMessageToTarget).toHaveBeenCalledTimes(1);
+    });
+
+    it('should page through results until a page has nothing new', async () => {
+      const runtime = createAlertRuntime();
+      const all = Array.from({ length: 30 }, (_, i) => listing(i + 1));
+      const source = useListings(all);
+      source.search = vi.fn(async (_criteria, { offset = 0, limit = 5 } = {}) => ({
+        listings: all.slice(offset, offset + limit),
+        offset,
+        total: all.length,
+        nextCursor: null,
+      }));
+      await saveAlertSettings(runtime, settings());
+      // Listings 1-7 are new, the rest were sent before
+      await recordShownListings(
+        runtime,
+        'user-1',
+        all.slice(7).map((l) => l.link)
+      );
+
+      const service = new ListingAlertService(runtime);
+      expect(await service.checkAlerts(new Date('2026-10-01T06:00:00Z'))).toBe(1);
+
+      // The third page (listings 11-15) has nothing new, so the check stops there
+      expect(source.search).toHaveBeenCalledTimes(3);
+      expect(source.search).toHaveBeenLastCalledWith(expect.anything(), {
+        limit: 5,
+        offset: 10,
+        cursor: null,
+      });
+      const [, content] = runtime.sendMessageToTarget.mock.calls[0];
+      expect(content.text).toContain(listing(7).link);
+      expect(content.text).not.toContain(listing(8).link);
+    });
+
+    it('should stop paging after five pages', async () => {
+      const runtime = createAlertRuntime();
+      const all = Array.from({ length: 100 }, (_, i) => listing(i + 1));
+      const source = useListings(all);
+      source.search = vi.fn(async (_criteria, { offset = 0, limit = 5 } = {}) => ({
+        listings: all.slice(offset, offset + limit),
+        offset,
+        total: null,
+        nextCursor: null,
+      }));
+      await saveAlertSettings(runtime, settings());
+
+      const service = new ListingAlertService(runtime);
+      expect(await service.checkAlerts(new Date('2026-10-01T06:00:00Z'))).toBe(1);
+      expect(source.search).toHaveBeenCalledTimes(5);
+      expect(runtime.sql.shown).toHaveLength(25);
+    });
+
+    it('should hold alerts during quiet hours and when not yet due', async () => {
+      const runtime = createAlertRuntime();
+      const source = useListings([listing(4)]);
+      await saveAlertSettings(
+        runtime,
+        settings({ quietStart: 22, quietEnd: 8, lastCheckedAt: new Date('2026-10-01T06:00:00Z') })
+      );
+      const service = new ListingAlertService(runtime);
+
+      // Not due yet
+      expect(await service.checkAlerts(new Date('2026-10-01T12:00:00Z'))).toBe(0);
+      // Due, but 23:00 in Dubai
+      expect(await service.checkAlerts(new Date('2026-10-02T19:00:00Z'))).toBe(0);
+      expect(source.search).not.toHaveBeenCalled();
+
+      // Quiet hours over
+      expect(await service.checkAlerts(new Date('2026-10-03T05:00:00Z'))).toBe(1);
+      expect(runtime.sql.alerts.get('user-1').last_checked_at).toBe(
+        new Date('2026-10-03T05:00:00Z').getTime()
+      );
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, expect, it, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import { logger } from '@elizaos/core';
+import type { HandlerCallback } from '@elizaos/core';
+import { cacheListing, getCachedListing, listingCacheTtlMs } from '../src/listing-cache';
+import { parsePropertyDetails } from '../src/listing-schema';
+import { createMockMessage, createMockRuntime, createMockState } from './utils/core-test-utils';
+
+const LINK =
+  'https://www.propertyfinder.ae/en/plp/buy/apartment-for-sale-dubai-jvc-bloom-towers-555.html';
+
+const rawDetails = {
+  title: 'Bloom Towers 1BR',
+  price: 850000,
+  bedrooms: '1',
+  bathrooms: '2',
+  size: 760,
+  location: 'Bloom Towers, Jumeirah Village Circle',
+};
+
+const fetchMock = vi.hoisted(() => vi.fn());
+vi.mock('node-fetch', () => ({ default: fetchMock }));
+
+// Just enough of the SQL plugin to back the listing_cache queries
+function createFakeSql() {
+  const rows = new Map<string, any>();
+  return {
+    rows,
+    query: vi.fn(async (sql: string, params: any[] = []) => {
+      if (sql.includes('INSERT INTO listing_cache')) {
+        const [listing_id, portal, link, details_json, fetched_at] = params;
+        rows.set(listing_id, { listing_id, portal, link, details_json, fetched_at });
+        return [];
+      }
+      if (sql.includes('FROM listing_cache')) {
+        const row = rows.get(params[0]);
+        return row && row.fetched_at >= params[1] ? [row] : [];
+      }
+      return [];
+    }),
+  };
+}
+
+function createRuntimeWithSql(sql = createFakeSql()) {
+  return Object.assign(createMockRuntime(), { sql }) as any;
+}
+
+const details = parsePropertyDetails({
+  ...rawDetails,
+  furnishing: null,
+  amenities: [],
+  image: null,
+  propertyType: 'apartment',
+  purpose: 'sale',
+  portal: 'propertyfinder',
+  link: LINK,
+});
+
+beforeAll(() => {
+  vi.spyOn(logger, 'info');
+  vi.spyOn(logger, 'warn');
+  vi.spyOn(logger, 'error');
+});
+
+afterAll(() => {
+  vi.restoreAllMocks();
+});
+
+beforeEach(() => {
+  delete process.env.LISTING_CACHE_TTL_HOURS;
+  fetchMock.mockReset();
+  fetchMock.mockImplementation(async () => ({
+    ok: true,
+    status: 200,
+    json: async () => rawDetails,
+  }));
+});
+
+describe('Listing cache', () => {
+  it('should return cached details within the TTL', async () => {
+    const runtime = createRuntimeWithSql();
+    const fetchedAt = new Date('2026-08-01T10:00:00Z');
+    await cacheListing(runtime, 'propertyfinder:555', details, fetchedAt);
+
+    const cached = await getCachedListing(
+      runtime,
+      'propertyfinder:555',
+      new Date('2026-08-01T20:00:00Z')
+    );
+    expect(cached?.details).toEqual(details);
+    expect(cached?.fetchedAt).toEqual(fetchedAt);
+  });
+
+  it('should miss once the entry is older than the TTL', async () => {
+    const runtime = createRuntimeWithSql();
+    await cacheListing(runtime, 'propertyfinder:555', details, new Date('2026-08-01T10:00:00Z'));
+
+    expect(
+      await getCachedListing(runtime, 'propertyfinder:555', new Date('2026-08-02T10:00:01Z'))
+    ).toBeNull();
+  });
+
+  it('should ignore rows that no longer match the details schema', async () => {
+    const sql = createFakeSql();
+    sql.rows.set('propertyfinder:555', {
+      details_json: JSON.stringify({ title: 'Old shape' }),
+      fetched_at: Date.now(),
+    });
+
+    expect(await getCachedListing(createRuntimeWithSql(sql), 'propertyfinder:555')).toBeNull();
+  });
+
+  it('should read the TTL from LISTING_CACHE_TTL_HOURS', () => {
+    expect(listingCacheTtlMs()).toBe(24 * 3600 * 1000);
+    process.env.LISTING_CACHE_TTL_HOURS = '0.5';
+    expect(listingCacheTtlMs()).toBe(1800 * 1000);
+  });
+
+  it('should skip the webhook when the same advert is analysed again', async () => {
+    const { default: plugin } = await import('../src/plugin');
+    const action = plugin.actions?.find((a) => a.name === 'ANALYSE_PROPERTY_LINK');
+    const runtime = createRuntimeWithSql();
+    const callback = (async () => []) as HandlerCallback;
+
+    await action.handler(runtime, createMockMessage(LINK), createMockState(), {}, callback);
+    // Same listing, pasted with tracking parameters
+    await action.handler(
+      runtime,
+      createMockMessage(`${LINK}?utm_source=whatsapp`),
+      createMockState(),
+      {},
+      callback
+    );
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(runtime.sql.rows.has('propertyfinder:555')).toBe(true);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, expect, it, vi, beforeAll, afterAll } from 'vitest';
+import { logger } from '@elizaos/core';
+import type { HandlerCallback } from '@elizaos/core';
+import { filterListings, matchesCriteria } from '../src/listing-filters';
+import type { ListingSummary } from '../src/listing-schema';
+import { setListingSource } from '../src/listing-sources';
+import { createMockMessage, createMockRuntime, createMockState } from './utils/core-test-utils';
+
+function listing(details: Partial<ListingSummary> = {}): ListingSummary {
+  return {
+    title: 'JVC 1BR',
+    price: 'AED 800,000',
+    priceAed: 800000,
+    link: 'https://x.ae/1',
+    ...details,
+  } as ListingSummary;
+}
+
+beforeAll(() => {
+  vi.spyOn(logger, 'info');
+  vi.spyOn(logger, 'warn');
+  vi.spyOn(logger, 'error');
+});
+
+afterAll(() => {
+  setListingSource(null);
+  vi.restoreAllMocks();
+});
+
+describe('Listing filters', () => {
+  it('should rule listings out on the details they have', () => {
+    const detailed = listing({
+      bedrooms: 1,
+      sizeSqft: 750,
+      furnishing: 'PARTLY',
+      propertyType: 'apartment',
+      purpose: 'sale',
+      completionStatus: 'off_plan',
+      grossYield: 6.5,
+    });
+
+    expect(matchesCriteria(detailed, { bedrooms: '1', maxPrice: 900000, furnished: true })).toBe(
+      true
+    );
+    expect(matchesCriteria(detailed, { bedrooms: 'studio' })).toBe(false);
+    expect(matchesCriteria(detailed, { propertyType: 'Villa' })).toBe(false);
+    expect(matchesCriteria(detailed, { minPrice: 1000000 })).toBe(false);
+    expect(matchesCriteria(detailed, { minSizeSqft: 800 })).toBe(false);
+    expect(matchesCriteria(detailed, { furnished: false })).toBe(false);
+    expect(matchesCriteria(detailed, { purpose: 'rent' })).toBe(false);
+    expect(matchesCriteria(detailed, { completionStatus: 'ready' })).toBe(false);
+    expect(matchesCriteria(detailed, { yieldFloor: 7 })).toBe(false);
+  });
+
+  it('should keep listings missing the detail a criterion checks', () => {
+    const bare = listing({ priceAed: null });
+    expect(
+      filterListings([bare], {
+        bedrooms: '2',
+        maxPrice: 500000,
+        minSizeSqft: 1000,
+        furnished: false,
+        purpose: 'rent',
+        completionStatus: 'ready',
+        yieldFloor: 8,
+      })
+    ).toEqual([bare]);
+  });
+
+  it('should read every criterion from a search request', async () => {
+    const { default: plugin } = await import('../src/plugin');
+    const action = plugin.actions?.find((a) => a.name === 'SEARCH_LISTINGS');
+    const search = vi.fn(async () => ({ listings: [], offset: 0, total: 0, nextCursor: null }));
+    setListingSource({
+      name: 'fake',
+      search,
+      fetchDetails: vi.fn(async () => null),
+      healthCheck: vi.fn(async () => true),
+    });
+
+    const callback = (async () => []) as HandlerCallback;
+    await action.handler(
+      createMockRuntime(),
+      createMockMessage(
+        'Furnished 2 bed apartment for rent in JVC under 120k, over 1,000 sqft, ready to move in'
+      ),
+      createMockState(),
+      {},
+      callback
+    );
+    expect(search).toHaveBeenCalledWith(
+      {
+        area: 'Jumeirah Village Circle',
+        propertyType: 'apartment',
+        bedrooms: '2',
+        maxPrice: 120000,
+        minSizeSqft: 1000,
+        furnished: true,
+        purpose: 'rent',
+        completionStatus: 'ready',
+      },
+      { limit: 5, offset: 0 }
+    );
+
+    await action.handler(
+      createMockRuntime(),
+      createMockMessage('Off-plan villa to buy in Dubai Hills between 2,500 and 4,000 sqft'),
+      createMockState(),
+      {},
+      callback
+    );
+    expect(search).toHaveBeenLastCalledWith(
+      {
+        area: 'Dubai Hills Estate',
+        propertyType: 'villa',
+        minSizeSqft: 2500,
+        maxSizeSqft: 4000,
+        purpose: 'sale',
+        completionStatus: 'off_plan',
+      },
+      { limit: 5, offset: 0 }
+    );
+  });
+});
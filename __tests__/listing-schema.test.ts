@@ -0,0 +1,149 @@
+import { describe, expect, it, vi, beforeAll, afterAll } from 'vitest';
+import { logger } from '@elizaos/core';
+import type { HandlerCallback } from '@elizaos/core';
+import {
+  ListingValidationError,
+  parseAmount,
+  parseListingSummaries,
+  parsePropertyDetails,
+  parseSizeSqft,
+} from '../src/listing-schema';
+import { createMockMessage, createMockRuntime, createMockState } from './utils/core-test-utils';
+
+const webhookResponse = { current: {} as any };
+
+vi.mock('node-fetch', () => ({
+  default: vi.fn(async () => ({
+    ok: true,
+    status: 200,
+    json: async () => webhookResponse.current,
+    text: async () => JSON.stringify(webhookResponse.current),
+  })),
+}));
+
+const LINK = 'https://www.propertyfinder.ae/en/plp/buy/apartment-for-sale-dubai-jvc-1.html';
+
+const details = {
+  title: 'Bloom Towers 1BR',
+  price: 'AED 1,450,000',
+  bedrooms: 'Studio',
+  bathrooms: '1',
+  size: '1,200 sqft',
+  furnishing: null,
+  location: 'Bloom Towers, Jumeirah Village Circle',
+  amenities: [],
+  image: null,
+  propertyType: 'apartment',
+  purpose: 'sale' as const,
+  portal: 'propertyfinder' as const,
+  link: LINK,
+};
+
+beforeAll(() => {
+  vi.spyOn(logger, 'info');
+  vi.spyOn(logger, 'warn');
+  vi.spyOn(logger, 'error');
+});
+
+afterAll(() => {
+  vi.restoreAllMocks();
+});
+
+describe('Listing schema', () => {
+  describe('coercion helpers', () => {
+    it.each([
+      [1450000, 1450000],
+      ['AED 1,450,000', 1450000],
+      ['95,000 yearly', 95000],
+      ['AED 1.2M', 1200000],
+      ['85k', 85000],
+      ['AED 8,500/month', 102000],
+      ['on request', null],
+      [undefined, null],
+    ])('should read amount %s as %s', (input, expected) => {
+      expect(parseAmount(input)).toBe(expected);
+    });
+
+    it.each([
+      [850, 850],
+      ['1,200 sqft', 1200],
+      ['111 sqm', 1195],
+      ['75 m²', 807],
+      [null, null],
+    ])('should read size %s as %s sqft', (input, expected) => {
+      expect(parseSizeSqft(input)).toBe(expected);
+    });
+  });
+
+  describe('parsePropertyDetails', () => {
+    it('should coerce price, bedroom and size strings', () => {
+      expect(parsePropertyDetails(details)).toMatchObject({
+        price: 1450000,
+        bedrooms: 0,
+        bathrooms: 1,
+        size: 1200,
+      });
+    });
+
+    it('should allow missing optional fields', () => {
+      const parsed = parsePropertyDetails({ ...details, bedrooms: undefined, size: '' });
+      expect(parsed.bedrooms).toBeNull();
+      expect(parsed.size).toBeNull();
+    });
+
+    it('should name the field that is missing', () => {
+      let error: any = null;
+      try {
+        parsePropertyDetails({ ...details, price: 'Price on application' });
+      } catch (caught) {
+        error = caught;
+      }
+
+      expect(error).toBeInstanceOf(ListingValidationError);
+      expect(error.field).toBe('price');
+      expect(error.message).toBe(`Listing data is missing a valid price for ${LINK}`);
+    });
+  });
+
+  describe('parseListingSummaries', () => {
+    it('should format numeric prices and drop listings without a link', () => {
+      const { listings, rejected } = parseListingSummaries([
+        { title: 'A', price: 950000, link: 'https://example.com/a' },
+        { title: '', price: 'AED 1.2M', link: 'https://example.com/b' },
+        { title: 'C', link: 'https://example.com/c' },
+        { title: 'No link', price: 500000 },
+      ]);
+
+      expect(rejected).toBe(1);
+      expect(listings.map((l) => l.price)).toEqual([
+        'AED 950,000',
+        'AED 1.2M',
+        'Price not specified',
+      ]);
+      expect(listings.map((l) => l.priceAed)).toEqual([950000, 1200000, null]);
+      expect(listings[1].title).toBe('No Title');
+    });
+  });
+
+  it('should tell the user which field an advert is missing', async () => {
+    webhookResponse.current = { ...details, price: null };
+    const { default: plugin } = await import('../src/plugin');
+    const action = plugin.actions?.find((a) => a.name === 'ANALYSE_PROPERTY_LINK');
+
+    let response: any = null;
+    const callback = (async (content) => {
+      response = content;
+      return [];
+    }) as HandlerCallback;
+
+    await action.handler(
+      createMockRuntime(),
+      createMockMessage(LINK),
+      createMockState(),
+      {},
+      callback
+    );
+
+    expect(response.text).toContain('without a usable price');
+  });
+});
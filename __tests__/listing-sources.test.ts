@@ -0,0 +1,311 @@
+import { describe, expect, it, vi, beforeAll, afterAll } from 'vitest';
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { logger } from '@elizaos/core';
+import {
+  DEFAULT_N8N_DETAILS_URL,
+  N8nListingSource,
+  createListingSource,
+  getListingSource,
+  setListingSource,
+} from '../src/listing-sources';
+
+// Requests received by the mock webhook server, keyed by path
+const received: Record<string, any[]> = {};
+let server: Server;
+let baseUrl: string;
+
+async function readJson(req: IncomingMessage): Promise<any> {
+  let body = '';
+  for await (const chunk of req) body += chunk;
+  return body ? JSON.parse(body) : null;
+}
+
+beforeAll(async () => {
+  vi.spyOn(logger, 'info');
+  vi.spyOn(logger, 'warn');
+  vi.spyOn(logger, 'error');
+
+  server = createServer(async (req, res) => {
+    const body = await readJson(req);
+    (received[req.url] ||= []).push(body);
+
+    res.setHeader('Content-Type', 'application/json');
+    switch (req.url) {
+      case '/search':
+        res.end(
+          JSON.stringify({
+            data: {
+              listings: Array.from({ length: 7 }, (_, i) => ({
+                title: `Listing ${i + 1}`,
+                price: `AED ${(i + 1) * 100000}`,
+                link: i === 0 ? undefined : `https://example.com/${i + 1}`,
+              })),
+            },
+          })
+        );
+        break;
+      case '/paged':
+        res.end(
+          JSON.stringify({
+            listings: Array.from({ length: body.limit }, (_, i) => ({
+              title: `Paged ${body.offset + i + 1}`,
+              price: 500000,
+              link: `https://example.com/paged/${body.offset + i + 1}`,
+            })),
+            total: 23,
+            nextCursor: 'def',
+          })
+        );
+        break;
+      case '/detailed':
+        res.end(
+          JSON.stringify([
+            {
+              title: 'Rented out',
+              price: 90000,
+              link: 'https://example.com/rent',
+              purpose: 'rent',
+            },
+            { title: 'Small', price: 700000, link: 'https://example.com/small', size: '650 sqft' },
+            {
+              title: 'Unfurnished',
+              price: 800000,
+              link: 'https://example.com/u',
+              furnished: false,
+            },
+            {
+              title: 'Match',
+              price: 850000,
+              link: 'https://example.com/match',
+              beds: 1,
+              size: '820 sqft',
+              furnishing: 'Furnished',
+              completion_status: 'Ready',
+            },
+          ])
+        );
+        break;
+      case '/details':
+        res.end(JSON.stringify({ title: 'Marina flat', price: 1500000, link: body.link }));
+        break;
+      default:
+        res.statusCode = 503;
+        res.end(JSON.stringify({ error: 'unavailable' }));
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+  setListingSource(null);
+  vi.restoreAllMocks();
+});
+
+describe('Listing sources', () => {
+  describe('N8nListingSource', () => {
+    it('should post normalised criteria and keep the first five valid listings', async () => {
+      const source = new N8nListingSource({ searchUrl: `${baseUrl}/search` });
+      const { listings: ads, total } = await source.search({
+        area: 'Dubai Marina',
+        bedrooms: 'studio',
+        maxPrice: 900000,
+      });
+
+      expect(received['/search'].at(-1)).toEqual({
+        area: 'Dubai Marina',
+        bedrooms: 0,
+        maxPrice: 900000,
+        offset: 0,
+        limit: 5,
+      });
+      expect(ads).toHaveLength(5);
+      expect(total).toBe(6);
+
+      await source.search({ area: 'Samara' });
+      expect(received['/search'].at(-1)).toMatchObject({
+        area: 'Samara',
+        masterCommunity: 'Arabian Ranches 2',
+      });
+      expect(ads[0]).toEqual({
+        title: 'Listing 2',
+        price: 'AED 200000',
+        priceAed: 200000,
+        link: 'https://example.com/2',
+      });
+    });
+
+    it('should send every criterion and drop results the backend did not filter', async () => {
+      const source = new N8nListingSource({ searchUrl: `${baseUrl}/detailed` });
+      const criteria = {
+        area: 'JVC',
+        propertyType: 'apartment',
+        bedrooms: '1',
+        minPrice: 500000,
+        maxPrice: 900000,
+        minSizeSqft: 700,
+        maxSizeSqft: 1200,
+        furnished: true,
+        purpose: 'sale' as const,
+        completionStatus: 'ready' as const,
+        yieldFloor: 6,
+      };
+      const { listings, total } = await source.search(criteria);
+
+      expect(received['/detailed'].at(-1)).toEqual({
+        ...criteria,
+        bedrooms: 1,
+        offset: 0,
+        limit: 5,
+      });
+      expect(listings).toHaveLength(1);
+      expect(listings[0]).toMatchObject({
+        title: 'Match',
+        bedrooms: 1,
+        sizeSqft: 820,
+        furnishing: 'YES',
+        completionStatus: 'ready',
+      });
+      expect(total).toBeNull();
+    });
+
+    it('should not call the webhook without any criteria', async () => {
+      const before = received['/search']?.length ?? 0;
+      const source = new N8nListingSource({ searchUrl: `${baseUrl}/search` });
+
+      expect((await source.search({})).listings).toEqual([]);
+      expect(received['/search']?.length ?? 0).toBe(before);
+    });
+
+    it('should page locally through backends that return every match', async () => {
+      const source = new N8nListingSource({ searchUrl: `${baseUrl}/search` });
+      const page = await source.search({ area: 'JVC' }, { offset: 5, limit: 5 });
+
+      expect(page.listings.map((listing) => listing.title)).toEqual(['Listing 7']);
+      expect(page).toMatchObject({ offset: 5, total: 6, nextCursor: null });
+    });
+
+    it('should pass offset and cursor through to backends that page', async () => {
+      const source = new N8nListingSource({ searchUrl: `${baseUrl}/paged` });
+      const page = await source.search({ area: 'JVC' }, { offset: 5, limit: 5, cursor: 'abc' });
+
+      expect(received['/paged'].at(-1)).toEqual({
+        area: 'JVC',
+        offset: 5,
+        limit: 5,
+        cursor: 'abc',
+      });
+      expect(page).toMatchObject({ offset: 5, total: 23, nextCursor: 'def' });
+      expect(page.listings[0].link).toBe('https://example.com/paged/6');
+    });
+
+    it('should judge the end of the results before local filtering', async () => {
+      const source = new N8nListingSource({ searchUrl: `${baseUrl}/paged` });
+      const page = await source.search({ area: 'JVC', maxPrice: 400000 }, { offset: 5, limit: 5 });
+
+      // Every listing on the page is over budget, but the backend has more
+      expect(page.listings).toEqual([]);
+      expect(page).toMatchObject({ total: 18, hasMore: true });
+    });
+
+    it('should throw when the search webhook fails', async () => {
+      const source = new N8nListingSource({ searchUrl: `${baseUrl}/down` });
+      await expect(source.search({ area: 'JVC' })).rejects.toThrow(/status 503/);
+    });
+
+    it('should fetch and normalise listing details for a link', async () => {
+      const source = new N8nListingSource({ detailsUrl: `${baseUrl}/details` });
+      const link =
+        'https://www.propertyfinder.ae/en/plp/buy/apartment-for-sale-dubai-marina-1.html';
+      const details = await source.fetchDetails(link);
+
+      expect(received['/details'].at(-1)).toEqual({ link, portal: 'propertyfinder' });
+      expect(details).toMatchObject({
+        title: 'Marina flat',
+        price: 1500000,
+        purpose: 'sale',
+        portal: 'propertyfinder',
+        link,
+      });
+    });
+
+    it('should send portal links to their own webhook when configured', async () => {
+      const source = new N8nListingSource({
+        detailsUrl: `${baseUrl}/down`,
+        portalDetailsUrls: { bayut: `${baseUrl}/details` },
+        maxAttempts: 1,
+      });
+      const details = await source.fetchDetails('https://www.bayut.com/property/details-1.html');
+
+      expect(received['/details'].at(-1).portal).toBe('bayut');
+      expect(details?.portal).toBe('bayut');
+    });
+
+    it('should return null once every attempt has failed', async () => {
+      const source = new N8nListingSource({ detailsUrl: `${baseUrl}/down`, maxAttempts: 1 });
+      expect(await source.fetchDetails('https://example.com/1')).toBeNull();
+    });
+
+    it('should report reachability from the details webhook status', async () => {
+      expect(await new N8nListingSource({ detailsUrl: `${baseUrl}/details` }).healthCheck()).toBe(
+        true
+      );
+      expect(await new N8nListingSource({ detailsUrl: `${baseUrl}/down` }).healthCheck()).toBe(
+        false
+      );
+    });
+  });
+
+  describe('createListingSource', () => {
+    it('should default to the hosted n8n webhooks', () => {
+      const source = createListingSource({});
+      expect(source).toBeInstanceOf(N8nListingSource);
+      expect((source as N8nListingSource).detailsUrl).toBe(DEFAULT_N8N_DETAILS_URL);
+    });
+
+    it('should use webhook URLs from the config', () => {
+      const source = createListingSource({
+        LISTING_SOURCE: 'n8n',
+        N8N_SEARCH_WEBHOOK_URL: `${baseUrl}/search`,
+        N8N_PROPERTY_WEBHOOK_URL: `${baseUrl}/details`,
+      }) as N8nListingSource;
+
+      expect(source.searchUrl).toBe(`${baseUrl}/search`);
+      expect(source.detailsUrl).toBe(`${baseUrl}/details`);
+    });
+
+    it('should reject an unknown source', () => {
+      expect(() => createListingSource({ LISTING_SOURCE: 'zillow' })).toThrow(
+        /Unknown listing source/
+      );
+    });
+  });
+
+  it('should hand out the source set at init', async () => {
+    const search = vi.fn(async () => ({
+      listings: [
+        {
+          title: 'Mock listing',
+          price: 'AED 1,000,000',
+          priceAed: 1000000,
+          link: 'https://example.com/mock',
+        },
+      ],
+      offset: 0,
+      total: 1,
+      nextCursor: null,
+    }));
+    setListingSource({
+      name: 'mock',
+      search,
+      fetchDetails: async () => null,
+      healthCheck: async () => true,
+    });
+
+    expect(getListingSource().name).toBe('mock');
+    expect((await getListingSource().search({ area: 'JVC' })).listings).toHaveLength(1);
+    expect(search).toHaveBeenCalledWith({ area: 'JVC' });
+  });
+});
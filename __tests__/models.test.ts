@@ -110,24 +110,8 @@ describe('Plugin Models', () => {
     }
   });
 
-  describe('TEXT_SMALL Model', () => {
-    it('should have a TEXT_SMALL model defined', () => {
-      if (plugin.models) {
-        expect(plugin.models).toHaveProperty(ModelType.TEXT_SMALL);
-        expect(typeof plugin.models[ModelType.TEXT_SMALL]).toBe('function');
-      }
-    });
-
-    it('should run core tests for TEXT_SMALL model', async () => {
-      if (plugin.models && plugin.models[ModelType.TEXT_SMALL]) {
-        const results = await runCoreModelTests(
-          ModelType.TEXT_SMALL,
-          plugin.models[ModelType.TEXT_SMALL]
-        );
-
-        documentTestResult('TEXT_SMALL core model tests', results);
-      }
-    });
+  it('should leave TEXT_SMALL to the model provider plugins', () => {
+    expect(plugin.models).not.toHaveProperty(ModelType.TEXT_SMALL);
   });
 
   describe('TEXT_LARGE Model', () => {
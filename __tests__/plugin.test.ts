@@ -1,7 +1,7 @@
 import { describe, expect, it, vi, beforeEach, afterEach, beforeAll, afterAll } from 'vitest';
 import plugin from '../src/plugin';
 import { ModelType, logger } from '@elizaos/core';
-import { StarterService } from '../src/plugin';
+import { ListingAlertService } from '../src/listing-alerts';
 import dotenv from 'dotenv';
 
 // Setup environment variables
@@ -47,8 +47,8 @@ function createRealRuntime() {
 
   // Create a real service instance if needed
   const createService = (serviceType: string) => {
-    if (serviceType === StarterService.serviceType) {
-      return new StarterService({
+    if (serviceType === ListingAlertService.serviceType) {
+      return new ListingAlertService({
         character: {
           name: 'Test Character',
           system: 'You are a helpful assistant for testing.',
@@ -182,16 +182,8 @@ describe('Plugin Configuration', () => {
 });
 
 describe('Plugin Models', () => {
-  it('should have TEXT_SMALL model defined', () => {
-    if (plugin.models) {
-      expect(plugin.models).toHaveProperty(ModelType.TEXT_SMALL);
-      expect(typeof plugin.models[ModelType.TEXT_SMALL]).toBe('function');
-
-      documentTestResult('TEXT_SMALL model check', {
-        defined: ModelType.TEXT_SMALL in plugin.models,
-        isFunction: typeof plugin.models[ModelType.TEXT_SMALL] === 'function',
-      });
-    }
+  it('should leave TEXT_SMALL to the model provider plugins', () => {
+    expect(plugin.models).not.toHaveProperty(ModelType.TEXT_SMALL);
   });
 
   it('should have TEXT_LARGE model defined', () => {
@@ -205,44 +197,20 @@ describe('Plugin Models', () => {
       });
     }
   });
-
-  it('should return a response from TEXT_SMALL model', async () => {
-    if (plugin.models && plugin.models[ModelType.TEXT_SMALL]) {
-      const runtime = createRealRuntime();
-
-      let result = '';
-      let error: Error | null = null;
-
-      try {
-        logger.info('Using OpenAI for TEXT_SMALL model');
-        result = await plugin.models[ModelType.TEXT_SMALL](runtime as any, { prompt: 'test' });
-
-        // Check that we get a non-empty string response
-        expect(result).toBeTruthy();
-        expect(typeof result).toBe('string');
-        expect(result.length).toBeGreaterThan(10);
-      } catch (e) {
-        error = e as Error;
-        logger.error('TEXT_SMALL model test failed:', e);
-      }
-
-      documentTestResult('TEXT_SMALL model plugin test', result, error);
-    }
-  });
 });
 
-describe('StarterService', () => {
+describe('ListingAlertService', () => {
   it('should start the service', async () => {
     const runtime = createRealRuntime();
     let startResult;
     let error = null;
 
     try {
-      logger.info('Starting StarterService');
-      startResult = await StarterService.start(runtime as any);
+      logger.info('Starting ListingAlertService');
+      startResult = await ListingAlertService.start(runtime as any);
 
       expect(startResult).toBeDefined();
-      expect(startResult.constructor.name).toBe('StarterService');
+      expect(startResult.constructor.name).toBe('ListingAlertService');
 
       // Test real functionality
       const servicePropertyNames = Object.getOwnPropertyNames(startResult);
@@ -254,7 +222,7 @@ describe('StarterService', () => {
     }
 
     documentTestResult(
-      'StarterService start',
+      'ListingAlertService start',
       {
         success: !!startResult,
         serviceType: startResult?.constructor.name,
@@ -267,14 +235,14 @@ describe('StarterService', () => {
     const runtime = createRealRuntime();
 
     // First registration should succeed
-    const result1 = await StarterService.start(runtime as any);
+    const result1 = await ListingAlertService.start(runtime as any);
     expect(result1).toBeTruthy();
 
     let startupError: Error | unknown = null;
 
     try {
       // Second registration should fail
-      await StarterService.start(runtime as any);
+      await ListingAlertService.start(runtime as any);
       expect(true).toBe(false); // Should not reach here
     } catch (e) {
       startupError = e;
@@ -282,7 +250,7 @@ describe('StarterService', () => {
     }
 
     documentTestResult(
-      'StarterService double start',
+      'ListingAlertService double start',
       {
         errorThrown: !!startupError,
         errorMessage: startupError instanceof Error ? startupError.message : String(startupError),
@@ -297,14 +265,14 @@ describe('StarterService', () => {
 
     try {
       // Register a real service first
-      const service = new StarterService(runtime as any);
-      runtime.registerService(StarterService.serviceType, service);
+      const service = new ListingAlertService(runtime as any);
+      runtime.registerService(ListingAlertService.serviceType, service);
 
       // Spy on the real service's stop method
       const stopSpy = vi.spyOn(service, 'stop');
 
       // Call the static stop method
-      await StarterService.stop(runtime as any);
+      await ListingAlertService.stop(runtime as any);
 
       // Verify the service's stop method was called
       expect(stopSpy).toHaveBeenCalled();
@@ -314,7 +282,7 @@ describe('StarterService', () => {
     }
 
     documentTestResult(
-      'StarterService stop',
+      'ListingAlertService stop',
       {
         success: !error,
       },
@@ -333,7 +301,7 @@ describe('StarterService', () => {
       const originalGetService = runtime.getService;
       runtime.getService = () => null;
 
-      await StarterService.stop(runtime as any);
+      await ListingAlertService.stop(runtime as any);
       // Should not reach here
       expect(true).toBe(false);
     } catch (e) {
@@ -341,7 +309,7 @@ describe('StarterService', () => {
       // This is expected - verify it's the right error
       expect(error).toBeTruthy();
       if (error instanceof Error) {
-        expect(error.message).toContain('Starter service not found');
+        expect(error.message).toContain('Listing alert service not found');
       }
     } finally {
       // Restore original getService function if needed
@@ -351,7 +319,7 @@ describe('StarterService', () => {
     }
 
     documentTestResult(
-      'StarterService non-existent stop',
+      'ListingAlertService non-existent stop',
       {
         errorThrown: !!error,
         errorMessage: error instanceof Error ? error.message : String(error),
@@ -364,7 +332,7 @@ describe('StarterService', () => {
     const runtime = createRealRuntime();
 
     // First start the service
-    const startResult = await StarterService.start(runtime as any);
+    const startResult = await ListingAlertService.start(runtime as any);
     expect(startResult).toBeTruthy();
 
     let stopError: Error | unknown = null;
@@ -372,7 +340,7 @@ describe('StarterService', () => {
 
     try {
       // Then stop it
-      await StarterService.stop(runtime as any);
+      await ListingAlertService.stop(runtime as any);
       stopSuccess = true;
     } catch (e) {
       stopError = e;
@@ -380,7 +348,7 @@ describe('StarterService', () => {
     }
 
     documentTestResult(
-      'StarterService stop',
+      'ListingAlertService stop',
       {
         success: stopSuccess,
         errorThrown: !!stopError,
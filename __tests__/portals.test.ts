@@ -0,0 +1,185 @@
+import { describe, expect, it } from 'vitest';
+import {
+  canonicalListingId,
+  findPropertyLink,
+  normalisePropertyDetails,
+  purposeFromLink,
+  purposeFromText,
+} from '../src/portals';
+
+const PF_RENT =
+  'https://www.propertyfinder.ae/en/plp/rent/apartment-for-rent-dubai-business-bay-upside-living-14214294.html';
+const BAYUT_DETAILS = 'https://www.bayut.com/property/details-8123456.html';
+const DUBIZZLE_SALE =
+  'https://dubai.dubizzle.com/property-for-sale/residential/apartmentflat/2024/5/1/jvc-1-bed-2-123/';
+
+describe('Property portals', () => {
+  describe('findPropertyLink', () => {
+    it.each([
+      [`check this ${PF_RENT} please`, 'propertyfinder', PF_RENT],
+      [`what about ${BAYUT_DETAILS}?`, 'bayut', BAYUT_DETAILS],
+      [DUBIZZLE_SALE, 'dubizzle', DUBIZZLE_SALE],
+    ])('should detect the portal in "%s"', (text, portal, link) => {
+      expect(findPropertyLink(text)).toEqual({ portal, link });
+    });
+
+    it('should pick the first link when several are pasted', () => {
+      expect(findPropertyLink(`${DUBIZZLE_SALE} or ${PF_RENT}`)?.portal).toBe('dubizzle');
+    });
+
+    it('should ignore unsupported sites', () => {
+      expect(findPropertyLink('https://www.example.com/listing/1')).toBeNull();
+    });
+  });
+
+  describe('purposeFromLink', () => {
+    it.each([
+      [PF_RENT, 'rent'],
+      ['https://www.propertyfinder.ae/en/plp/buy/villa-for-sale-dubai-1.html', 'sale'],
+      ['https://www.bayut.com/to-rent/apartments/dubai/', 'rent'],
+      [DUBIZZLE_SALE, 'sale'],
+      [BAYUT_DETAILS, null],
+    ])('should read %s as %s', (link, purpose) => {
+      expect(purposeFromLink(link)).toBe(purpose);
+    });
+  });
+
+  describe('purposeFromText', () => {
+    it.each([
+      ["I'm looking to buy a 2 bed in JVC", 'sale'],
+      ['is this a good investment?', 'sale'],
+      ['apartments for rent in Business Bay', 'rent'],
+      ['we want to rent a villa', 'rent'],
+      ['can I rent it out for more than 90k?', null],
+      ['what is the rental yield in JVC', null],
+      ['2 bed in JVC under 1M', null],
+    ])('should read "%s" as %s', (text, purpose) => {
+      expect(purposeFromText(text)).toBe(purpose);
+    });
+  });
+
+  describe('canonicalListingId', () => {
+    it.each([
+      [PF_RENT, 'propertyfinder:14214294'],
+      [`${PF_RENT}?utm_source=share#gallery`, 'propertyfinder:14214294'],
+      ['https://bayut.com/property/details-8123456.html', 'bayut:8123456'],
+      [DUBIZZLE_SALE, 'dubizzle:jvc-1-bed-2-123'],
+      ['https://www.bayut.com/to-rent/apartments/Dubai/', 'bayut.com/to-rent/apartments/dubai'],
+    ])('should key %s as %s', (link, id) => {
+      expect(canonicalListingId(link)).toBe(id);
+    });
+  });
+
+  describe('normalisePropertyDetails', () => {
+    it('should pass Property Finder payloads through', () => {
+      const details = normalisePropertyDetails(
+        {
+          title: 'Upside Living',
+          price: 95000,
+          bedrooms: '1',
+          bathrooms: '2',
+          size: 780,
+          furnishing: 'YES',
+          location: 'Upside Living, Business Bay, Dubai',
+          amenities: ['Gym'],
+          image: 'https://img/1.jpg',
+        },
+        'propertyfinder',
+        PF_RENT
+      );
+
+      expect(details).toMatchObject({
+        title: 'Upside Living',
+        price: 95000,
+        size: 780,
+        furnishing: 'YES',
+        amenities: ['Gym'],
+        propertyType: 'apartment',
+        purpose: 'rent',
+        portal: 'propertyfinder',
+      });
+    });
+
+    it('should map bayut fields and convert its area from square metres', () => {
+      const details = normalisePropertyDetails(
+        {
+          title: 'Vacant 2BR | Marina View',
+          price: 2100000,
+          rooms: 2,
+          baths: 3,
+          area: 120.5,
+          furnishingStatus: 'unfurnished',
+          purpose: 'for-sale',
+          location: [
+            { name: 'UAE' },
+            { name: 'Dubai' },
+            { name: 'Dubai Marina' },
+            { name: 'Marina Gate' },
+          ],
+          amenities: [{ text: 'Facilities', amenities: [{ text: 'Gym' }, { text: 'Pool' }] }],
+          coverPhoto: { url: 'https://img/bayut.jpg' },
+        },
+        'bayut',
+        BAYUT_DETAILS
+      );
+
+      expect(details).toMatchObject({
+        bedrooms: 2,
+        bathrooms: 3,
+        size: 1297,
+        furnishing: 'NO',
+        location: 'Marina Gate, Dubai Marina, Dubai, UAE',
+        amenities: ['Gym', 'Pool'],
+        image: 'https://img/bayut.jpg',
+        purpose: 'sale',
+      });
+    });
+
+    it('should take the purpose from a bayut payload when the link does not say', () => {
+      const details = normalisePropertyDetails(
+        { title: 'Studio', price: 60000, rentFrequency: 'yearly' },
+        'bayut',
+        BAYUT_DETAILS
+      );
+      expect(details.purpose).toBe('rent');
+    });
+
+    it('should leave the purpose unset when neither the link nor the payload says', () => {
+      const details = normalisePropertyDetails(
+        { title: 'Studio', price: 60000 },
+        'bayut',
+        BAYUT_DETAILS
+      );
+      expect(details.purpose).toBeNull();
+    });
+
+    it('should map dubizzle fields', () => {
+      const details = normalisePropertyDetails(
+        {
+          name: '1 Bed | JVC | Tenanted',
+          price: 850000,
+          bedrooms: 1,
+          bathrooms: 2,
+          size: 760,
+          furnished: true,
+          location_text: 'Bloom Towers, Jumeirah Village Circle',
+          amenities_v2: ['Balcony', 'Covered Parking'],
+          photos: [{ url: 'https://img/dubizzle.jpg' }],
+        },
+        'dubizzle',
+        DUBIZZLE_SALE
+      );
+
+      expect(details).toMatchObject({
+        title: '1 Bed | JVC | Tenanted',
+        furnishing: 'YES',
+        location: 'Bloom Towers, Jumeirah Village Circle',
+        amenities: ['Balcony', 'Covered Parking'],
+        image: 'https://img/dubizzle.jpg',
+        propertyType: 'apartment',
+        purpose: 'sale',
+        portal: 'dubizzle',
+      });
+    });
+  });
+});
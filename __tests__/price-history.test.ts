@@ -0,0 +1,133 @@
+import { describe, expect, it, vi, beforeAll, afterAll } from 'vitest';
+import { logger } from '@elizaos/core';
+import type { HandlerCallback } from '@elizaos/core';
+import { priceChanges, summarisePriceChange } from '../src/price-history';
+import { createMockMessage, createMockRuntime, createMockState } from './utils/core-test-utils';
+
+const LINK =
+  'https://www.propertyfinder.ae/en/plp/buy/apartment-for-sale-dubai-dubai-marina-marina-gate-123456.html';
+
+const webhookResponse = { current: {} as any };
+
+vi.mock('node-fetch', () => ({
+  default: vi.fn(async () => ({
+    ok: true,
+    status: 200,
+    json: async () => webhookResponse.current,
+  })),
+}));
+
+// Just enough of the SQL plugin to back the listing cache and price history
+function createFakeSql() {
+  const history: any[] = [];
+  return {
+    history,
+    query: vi.fn(async (sql: string, params: any[] = []) => {
+      if (sql.includes('INSERT INTO listing_price_history')) {
+        const [listing_id, price, observed_at] = params;
+        history.push({ listing_id, price, observed_at });
+      } else if (sql.includes('FROM listing_price_history')) {
+        return history
+          .filter((row) => row.listing_id === params[0])
+          .sort((a, b) => a.observed_at - b.observed_at);
+      }
+      return [];
+    }),
+  };
+}
+
+const snapshot = (price: number, date: string) => ({ price, observedAt: new Date(date) });
+
+async function runAction(name: string, runtime: any, text: string) {
+  const { default: plugin } = await import('../src/plugin');
+  const action = plugin.actions?.find((a) => a.name === name);
+  const message = createMockMessage(text);
+  if (!(await action.validate(runtime, message))) return null;
+
+  let response: any = null;
+  const callback = (async (content) => {
+    response = content;
+    return [];
+  }) as HandlerCallback;
+
+  await action.handler(runtime, message, createMockState(), {}, callback);
+  return response;
+}
+
+beforeAll(() => {
+  vi.spyOn(logger, 'info');
+  vi.spyOn(logger, 'warn');
+  vi.spyOn(logger, 'error');
+});
+
+afterAll(() => {
+  vi.restoreAllMocks();
+});
+
+describe('Price history', () => {
+  describe('summarisePriceChange', () => {
+    it('should report the change since the first observation', () => {
+      const change = summarisePriceChange([
+        snapshot(2500000, '2026-08-01'),
+        snapshot(2500000, '2026-08-20'),
+        snapshot(2375000, '2026-09-14'),
+        snapshot(2375000, '2026-10-01'),
+      ]);
+
+      expect(change).toMatchObject({
+        direction: 'reduced',
+        firstPrice: 2500000,
+        currentPrice: 2375000,
+        changedAt: new Date('2026-09-14'),
+      });
+      expect(change.changePct).toBeCloseTo(-5, 10);
+    });
+
+    it('should treat a single observation as unchanged', () => {
+      expect(summarisePriceChange([snapshot(900000, '2026-08-01')])).toMatchObject({
+        direction: 'unchanged',
+        changePct: 0,
+        changedAt: null,
+      });
+      expect(summarisePriceChange([])).toBeNull();
+    });
+
+    it('should keep only the first sighting of each price level', () => {
+      const levels = priceChanges([
+        snapshot(100, '2026-01-01'),
+        snapshot(100, '2026-02-01'),
+        snapshot(90, '2026-03-01'),
+        snapshot(100, '2026-04-01'),
+      ]);
+      expect(levels.map((s) => s.price)).toEqual([100, 90, 100]);
+    });
+  });
+
+  describe('actions', () => {
+    const runtime = Object.assign(createMockRuntime(), { sql: createFakeSql() }) as any;
+
+    it('should route price questions about a link to PRICE_HISTORY', async () => {
+      webhookResponse.current = { title: 'Marina View', price: 2500000, location: 'Dubai Marina' };
+      const question = `has this dropped in price? ${LINK}`;
+
+      expect(await runAction('ANALYSE_PROPERTY_LINK', runtime, question)).toBeNull();
+      const response = await runAction('PRICE_HISTORY', runtime, question);
+      expect(response.text).toContain("first time I've seen it");
+      expect(runtime.sql.history).toHaveLength(1);
+    });
+
+    it('should show the reduction and a dated history once the price moves', async () => {
+      runtime.sql.history[0].observed_at = new Date('2026-08-01T09:00:00Z').getTime();
+      webhookResponse.current = { title: 'Marina View', price: 2375000, location: 'Dubai Marina' };
+
+      const response = await runAction('PRICE_HISTORY', runtime, `price history ${LINK}`);
+      expect(response.text).toContain('reduced 5.0% since 2026-08-01 (was AED 2,500,000)');
+      expect(response.text).toContain('AED 2,375,000 | -5.0%');
+    });
+
+    it('should add the price change line to the link analysis', async () => {
+      const response = await runAction('ANALYSE_PROPERTY_LINK', runtime, LINK);
+      expect(response.text).toContain('Price reduced 5.0% since 2026-08-01 (was AED 2,500,000)');
+    });
+  });
+});
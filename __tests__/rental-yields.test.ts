@@ -0,0 +1,179 @@
+import { describe, expect, it, vi, beforeAll, afterAll } from 'vitest';
+import { logger } from '@elizaos/core';
+import {
+  RentalYieldStore,
+  computeContractStats,
+  parseBedrooms,
+  parseCsv,
+  parseRentalYieldsCsv,
+  percentile,
+} from '../src/rental-yields';
+
+const SAMPLE_CSV = [
+  'area,property_type,bedrooms,size_sqft,annual_rent,transaction_price,contract_date',
+  'International City,Apartment,Studio,350,32000,330000,2022-06-15',
+  'International City,Apartment,1 B/R,650,45000,480000,2022-08-10',
+  'International City,Apartment,2 B/R,980,65000,700000,2022-03-05',
+  'Jumeirah Village Circle,Apartment,Studio,400,42000,560000,2023-02-01',
+  'Jumeirah Village Circle,Apartment,Studio,420,45000,600000,2023-07-12',
+  'Jumeirah Village Circle,Apartment,Studio,380,40000,,2023-09-30',
+  '"Dubai Marina",Apartment,2,1200,"130,000","2,400,000",2023-05-20',
+  'Arabian Ranches 2,Villa,4,3500,240000,4200000,15-01-2023',
+  ',Apartment,1,700,50000,700000,2023-01-01',
+].join('\n');
+
+beforeAll(() => {
+  vi.spyOn(logger, 'info');
+  vi.spyOn(logger, 'warn');
+});
+
+afterAll(() => {
+  vi.restoreAllMocks();
+});
+
+describe('Rental yields dataset', () => {
+  describe('parseCsv', () => {
+    it('should keep quoted commas and escaped quotes inside a field', () => {
+      const rows = parseCsv('a,b\r\n"1,000","say ""hi"""\n');
+      expect(rows).toEqual([
+        ['a', 'b'],
+        ['1,000', 'say "hi"'],
+      ]);
+    });
+  });
+
+  describe('parseRentalYieldsCsv', () => {
+    const contracts = parseRentalYieldsCsv(SAMPLE_CSV);
+
+    it('should skip rows without an area', () => {
+      expect(contracts).toHaveLength(8);
+    });
+
+    it('should parse typed fields from each row', () => {
+      const studio = contracts[0];
+      expect(studio.area).toBe('International City');
+      expect(studio.propertyType).toBe('apartment');
+      expect(studio.bedrooms).toBe(0);
+      expect(studio.sizeSqft).toBe(350);
+      expect(studio.annualRent).toBe(32000);
+      expect(studio.transactionPrice).toBe(330000);
+      expect(studio.contractDate?.toISOString().slice(0, 10)).toBe('2022-06-15');
+      expect(studio.grossYield).toBeCloseTo(9.7, 1);
+    });
+
+    it('should handle thousands separators and day-first dates', () => {
+      const marina = contracts.find((c) => c.area === 'Dubai Marina');
+      expect(marina?.annualRent).toBe(130000);
+      expect(marina?.transactionPrice).toBe(2400000);
+
+      const ranches = contracts.find((c) => c.area === 'Arabian Ranches 2');
+      expect(ranches?.contractDate?.toISOString().slice(0, 10)).toBe('2023-01-15');
+    });
+
+    it('should leave yield empty when the transaction price is missing', () => {
+      const noPrice = contracts.find((c) => c.annualRent === 40000);
+      expect(noPrice?.transactionPrice).toBeNull();
+      expect(noPrice?.grossYield).toBeNull();
+    });
+
+    it('should convert square metre sizes to square feet', () => {
+      const [contract] = parseRentalYieldsCsv('area,rooms,size_sqm,rent\nJLT,1,100,60000');
+      expect(contract.sizeSqft).toBe(1076);
+    });
+
+    it('should reject a file without area or rent columns', () => {
+      expect(() => parseRentalYieldsCsv('foo,bar\n1,2')).toThrow(/missing required columns/);
+    });
+  });
+
+  describe('parseBedrooms', () => {
+    it.each([
+      ['Studio', 0],
+      ['1 B/R', 1],
+      ['4+', 4],
+      [3, 3],
+      ['', null],
+      [undefined, null],
+    ])('should parse %s as %s', (input, expected) => {
+      expect(parseBedrooms(input as any)).toBe(expected);
+    });
+  });
+
+  describe('statistics', () => {
+    it('should interpolate percentiles', () => {
+      expect(percentile([1, 2, 3, 4], 50)).toBe(2.5);
+      expect(percentile([10], 75)).toBe(10);
+    });
+
+    it('should summarise yields, rents and per-sqft metrics', () => {
+      const stats = computeContractStats(parseRentalYieldsCsv(SAMPLE_CSV).slice(0, 3));
+      expect(stats.count).toBe(3);
+      expect(stats.annualRent?.median).toBe(45000);
+      expect(stats.grossYield?.count).toBe(3);
+      expect(stats.rentPerSqft?.min).toBeCloseTo(65000 / 980, 5);
+      expect(stats.pricePerSqft?.max).toBeCloseTo(330000 / 350, 5);
+    });
+  });
+
+  describe('RentalYieldStore', () => {
+    const store = new RentalYieldStore(parseRentalYieldsCsv(SAMPLE_CSV));
+
+    it('should query by area, type and bedrooms case-insensitively', () => {
+      const results = store.query({
+        area: 'jumeirah village circle',
+        propertyType: 'Apartment',
+        bedrooms: 0,
+      });
+      expect(results).toHaveLength(3);
+    });
+
+    it('should filter by contract date range', () => {
+      const results = store.query({
+        area: 'Jumeirah Village Circle',
+        from: new Date('2023-06-01'),
+        to: new Date('2023-12-31'),
+      });
+      expect(results).toHaveLength(2);
+    });
+
+    it('should compute city-wide stats when no filters are given', () => {
+      expect(store.stats().count).toBe(8);
+      expect(store.stats({ bedrooms: 0 }).grossYield?.count).toBe(3);
+    });
+
+    it('should resolve the longest area mentioned in text', () => {
+      expect(store.resolveArea('Samara, Arabian Ranches 2, Dubai')).toBe('Arabian Ranches 2');
+      expect(store.resolveArea('studios in jumeirah village circle?')).toBe(
+        'Jumeirah Village Circle'
+      );
+      expect(store.resolveArea('somewhere else')).toBeNull();
+    });
+
+    it('should resolve common abbreviations to dataset areas', () => {
+      expect(store.resolveArea('average yield for studios in JVC')).toBe('Jumeirah Village Circle');
+      expect(store.query({ area: 'JVC' })).toHaveLength(3);
+    });
+
+    it('should roll sub-communities up to the areas they sit in', () => {
+      expect(store.resolveArea('4 bed villa in Samara')).toBe('Arabian Ranches 2');
+      expect(store.resolveArea('Bloom Towers, JVC')).toBe('Jumeirah Village Circle');
+
+      const detailed = new RentalYieldStore([
+        ...parseRentalYieldsCsv(SAMPLE_CSV),
+        ...parseRentalYieldsCsv(
+          ['area,bedrooms,annual_rent', 'Marina Gate,2,150000', 'Cayan Tower,1,95000'].join('\n')
+        ),
+      ]);
+      expect(detailed.query({ area: 'Dubai Marina' })).toHaveLength(3);
+      expect(detailed.query({ area: 'the marina', bedrooms: 1 })).toHaveLength(1);
+      expect(detailed.query({ area: 'Marina Gate' })).toHaveLength(1);
+    });
+
+    it('should compare a segment against the city-wide median', () => {
+      const { segment, cityWide, spreadPp } = store.compareToCity({ area: 'JVC', bedrooms: 0 });
+      expect(segment.grossYield?.count).toBe(2);
+      expect(cityWide.grossYield?.count).toBe(3);
+      expect(spreadPp).toBeCloseTo(segment.grossYield.median - cityWide.grossYield.median, 10);
+    });
+  });
+});
@@ -0,0 +1,188 @@
+import { describe, expect, it, vi, beforeAll, afterAll, afterEach } from 'vitest';
+import { logger } from '@elizaos/core';
+import type { HandlerCallback } from '@elizaos/core';
+import { setListingSource } from '../src/listing-sources';
+import {
+  clearSavedSearchFields,
+  defaultSearchName,
+  describeSearchCriteria,
+  getActiveSearch,
+  listSavedSearches,
+  parseSavedSearchCommand,
+  parseSearchName,
+  renameSavedSearch,
+  saveSearch,
+  setActiveSearch,
+} from '../src/saved-searches';
+import { createMockMessage, createMockRuntime, createMockState } from './utils/core-test-utils';
+import { createFakeSql } from './utils/fake-sql';
+
+function createRuntimeWithSql() {
+  return Object.assign(createMockRuntime(), { sql: createFakeSql() }) as any;
+}
+
+const marina = {
+  area: 'Dubai Marina',
+  propertyType: 'apartment',
+  bedrooms: '2',
+  maxPrice: 1500000,
+};
+const jvc = { area: 'JVC', bedrooms: 'studio', maxPrice: 600000, yieldFloor: 7 };
+
+beforeAll(() => {
+  vi.spyOn(logger, 'info');
+  vi.spyOn(logger, 'warn');
+  vi.spyOn(logger, 'error');
+});
+
+afterAll(() => {
+  vi.restoreAllMocks();
+});
+
+afterEach(() => {
+  setListingSource(null);
+});
+
+describe('Saved searches', () => {
+  describe('parseSavedSearchCommand', () => {
+    it('should recognise each management command', () => {
+      expect(parseSavedSearchCommand('list my saved searches')).toEqual({ type: 'list' });
+      expect(parseSavedSearchCommand('rename search marina-2bed to Marina 2BR')).toEqual({
+        type: 'rename',
+        name: 'marina-2bed',
+        newName: 'marina-2br',
+      });
+      expect(parseSavedSearchCommand('delete search jvc-studio-yield')).toEqual({
+        type: 'delete',
+        name: 'jvc-studio-yield',
+      });
+      expect(parseSavedSearchCommand('run marina-2bed')).toEqual({
+        type: 'run',
+        name: 'marina-2bed',
+      });
+      expect(parseSavedSearchCommand('use search jvc-studio-yield')).toEqual({
+        type: 'use',
+        name: 'jvc-studio-yield',
+      });
+    });
+
+    it('should read which fields to clear without mistaking the search name for one', () => {
+      expect(parseSavedSearchCommand('clear the max price from search jvc-studio-yield')).toEqual({
+        type: 'clear',
+        name: 'jvc-studio-yield',
+        fields: ['maxPrice'],
+      });
+      expect(parseSavedSearchCommand('remove the area and bedrooms')).toEqual({
+        type: 'clear',
+        name: undefined,
+        fields: ['area', 'bedrooms'],
+      });
+    });
+
+    it('should leave ordinary searches alone', () => {
+      expect(parseSavedSearchCommand('show me my saved search')).toBeNull();
+      expect(parseSavedSearchCommand('2 bed in JVC under 1M')).toBeNull();
+      expect(parseSavedSearchCommand('drop the budget to 2M')).toBeNull();
+    });
+  });
+
+  it('should name and describe searches', () => {
+    expect(defaultSearchName(marina)).toBe('dubai-marina-2bed-apartment');
+    expect(defaultSearchName({})).toBe('my-search');
+    expect(parseSearchName('save this search as JVC studio yield')).toBe('jvc-studio-yield');
+    expect(parseSearchName('save this search')).toBeUndefined();
+    expect(describeSearchCriteria(jvc)).toBe(
+      'studio properties in JVC under AED 600,000 yielding at least 7%'
+    );
+  });
+
+  it('should keep several named searches and track the active one', async () => {
+    const runtime = createRuntimeWithSql();
+    await saveSearch(runtime, 'user-1', 'marina-2bed', marina, new Date('2026-10-01'));
+    await saveSearch(runtime, 'user-1', 'jvc-studio-yield', jvc, new Date('2026-10-02'));
+
+    expect((await listSavedSearches(runtime, 'user-1')).map((s) => s.name)).toEqual([
+      'jvc-studio-yield',
+      'marina-2bed',
+    ]);
+    expect((await getActiveSearch(runtime, 'user-1'))?.name).toBe('jvc-studio-yield');
+
+    expect(await setActiveSearch(runtime, 'user-1', 'marina-2bed')).toBe(true);
+    expect(await getActiveSearch(runtime, 'user-1')).toMatchObject({
+      name: 'marina-2bed',
+      criteria: { area: 'Dubai Marina', bedrooms: '2', maxPrice: 1500000 },
+    });
+    expect(await setActiveSearch(runtime, 'user-1', 'nope')).toBe(false);
+  });
+
+  it('should replace every field when a search is saved again under the same name', async () => {
+    const runtime = createRuntimeWithSql();
+    await saveSearch(runtime, 'user-1', 'marina-2bed', marina);
+    await saveSearch(runtime, 'user-1', 'marina-2bed', { area: 'Dubai Marina', bedrooms: '2' });
+
+    const [search] = await listSavedSearches(runtime, 'user-1');
+    expect(search.criteria).toEqual({ area: 'Dubai Marina', bedrooms: '2' });
+  });
+
+  it('should clear individual fields and rename searches', async () => {
+    const runtime = createRuntimeWithSql();
+    await saveSearch(runtime, 'user-1', 'marina-2bed', marina);
+
+    const cleared = await clearSavedSearchFields(runtime, 'user-1', 'marina-2bed', [
+      'maxPrice',
+      'propertyType',
+    ]);
+    expect(cleared?.criteria).toEqual({ area: 'Dubai Marina', bedrooms: '2' });
+
+    expect(await renameSavedSearch(runtime, 'user-1', 'marina-2bed', 'marina-2br')).toBe(true);
+    expect((await listSavedSearches(runtime, 'user-1')).map((s) => s.name)).toEqual(['marina-2br']);
+  });
+
+  it('should list and run saved searches through SAVED_SEARCHES', async () => {
+    const { default: plugin } = await import('../src/plugin');
+    const action = plugin.actions?.find((a) => a.name === 'SAVED_SEARCHES');
+    const runtime = createRuntimeWithSql();
+    const search = vi.fn(async () => ({
+      listings: [
+        { title: 'JVC studio', price: 'AED 550,000', priceAed: 550000, link: 'https://x.ae/1' },
+      ],
+      offset: 0,
+      total: 1,
+      nextCursor: null,
+    }));
+    setListingSource({
+      name: 'fake',
+      search,
+      fetchDetails: vi.fn(async () => null),
+      healthCheck: vi.fn(async () => true),
+    });
+
+    let response: any = null;
+    const callback = (async (content) => {
+      response = content;
+      return [];
+    }) as HandlerCallback;
+    const run = async (text: string) => {
+      const message = createMockMessage(text);
+      // Every message comes from the same sender
+      (message as any).entityId = 'user-1';
+      expect(await action.validate(runtime, message)).toBe(true);
+      await action.handler(runtime, message, createMockState(), {}, callback);
+      return response.text;
+    };
+
+    await saveSearch(runtime, 'user-1', 'marina-2bed', marina, new Date('2026-10-01'));
+    await saveSearch(runtime, 'user-1', 'jvc-studio-yield', jvc, new Date('2026-10-02'));
+
+    const list = await run('list my saved searches');
+    expect(list).toContain('**1. jvc-studio-yield** (active)');
+    expect(list).toContain('**2. marina-2bed**');
+
+    const results = await run('run search marina-2bed');
+    expect(search).toHaveBeenCalledWith(marina, { limit: 5, offset: 0 });
+    expect(results).toContain('https://x.ae/1');
+    expect((await getActiveSearch(runtime, 'user-1'))?.name).toBe('marina-2bed');
+
+    expect(await run('delete search nope')).toContain(`couldn't find a saved search called "nope"`);
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, expect, it, vi, beforeAll, afterAll } from 'vitest';
+import { logger } from '@elizaos/core';
+import type { HandlerCallback, Memory } from '@elizaos/core';
+import { type ListingPageRequest, setListingSource } from '../src/listing-sources';
+import { createMockMessage, createMockRuntime, createMockState } from './utils/core-test-utils';
+import { createFakeSql } from './utils/fake-sql';
+
+const ENTITY = '6b9c5a1e-0000-4000-8000-0000000000c1';
+
+const allListings = Array.from({ length: 12 }, (_, i) => ({
+  title: `JVC 1BR #${i + 1}`,
+  price: 'AED 800,000',
+  priceAed: 800000,
+  link: `https://x.ae/${i + 1}`,
+}));
+
+beforeAll(() => {
+  vi.spyOn(logger, 'info');
+  vi.spyOn(logger, 'warn');
+  vi.spyOn(logger, 'error');
+});
+
+afterAll(() => {
+  setListingSource(null);
+  vi.restoreAllMocks();
+});
+
+describe('Search pagination', () => {
+  it('should page through results without repeating listings already shown', async () => {
+    const { default: plugin } = await import('../src/plugin');
+    const action = plugin.actions?.find((a) => a.name === 'SEARCH_LISTINGS');
+    const cache = new Map<string, unknown>();
+    const runtime = Object.assign(createMockRuntime(), {
+      sql: createFakeSql(),
+      getCache: vi.fn(async (key: string) => cache.get(key)),
+      setCache: vi.fn(async (key: string, value: unknown) => cache.set(key, value).has(key)),
+      deleteCache: vi.fn(async (key: string) => cache.delete(key)),
+    }) as any;
+    const search = vi.fn(async (_criteria, { offset = 0, limit = 5 }: ListingPageRequest) => ({
+      listings: allListings.slice(offset, offset + limit),
+      offset,
+      total: allListings.length,
+      nextCursor: null,
+    }));
+    setListingSource({
+      name: 'fake',
+      search,
+      fetchDetails: vi.fn(async () => null),
+      healthCheck: vi.fn(async () => true),
+    });
+
+    let response: any = null;
+    const callback = (async (content) => {
+      response = content;
+      return [];
+    }) as HandlerCallback;
+    const send = async (text: string) => {
+      const message = { ...createMockMessage(text), entityId: ENTITY } as Memory;
+      // State is rebuilt for every message; the search session carries over
+      await action.handler(runtime, message, createMockState(), {}, callback);
+      return response.text as string;
+    };
+
+    const first = await send('1 bedroom apartment in JVC under 1M');
+    expect(first).toContain('(page 1 of 3)');
+    expect(first).toContain('https://x.ae/5');
+    expect(first).not.toContain('https://x.ae/6');
+
+    // An alert already sent listing 6
+    runtime.sql.tables.shown_listings.push({
+      user_id: ENTITY,
+      link: 'https://x.ae/6',
+      shown_at: 1,
+    });
+
+    const second = await send('show more');
+    expect(search).toHaveBeenLastCalledWith(expect.anything(), {
+      limit: 5,
+      offset: 5,
+      cursor: null,
+    });
+    expect(second).toContain('(page 2 of 3)');
+    expect(second).toContain('**6. JVC 1BR #7');
+    expect(second).not.toContain('https://x.ae/6>');
+    expect(second).toContain('https://x.ae/10');
+
+    const third = await send('show more');
+    expect(third).toContain('(page 3 of 3)');
+    expect(third).toContain('https://x.ae/12');
+
+    expect(await send('show more')).toContain("I don't have any more listings");
+    expect(search).toHaveBeenCalledTimes(3);
+  });
+
+  it('should keep going past a page cut short by local filtering', async () => {
+    const { default: plugin } = await import('../src/plugin');
+    const action = plugin.actions?.find((a) => a.name === 'SEARCH_LISTINGS');
+    const cache = new Map<string, unknown>();
+    const runtime = Object.assign(createMockRuntime(), {
+      sql: createFakeSql(),
+      getCache: vi.fn(async (key: string) => cache.get(key)),
+      setCache: vi.fn(async (key: string, value: unknown) => cache.set(key, value).has(key)),
+      deleteCache: vi.fn(async (key: string) => cache.delete(key)),
+    }) as any;
+    // The backend sent full pages, but only two listings on page 2 matched
+    const search = vi.fn(async (_criteria, { offset = 0, limit = 5 }: ListingPageRequest) => ({
+      listings: offset === 5 ? allListings.slice(5, 7) : allListings.slice(offset, offset + limit),
+      offset,
+      total: allListings.length - 3,
+      nextCursor: null,
+      hasMore: offset + limit < allListings.length,
+    }));
+    setListingSource({
+      name: 'fake',
+      search,
+      fetchDetails: vi.fn(async () => null),
+      healthCheck: vi.fn(async () => true),
+    });
+    // Both listings on page 2 were sent before
+    runtime.sql.tables.shown_listings.push(
+      { user_id: ENTITY, link: 'https://x.ae/6', shown_at: 1 },
+      { user_id: ENTITY, link: 'https://x.ae/7', shown_at: 1 }
+    );
+
+    let response: any = null;
+    const callback = (async (content) => {
+      response = content;
+      return [];
+    }) as HandlerCallback;
+    const send = async (text: string) => {
+      const message = { ...createMockMessage(text), entityId: ENTITY } as Memory;
+      await action.handler(runtime, message, createMockState(), {}, callback);
+      return response.text as string;
+    };
+
+    await send('1 bedroom apartment in JVC under 1M');
+    const more = await send('show more');
+    expect(search).toHaveBeenLastCalledWith(expect.anything(), {
+      limit: 5,
+      offset: 10,
+      cursor: null,
+    });
+    expect(more).toContain('https://x.ae/11');
+    expect(more).toContain('https://x.ae/12');
+  });
+});
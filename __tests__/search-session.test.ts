@@ -0,0 +1,193 @@
+import { describe, expect, it, vi, beforeAll, afterAll, afterEach } from 'vitest';
+import { logger } from '@elizaos/core';
+import type { HandlerCallback, Memory } from '@elizaos/core';
+import { setListingSource } from '../src/listing-sources';
+import {
+  InvalidSearchTransitionError,
+  type ListingPageState,
+  type SearchSession,
+  loadSearchSession,
+  saveSearchSession,
+  transition,
+} from '../src/search-session';
+import { createMockMessage, createMockRuntime, createMockState } from './utils/core-test-utils';
+
+const ENTITY = '6b9c5a1e-0000-4000-8000-0000000000d1';
+const NOW = new Date('2026-09-01T10:00:00Z');
+const PAGE_ONE: ListingPageState = { page: 1, total: 12, nextCursor: null };
+
+function createRuntimeWithCache() {
+  const cache = new Map<string, unknown>();
+  return Object.assign(createMockRuntime(), {
+    getCache: vi.fn(async (key: string) => cache.get(key)),
+    setCache: vi.fn(async (key: string, value: unknown) => cache.set(key, value).has(key)),
+    deleteCache: vi.fn(async (key: string) => cache.delete(key)),
+  }) as any;
+}
+
+function showing(criteria = { area: 'Jumeirah Village Circle' }): SearchSession {
+  return transition(null, { type: 'show_results', criteria, paging: PAGE_ONE }, NOW);
+}
+
+beforeAll(() => {
+  vi.spyOn(logger, 'info');
+  vi.spyOn(logger, 'warn');
+  vi.spyOn(logger, 'error');
+});
+
+afterAll(() => {
+  vi.restoreAllMocks();
+});
+
+afterEach(() => {
+  setListingSource(null);
+});
+
+describe('Search session', () => {
+  describe('transitions', () => {
+    it('should ask for criteria from any state', () => {
+      for (const from of [null, showing(), transition(showing(), { type: 'refine' }, NOW)]) {
+        expect(transition(from, { type: 'ask_criteria' }, NOW)).toEqual({
+          state: 'awaiting_criteria',
+          criteria: {},
+          paging: null,
+          updatedAt: NOW.getTime(),
+        });
+      }
+    });
+
+    it('should show results from any state', () => {
+      const asked = transition(null, { type: 'ask_criteria' }, NOW);
+      expect(
+        transition(asked, { type: 'show_results', criteria: { bedrooms: '2' }, paging: PAGE_ONE })
+      ).toMatchObject({ state: 'showing_results', criteria: { bedrooms: '2' }, paging: PAGE_ONE });
+    });
+
+    it('should move to the next page while showing results', () => {
+      const later = new Date(NOW.getTime() + 60000);
+      const next = transition(
+        showing(),
+        { type: 'show_page', paging: { ...PAGE_ONE, page: 2 } },
+        later
+      );
+      expect(next).toEqual({
+        state: 'showing_results',
+        criteria: { area: 'Jumeirah Village Circle' },
+        paging: { ...PAGE_ONE, page: 2 },
+        updatedAt: later.getTime(),
+      });
+    });
+
+    it('should refine the search on screen, keeping its criteria', () => {
+      expect(transition(showing(), { type: 'refine' }, NOW)).toMatchObject({
+        state: 'refining',
+        criteria: { area: 'Jumeirah Village Circle' },
+      });
+    });
+
+    it('should end the session on reset', () => {
+      expect(transition(showing(), { type: 'reset' }, NOW)).toBeNull();
+      expect(transition(null, { type: 'reset' }, NOW)).toBeNull();
+    });
+
+    it.each([
+      ['idle', null],
+      ['awaiting criteria', transition(null, { type: 'ask_criteria' }, NOW)],
+    ])('should reject paging and refining while %s', (_state, from) => {
+      expect(() => transition(from, { type: 'show_page', paging: PAGE_ONE })).toThrow(
+        InvalidSearchTransitionError
+      );
+      expect(() => transition(from, { type: 'refine' })).toThrow(/can't handle refine/);
+    });
+  });
+
+  describe('storage', () => {
+    it('should keep a session per user until it expires', async () => {
+      const runtime = createRuntimeWithCache();
+      await saveSearchSession(runtime, ENTITY, showing());
+
+      expect(await loadSearchSession(runtime, ENTITY, NOW)).toEqual(showing());
+      expect(await loadSearchSession(runtime, 'someone-else', NOW)).toBeNull();
+      expect(
+        await loadSearchSession(runtime, ENTITY, new Date(NOW.getTime() + 31 * 60000))
+      ).toBeNull();
+
+      await saveSearchSession(runtime, ENTITY, null);
+      expect(await loadSearchSession(runtime, ENTITY, NOW)).toBeNull();
+    });
+
+    it('should treat a runtime without a cache as idle', async () => {
+      expect(await loadSearchSession(createMockRuntime(), ENTITY)).toBeNull();
+    });
+  });
+
+  describe('SEARCH_LISTINGS', () => {
+    it('should carry the flow across messages with fresh state', async () => {
+      const { default: plugin } = await import('../src/plugin');
+      const action = plugin.actions?.find((a) => a.name === 'SEARCH_LISTINGS');
+      const runtime = createRuntimeWithCache();
+      const search = vi.fn(async () => ({ listings: [], offset: 0, total: 0, nextCursor: null }));
+      setListingSource({
+        name: 'fake',
+        search,
+        fetchDetails: vi.fn(async () => null),
+        healthCheck: vi.fn(async () => true),
+      });
+
+      let response: any = null;
+      const callback = (async (content) => {
+        response = content;
+        return [];
+      }) as HandlerCallback;
+      const send = async (text: string) => {
+        const message = { ...createMockMessage(text), entityId: ENTITY } as Memory;
+        const state = createMockState();
+        if (await action.validate(runtime, message, state)) {
+          await action.handler(runtime, message, state, {}, callback);
+        }
+        return (await loadSearchSession(runtime, ENTITY))?.state ?? 'idle';
+      };
+
+      expect(await send('find property')).toBe('awaiting_criteria');
+      expect(await send('2 bed in JVC')).toBe('showing_results');
+      expect(search).toHaveBeenLastCalledWith(
+        { area: 'Jumeirah Village Circle', bedrooms: '2' },
+        { limit: 5, offset: 0 }
+      );
+
+      expect(await send('can you narrow it down')).toBe('refining');
+      expect(response.text).toContain("Let's refine your search");
+
+      expect(await send('cancel')).toBe('idle');
+      expect(response.text).toContain("I've dropped that search");
+    });
+
+    it('should say the search expired when it ends before it can be refined', async () => {
+      const { default: plugin } = await import('../src/plugin');
+      const action = plugin.actions?.find((a) => a.name === 'SEARCH_LISTINGS');
+      const runtime = createRuntimeWithCache();
+      // Still there when the message comes in, gone by the time it is refined
+      runtime.getCache.mockResolvedValueOnce(
+        transition(
+          null,
+          { type: 'show_results', criteria: { area: 'Dubai Marina' }, paging: PAGE_ONE },
+          new Date()
+        )
+      );
+
+      let response: any = null;
+      const callback = (async (content) => {
+        response = content;
+        return [];
+      }) as HandlerCallback;
+      const message = {
+        ...createMockMessage('can you narrow it down'),
+        entityId: ENTITY,
+      } as Memory;
+      await action.handler(runtime, message, createMockState(), {}, callback);
+
+      expect(response.text).toContain('That search has expired');
+      expect(await loadSearchSession(runtime, ENTITY)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, expect, it, vi, beforeAll, afterAll, afterEach } from 'vitest';
+import { logger } from '@elizaos/core';
+import path from 'path';
+import {
+  ServiceChargeStore,
+  loadServiceChargeStore,
+  netYieldAssumptionsFor,
+  parseServiceChargesCsv,
+  setServiceChargeStore,
+} from '../src/service-charges';
+import { DEFAULT_NET_YIELD_ASSUMPTIONS } from '../src/yield-estimate';
+
+const SAMPLE_CSV = [
+  'community,building,rate_per_sqft',
+  'Dubai Marina,Marina Gate,22.5',
+  'Dubai Marina,Cayan Tower,18',
+  'Dubai Marina,Princess Tower,14',
+  'JVC,Bloom Towers,13',
+  'JVC,,11',
+  'Bahar,,16',
+  'Rimal,,20',
+  'Business Bay,Executive Towers,n/a',
+  ',Somewhere,15',
+].join('\n');
+
+beforeAll(() => {
+  vi.spyOn(logger, 'info');
+  vi.spyOn(logger, 'warn');
+});
+
+afterAll(() => {
+  vi.restoreAllMocks();
+});
+
+afterEach(() => {
+  setServiceChargeStore(null);
+});
+
+describe('Service charges', () => {
+  describe('parseServiceChargesCsv', () => {
+    it('should read rates and skip rows without a community or rate', () => {
+      const rates = parseServiceChargesCsv(SAMPLE_CSV);
+      expect(rates).toHaveLength(7);
+      expect(rates[0]).toEqual({
+        community: 'Dubai Marina',
+        building: 'Marina Gate',
+        ratePerSqft: 22.5,
+      });
+      expect(rates[4]).toEqual({ community: 'JVC', building: null, ratePerSqft: 11 });
+    });
+
+    it('should convert rates given per sqm', () => {
+      const [rate] = parseServiceChargesCsv(
+        'Area Name,Project,AED per sqm\nDowntown,Burj Royale,215.28'
+      );
+      expect(rate.community).toBe('Downtown');
+      expect(rate.building).toBe('Burj Royale');
+      expect(rate.ratePerSqft).toBeCloseTo(20, 2);
+    });
+
+    it('should reject a file without a community or rate column', () => {
+      expect(() => parseServiceChargesCsv('building,year\nMarina Gate,2024')).toThrow(
+        /missing required columns/
+      );
+    });
+  });
+
+  describe('ServiceChargeStore.estimate', () => {
+    const store = new ServiceChargeStore(parseServiceChargesCsv(SAMPLE_CSV));
+
+    it("should use the building's own rate when it is on record", () => {
+      expect(store.estimate('Marina Gate, Dubai Marina, Dubai')).toEqual({
+        ratePerSqft: 22.5,
+        basis: 'building',
+        name: 'Marina Gate',
+        sampleSize: 1,
+      });
+    });
+
+    it('should fall back to the community median for an unknown building', () => {
+      expect(store.estimate('Marina Heights, Dubai Marina')).toEqual({
+        ratePerSqft: 18,
+        basis: 'area',
+        name: 'Dubai Marina',
+        sampleSize: 3,
+      });
+    });
+
+    it('should match communities listed under an alias', () => {
+      expect(store.estimate('Park Lane, Jumeirah Village Circle')).toMatchObject({
+        ratePerSqft: 12,
+        basis: 'area',
+        name: 'Jumeirah Village Circle',
+      });
+    });
+
+    it('should take a master community median across its sub-communities', () => {
+      expect(store.estimate('Jumeirah Beach Residence, Dubai')).toMatchObject({
+        ratePerSqft: 18,
+        sampleSize: 2,
+      });
+    });
+
+    it('should return null for places it has no rates for', () => {
+      expect(store.estimate('Arabian Ranches 2')).toBeNull();
+    });
+  });
+
+  describe('netYieldAssumptionsFor', () => {
+    it('should keep the default rate without a dataset', () => {
+      expect(netYieldAssumptionsFor('Marina Gate, Dubai Marina')).toEqual({
+        assumptions: DEFAULT_NET_YIELD_ASSUMPTIONS,
+        serviceCharge: null,
+      });
+    });
+
+    it('should warn once that no rates are loaded', () => {
+      vi.mocked(logger.warn).mockClear();
+      netYieldAssumptionsFor('Dubai Marina');
+      netYieldAssumptionsFor('Business Bay');
+      expect(logger.warn).toHaveBeenCalledTimes(1);
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.stringContaining('No service charge rates are loaded')
+      );
+    });
+
+    it('should swap in the looked-up rate', () => {
+      setServiceChargeStore(new ServiceChargeStore(parseServiceChargesCsv(SAMPLE_CSV)));
+      const { assumptions, serviceCharge } = netYieldAssumptionsFor('Cayan Tower, Dubai Marina');
+      expect(assumptions).toEqual({ ...DEFAULT_NET_YIELD_ASSUMPTIONS, serviceChargePerSqft: 18 });
+      expect(serviceCharge?.basis).toBe('building');
+    });
+  });
+
+  describe('sample dataset', () => {
+    it('should load the service charges shipped in the knowledge folder', () => {
+      const store = loadServiceChargeStore(
+        path.join(__dirname, '../knowledge/service_charges.csv')
+      );
+      expect(store.estimate('Cayan Tower, Dubai Marina')).toMatchObject({
+        ratePerSqft: 20,
+        basis: 'building',
+      });
+      expect(store.estimate('Bloom Towers, JVC')).toMatchObject({
+        ratePerSqft: 13,
+        basis: 'area',
+        name: 'Jumeirah Village Circle',
+      });
+    });
+  });
+});
@@ -32,7 +32,7 @@ const createMockRuntime = () => {
     ],
     getService: vi.fn().mockReturnValue({
       capabilityDescription:
-        'This is a starter service which is attached to the agent through the starter plugin.',
+        'Re-runs saved property searches on a schedule and sends users new matching listings.',
       stop: vi.fn(),
     }),
     processActions: vi.fn().mockImplementation(async (_message, _responses, _state, callback) => {
@@ -115,15 +115,15 @@ describe('StarterTestSuite', () => {
     }
   });
 
-  it('should run starter service test successfully', async () => {
+  it('should run listing alert service test successfully', async () => {
     const mockRuntime = createMockRuntime();
-    const serviceTest = testSuite.tests.find((test) => test.name === 'Starter service test');
+    const serviceTest = testSuite.tests.find((test) => test.name === 'Listing alert service test');
 
     if (serviceTest) {
       await expect(serviceTest.fn(mockRuntime as any)).resolves.not.toThrow();
-      expect(mockRuntime.getService).toHaveBeenCalledWith('starter');
+      expect(mockRuntime.getService).toHaveBeenCalledWith('listing-alerts');
     } else {
-      assert.fail('Starter service test not found');
+      assert.fail('Listing alert service test not found');
     }
   });
 });
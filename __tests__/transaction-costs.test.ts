@@ -0,0 +1,151 @@
+import { describe, expect, it, vi, beforeAll, afterAll, afterEach } from 'vitest';
+import { logger } from '@elizaos/core';
+import type { HandlerCallback, Memory } from '@elizaos/core';
+import { rememberFinanceListing } from '../src/finance';
+import { setListingSource } from '../src/listing-sources';
+import { estimateTransactionCosts, parseCostOverrides } from '../src/transaction-costs';
+import { createMockMessage, createMockRuntime, createMockState } from './utils/core-test-utils';
+
+const ENTITY = '6b9c5a1e-0000-4000-8000-0000000000f2';
+
+function createRuntimeWithCache() {
+  const cache = new Map<string, unknown>();
+  return Object.assign(createMockRuntime(), {
+    getCache: vi.fn(async (key: string) => cache.get(key)),
+    setCache: vi.fn(async (key: string, value: unknown) => cache.set(key, value).has(key)),
+    deleteCache: vi.fn(async (key: string) => cache.delete(key)),
+  }) as any;
+}
+
+beforeAll(() => {
+  vi.spyOn(logger, 'info');
+  vi.spyOn(logger, 'warn');
+  vi.spyOn(logger, 'error');
+});
+
+afterAll(() => {
+  vi.restoreAllMocks();
+});
+
+afterEach(() => {
+  setListingSource(null);
+});
+
+describe('Transaction costs', () => {
+  it('should itemise the costs of a cash purchase', () => {
+    const costs = estimateTransactionCosts(2000000);
+    expect(costs.items.map((item) => [item.label, Math.round(item.amount)])).toEqual([
+      ['DLD transfer fee', 80580],
+      ['Registration trustee fee', 4200],
+      ['Agent commission', 42000],
+      ['Developer NOC', 1000],
+    ]);
+    expect(costs.total).toBeCloseTo(127780, 6);
+    expect(costs.percentOfPrice).toBeCloseTo(6.389, 3);
+    expect(costs.loanAmount).toBe(0);
+  });
+
+  it('should add mortgage registration and valuation when borrowing', () => {
+    const costs = estimateTransactionCosts(2000000, { loanAmount: 1600000 });
+    expect(costs.items).toContainEqual({
+      label: 'Mortgage registration',
+      amount: 4290,
+      basis: '0.25% of the loan + AED 290',
+    });
+    expect(costs.items).toContainEqual({
+      label: 'Valuation fee',
+      amount: 3000,
+      basis: 'incl. VAT',
+    });
+    expect(costs.total).toBeCloseTo(127780 + 4290 + 3000, 6);
+  });
+
+  it('should charge the lower trustee fee under AED 500k and skip the NOC off-plan', () => {
+    const labels = (price: number, offPlan = false) =>
+      estimateTransactionCosts(price, { offPlan }).items.map((item) => item.label);
+    expect(estimateTransactionCosts(450000).items[1]).toMatchObject({
+      amount: 2100,
+      basis: 'AED 2,000 + VAT',
+    });
+    expect(labels(450000, true)).not.toContain('Developer NOC');
+  });
+
+  it('should apply rate overrides and leave out items that come to nothing', () => {
+    const costs = estimateTransactionCosts(1000000, {}, { agentCommissionRate: 0, nocFee: 500 });
+    expect(costs.items.map((item) => item.label)).toEqual([
+      'DLD transfer fee',
+      'Registration trustee fee',
+      'Developer NOC',
+    ]);
+    expect(costs.items[2].amount).toBe(500);
+  });
+
+  it.each([
+    ['buying costs on 2M with 1.5% commission', { agentCommissionRate: 0.015 }],
+    ['fees on a 1.2M flat, no agent', { agentCommissionRate: 0 }],
+    ['buying direct from the developer for 900k', { agentCommissionRate: 0 }],
+    ['what are the purchase fees on 2M?', {}],
+  ])('should read the rate overrides in "%s"', (text, expected) => {
+    expect(parseCostOverrides(text)).toEqual(expected);
+  });
+
+  describe('TRANSACTION_COSTS', () => {
+    const send = async (runtime: any, text: string) => {
+      const { default: plugin } = await import('../src/plugin');
+      const action = plugin.actions?.find((a) => a.name === 'TRANSACTION_COSTS');
+      const message = { ...createMockMessage(text), entityId: ENTITY } as Memory;
+      const state = createMockState();
+      expect(await action.validate(runtime, message, state)).toBe(true);
+
+      let response: any = null;
+      const callback = (async (content) => {
+        response = content;
+        return [];
+      }) as HandlerCallback;
+      await action.handler(runtime, message, state, {}, callback);
+      return response.text as string;
+    };
+
+    it('should cost a cash purchase at a quoted price', async () => {
+      const text = await send(
+        createRuntimeWithCache(),
+        'What are the buying costs on a 2M apartment?'
+      );
+      expect(text).toContain('**Upfront costs for AED 2,000,000**');
+      expect(text).toContain('AED 80,580');
+      expect(text).not.toContain('Mortgage registration');
+      expect(text).toContain("That's about **AED 2,127,780** in all for a cash purchase.");
+    });
+
+    it('should add the deposit and mortgage fees for a mortgaged purchase', async () => {
+      const text = await send(
+        createRuntimeWithCache(),
+        'purchase costs for 2M with a mortgage, no agent'
+      );
+      expect(text).toContain('Mortgage registration');
+      expect(text).not.toContain('Agent commission');
+      // AED 400,000 down plus 80,580 + 4,200 + 4,290 + 3,000 + 1,000 in fees
+      expect(text).toContain("you'd need about **AED 493,070** in cash");
+    });
+
+    it('should cost the last sale listing analysed', async () => {
+      const runtime = createRuntimeWithCache();
+      await rememberFinanceListing(runtime, ENTITY, {
+        link: 'https://www.bayut.com/property/details-123.html',
+        title: 'Marina View',
+        price: 2400000,
+        analysedAt: Date.now(),
+      });
+      const text = await send(runtime, 'what would the transfer fees be?');
+      expect(text).toContain('**Upfront costs for Marina View (AED 2,400,000)**');
+      expect(text).toContain('<https://www.bayut.com/property/details-123.html>');
+    });
+
+    it('should leave cost questions to TRANSACTION_COSTS rather than FINANCE_CALC', async () => {
+      const { default: plugin } = await import('../src/plugin');
+      const finance = plugin.actions?.find((a) => a.name === 'FINANCE_CALC');
+      const message = createMockMessage('buying costs on a 2M flat with a mortgage');
+      expect(await finance.validate(createMockRuntime(), message)).toBe(false);
+    });
+  });
+});
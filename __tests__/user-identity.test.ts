@@ -0,0 +1,189 @@
+import { describe, expect, it, vi, beforeAll, afterAll, afterEach } from 'vitest';
+import { logger } from '@elizaos/core';
+import type { HandlerCallback, Memory, State } from '@elizaos/core';
+import { setListingSource } from '../src/listing-sources';
+import {
+  getActiveSearch,
+  listSavedSearches,
+  migrateLegacyPreferences,
+  saveSearch,
+} from '../src/saved-searches';
+import { migrateMessageKeyedRows } from '../src/user-identity';
+import { createMockMessage, createMockRuntime, createMockState } from './utils/core-test-utils';
+import { createFakeSql } from './utils/fake-sql';
+
+const ENTITY = '6b9c5a1e-0000-4000-8000-00000000000a';
+const OTHER_ENTITY = '6b9c5a1e-0000-4000-8000-00000000000b';
+
+function createRuntimeWithSql() {
+  const cache = new Map<string, unknown>();
+  return Object.assign(createMockRuntime(), {
+    sql: createFakeSql(),
+    getCache: vi.fn(async (key: string) => cache.get(key)),
+    setCache: vi.fn(async (key: string, value: unknown) => cache.set(key, value).has(key)),
+  }) as any;
+}
+
+// A fresh message, with its own ID, from the given sender
+function messageFrom(entityId: string, text: string): Memory {
+  return { ...createMockMessage(text), id: crypto.randomUUID(), entityId } as Memory;
+}
+
+beforeAll(() => {
+  vi.spyOn(logger, 'info');
+  vi.spyOn(logger, 'warn');
+  vi.spyOn(logger, 'error');
+});
+
+afterAll(() => {
+  vi.restoreAllMocks();
+});
+
+afterEach(() => {
+  setListingSource(null);
+});
+
+describe('Search owner identity', () => {
+  it('should find a search saved in one message from the next message', async () => {
+    const { default: plugin } = await import('../src/plugin');
+    const searchAction = plugin.actions?.find((a) => a.name === 'SEARCH_LISTINGS');
+    const provider = plugin.providers?.find((p) => p.name === 'PREFERENCES_PROVIDER');
+    const runtime = createRuntimeWithSql();
+    setListingSource({
+      name: 'fake',
+      search: vi.fn(async () => ({
+        listings: [
+          {
+            title: 'Marina 2BR',
+            price: 'AED 1,400,000',
+            priceAed: 1400000,
+            link: 'https://x.ae/2',
+          },
+        ],
+        offset: 0,
+        total: 1,
+        nextCursor: null,
+      })),
+      fetchDetails: vi.fn(async () => null),
+      healthCheck: vi.fn(async () => true),
+    });
+
+    let response: any = null;
+    const callback = (async (content) => {
+      response = content;
+      return [];
+    }) as HandlerCallback;
+    const state: State = createMockState();
+
+    await searchAction.handler(
+      runtime,
+      messageFrom(ENTITY, '2 bedroom apartment in Dubai Marina under 1.5M'),
+      state,
+      {},
+      callback
+    );
+    expect(runtime.sql.tables.search_logs[0]).toMatchObject({ user_id: ENTITY });
+
+    await searchAction.handler(
+      runtime,
+      messageFrom(ENTITY, 'save this search as marina-2bed'),
+      state,
+      {},
+      callback
+    );
+    expect(response.text).toContain('"marina-2bed"');
+
+    // A later message from the same sender sees the saved search...
+    const result = await provider.get(runtime, messageFrom(ENTITY, 'hi again'), createMockState());
+    expect(result.values.preferences).toMatchObject({ name: 'marina-2bed', area: 'Dubai Marina' });
+
+    await searchAction.handler(
+      runtime,
+      messageFrom(ENTITY, 'show my saved search'),
+      createMockState(),
+      {},
+      callback
+    );
+    expect(response.text).toContain('Based on your saved search "marina-2bed"');
+
+    // ...and another sender doesn't
+    const other = await provider.get(runtime, messageFrom(OTHER_ENTITY, 'hi'), createMockState());
+    expect(other.values.preferences.name).toBeNull();
+  });
+
+  it('should move rows written under message IDs to the sender', async () => {
+    const runtime = createRuntimeWithSql();
+    const oldMessageId = '0f0f0f0f-0000-4000-8000-000000000001';
+    runtime.getMemoryById = vi.fn(async (id: string) =>
+      id === oldMessageId ? { id, entityId: ENTITY } : null
+    );
+
+    await saveSearch(runtime, oldMessageId, 'default', { area: 'JVC' }, new Date('2026-09-01'));
+    await saveSearch(runtime, ENTITY, 'default', { area: 'Dubai Marina' }, new Date('2026-10-01'));
+    runtime.sql.tables.shown_listings.push(
+      { user_id: oldMessageId, link: 'https://x.ae/1', shown_at: 1 },
+      { user_id: ENTITY, link: 'https://x.ae/1', shown_at: 2 }
+    );
+    runtime.sql.tables.alert_settings.push({ user_id: oldMessageId, source: 'telegram' });
+
+    expect(await migrateMessageKeyedRows(runtime)).toBe(1);
+
+    const searches = await listSavedSearches(runtime, ENTITY);
+    expect(searches.map((s) => s.name).sort()).toEqual(['default', 'default-2']);
+    // The entity's own search stays active
+    expect((await getActiveSearch(runtime, ENTITY))?.criteria).toEqual({ area: 'Dubai Marina' });
+    expect(runtime.sql.tables.shown_listings).toEqual([
+      { user_id: ENTITY, link: 'https://x.ae/1', shown_at: 2 },
+    ]);
+    expect(runtime.sql.tables.alert_settings[0].user_id).toBe(ENTITY);
+
+    // Only runs once
+    expect(await migrateMessageKeyedRows(runtime)).toBe(0);
+  });
+
+  it('should keep only the moved search that was active', async () => {
+    const runtime = createRuntimeWithSql();
+    const oldMessageId = '0f0f0f0f-0000-4000-8000-000000000003';
+    runtime.getMemoryById = vi.fn(async (id: string) =>
+      id === oldMessageId ? { id, entityId: ENTITY } : null
+    );
+
+    await saveSearch(runtime, oldMessageId, 'jvc', { area: 'JVC' }, new Date('2026-09-01'));
+    await saveSearch(
+      runtime,
+      oldMessageId,
+      'marina',
+      { area: 'Dubai Marina' },
+      new Date('2026-09-02')
+    );
+
+    expect(await migrateMessageKeyedRows(runtime)).toBe(1);
+
+    const rows = runtime.sql.tables.saved_searches.filter((row) => row.user_id === ENTITY);
+    expect(rows.filter((row) => row.is_active === 1).map((row) => row.name)).toEqual(['marina']);
+  });
+
+  it('should not bring legacy preferences back on later start-ups', async () => {
+    const runtime = createRuntimeWithSql();
+    const oldMessageId = '0f0f0f0f-0000-4000-8000-000000000002';
+    runtime.getMemoryById = vi.fn(async (id: string) =>
+      id === oldMessageId ? { id, entityId: ENTITY } : null
+    );
+    runtime.sql.tables.preferences.push({ user_id: oldMessageId, area: 'JVC', bedrooms: '2' });
+
+    const startUp = async () => {
+      await migrateLegacyPreferences(runtime, new Date('2026-10-01'));
+      await migrateMessageKeyedRows(runtime);
+    };
+    await startUp();
+    await startUp();
+
+    expect(runtime.sql.tables.saved_searches).toHaveLength(1);
+    expect(runtime.sql.tables.saved_searches[0]).toMatchObject({
+      user_id: ENTITY,
+      name: 'default',
+      area: 'JVC',
+    });
+    expect(runtime.sql.tables.preferences).toEqual([]);
+  });
+});
@@ -0,0 +1,134 @@
+import { vi } from 'vitest';
+
+const SAVED_SEARCH_COLUMNS = [
+  'user_id',
+  'name',
+  'area',
+  'property_type',
+  'bedrooms',
+  'max_price',
+  'min_price',
+  'yield_floor',
+  'furnished',
+  'min_size',
+  'max_size',
+  'purpose',
+  'completion_status',
+];
+
+/**
+ * In-memory stand-in for the SQL plugin covering the queries the saved
+ * searches, search logs and listing alerts modules issue. Rows are kept per
+ * table so tests can inspect them directly.
+ */
+export function createFakeSql() {
+  const tables: Record<string, any[]> = {
+    saved_searches: [],
+    search_logs: [],
+    alert_settings: [],
+    shown_listings: [],
+    preferences: [],
+  };
+  const savedSearches = tables.saved_searches;
+  let nextId = 1;
+  const find = (userId: string, name: string) =>
+    savedSearches.find((row) => row.user_id === userId && row.name === name);
+  const forUser = (table: string, userId: string) =>
+    tables[table].filter((row) => row.user_id === userId);
+  const remove = (table: string, predicate: (row: any) => boolean) => {
+    const rows = tables[table];
+    for (let i = rows.length - 1; i >= 0; i--) if (predicate(rows[i])) rows.splice(i, 1);
+  };
+
+  const query = vi.fn(async (sql: string, params: any[] = []) => {
+    // Legacy preferences are copied over as each user's "default" search, then cleared
+    if (sql.includes('DELETE FROM preferences')) {
+      tables.preferences.length = 0;
+      return [];
+    }
+    if (sql.includes('FROM preferences')) {
+      for (const row of tables.preferences) {
+        if (find(row.user_id, 'default')) continue;
+        const values = Object.fromEntries(SAVED_SEARCH_COLUMNS.map((c) => [c, row[c] ?? null]));
+        savedSearches.push({
+          id: nextId++,
+          ...values,
+          name: 'default',
+          is_active: 1,
+          updated_at: params[0],
+        });
+      }
+      return [];
+    }
+
+    const table = Object.keys(tables).find((name) => sql.includes(name));
+    if (!table) return [];
+
+    const distinct = sql.match(/SELECT DISTINCT user_id FROM (\w+)/);
+    if (distinct) {
+      return [...new Set(tables[distinct[1]].map((row) => row.user_id))].map((user_id) => ({
+        user_id,
+      }));
+    }
+
+    if (table === 'saved_searches') {
+      if (sql.includes('INSERT INTO saved_searches')) {
+        const values = Object.fromEntries(SAVED_SEARCH_COLUMNS.map((c, i) => [c, params[i]]));
+        const row = { ...values, is_active: 1, updated_at: params[SAVED_SEARCH_COLUMNS.length] };
+        const existing = find(row.user_id, row.name);
+        if (existing) Object.assign(existing, row);
+        else savedSearches.push({ id: nextId++, ...row });
+      } else if (sql.includes('SET is_active = 0')) {
+        forUser(table, params[0])
+          .filter((row) => row.name !== params[1])
+          .forEach((row) => (row.is_active = 0));
+      } else if (sql.includes('SET is_active = CASE')) {
+        forUser(table, params[1]).forEach(
+          (row) => (row.is_active = row.name === params[0] ? 1 : 0)
+        );
+      } else if (sql.includes('SET user_id = ?, name = ?')) {
+        const row = savedSearches.find((r) => r.id === params[3]);
+        Object.assign(row, { user_id: params[0], name: params[1], is_active: params[2] });
+      } else if (sql.includes('SET name = ?')) {
+        Object.assign(find(params[2], params[3]), { name: params[0], updated_at: params[1] });
+      } else if (sql.includes('DELETE FROM saved_searches')) {
+        remove(table, (row) => row.user_id === params[0] && row.name === params[1]);
+      } else if (sql.includes('UPDATE saved_searches SET')) {
+        const row = find(params[1], params[2]);
+        for (const [, column] of sql.matchAll(/(\w+) = NULL/g)) row[column] = null;
+        row.updated_at = params[0];
+      } else if (sql.includes('AND name = ?')) {
+        const row = find(params[0], params[1]);
+        return row ? [row] : [];
+      } else if (sql.includes('FROM saved_searches')) {
+        return forUser(table, params[0]).sort((a, b) => b.updated_at - a.updated_at);
+      }
+      return [];
+    }
+
+    if (sql.includes('INSERT INTO search_logs')) {
+      const [search_id, user_id, room_id, world_id, criteria_json] = params;
+      tables.search_logs.push({ search_id, user_id, room_id, world_id, criteria_json });
+    } else if (sql.includes('INSERT INTO shown_listings') && sql.includes('SELECT')) {
+      for (const row of forUser(table, params[1])) {
+        if (!forUser(table, params[0]).some((r) => r.link === row.link)) {
+          tables.shown_listings.push({ ...row, user_id: params[0] });
+        }
+      }
+    } else if (sql.includes('INSERT INTO shown_listings')) {
+      const [user_id, link, shown_at] = params;
+      if (!forUser(table, user_id).some((row) => row.link === link)) {
+        tables.shown_listings.push({ user_id, link, shown_at });
+      }
+    } else if (sql.startsWith('DELETE')) {
+      remove(table, (row) => row.user_id === params[0]);
+    } else if (sql.includes('SET user_id = ? WHERE user_id = ?')) {
+      forUser(table, params[1]).forEach((row) => (row.user_id = params[0]));
+    } else if (sql.includes('SELECT')) {
+      return forUser(table, params[0]);
+    }
+    return [];
+  });
+
+  return { tables, query };
+}
@@ -0,0 +1,336 @@
+import { describe, expect, it, vi, beforeAll, afterAll, afterEach } from 'vitest';
+import { logger } from '@elizaos/core';
+import type { HandlerCallback } from '@elizaos/core';
+import { RentalYieldStore, parseRentalYieldsCsv, setRentalYieldStore } from '../src/rental-yields';
+import { setListingSource } from '../src/listing-sources';
+import {
+  ServiceChargeStore,
+  parseServiceChargesCsv,
+  setServiceChargeStore,
+} from '../src/service-charges';
+import {
+  applyYieldFloor,
+  assessRentFairness,
+  calculateYields,
+  estimateAnnualRent,
+  findComparables,
+  medianPricePerSqft,
+} from '../src/yield-estimate';
+import { createMockMessage, createMockRuntime, createMockState } from './utils/core-test-utils';
+
+// Listing details returned by the property webhook in the handler tests
+const saleDetails = {
+  title: 'Marina View | 2 Bed | Vacant',
+  price: 2500000,
+  bedrooms: '2',
+  bathrooms: '3',
+  size: 1250,
+  furnishing: 'NO',
+  location: 'Marina Gate, Dubai Marina, Dubai',
+  amenities: ['Balcony'],
+};
+const webhookResponse = { current: saleDetails as any };
+
+vi.mock('node-fetch', () => ({
+  default: vi.fn(async () => ({
+    ok: true,
+    status: 200,
+    json: async () => webhookResponse.current,
+    text: async () => JSON.stringify(webhookResponse.current),
+  })),
+}));
+
+async function analyseLink(text: string) {
+  const { default: plugin } = await import('../src/plugin');
+  const action = plugin.actions?.find((a) => a.name === 'ANALYSE_PROPERTY_LINK');
+
+  let response: any = null;
+  const callback = (async (content) => {
+    response = content;
+    return [];
+  }) as HandlerCallback;
+
+  await action.handler(
+    createMockRuntime(),
+    createMockMessage(text),
+    createMockState(),
+    {},
+    callback
+  );
+  return response;
+}
+
+const SAMPLE_CSV = [
+  'area,property_type,bedrooms,size_sqft,annual_rent,transaction_price,contract_date',
+  'Dubai Marina,Apartment,2,1200,120000,2300000,2023-03-01',
+  'Dubai Marina,Apartment,2,1300,130000,2500000,2023-08-01',
+  'Dubai Marina,Apartment,2,1250,125000,2450000,2023-09-01',
+  'Dubai Marina,Apartment,2,2400,220000,4800000,2023-09-01',
+  'Dubai Marina,Apartment,1,800,90000,1500000,2023-01-01',
+  'Business Bay,Apartment,1,760,78000,1250000,2023-05-01',
+].join('\n');
+
+const store = new RentalYieldStore(parseRentalYieldsCsv(SAMPLE_CSV));
+
+beforeAll(() => {
+  vi.spyOn(logger, 'info');
+  vi.spyOn(logger, 'warn');
+  setRentalYieldStore(store);
+});
+
+afterAll(() => {
+  setRentalYieldStore(null);
+  vi.restoreAllMocks();
+});
+
+describe('Yield estimate', () => {
+  describe('findComparables', () => {
+    it('should match on area, bedrooms and a size band first', () => {
+      const { contracts, matchLevel } = findComparables(store, {
+        area: 'Dubai Marina',
+        bedrooms: 2,
+        sizeSqft: 1250,
+      });
+      expect(matchLevel).toBe('area, bedrooms and size');
+      expect(contracts).toHaveLength(3);
+    });
+
+    it('should widen to the whole area when bedrooms have too few contracts', () => {
+      const { contracts, matchLevel } = findComparables(store, {
+        area: 'Dubai Marina',
+        bedrooms: 3,
+      });
+      expect(matchLevel).toBe('area');
+      expect(contracts).toHaveLength(5);
+    });
+  });
+
+  describe('estimateAnnualRent', () => {
+    it('should scale comparable rent per sqft to the target size', () => {
+      const estimate = estimateAnnualRent(store, {
+        area: 'Dubai Marina',
+        bedrooms: 2,
+        sizeSqft: 1250,
+      });
+      // Every comparable rents at AED 100/sqft
+      expect(estimate?.annualRent).toBeCloseTo(125000, 5);
+      expect(estimate?.spread).toBeCloseTo(0, 5);
+      expect(estimate?.confidence).toBe('low');
+    });
+
+    it('should return null for an area without contracts', () => {
+      expect(estimateAnnualRent(store, { area: 'Palm Jumeirah' })).toBeNull();
+    });
+  });
+
+  describe('calculateYields', () => {
+    it('should deduct service charges, vacancy and management from gross rent', () => {
+      const result = calculateYields(1000000, 80000, 1000, {
+        serviceChargePerSqft: 15,
+        vacancyRate: 0.05,
+        managementRate: 0.05,
+      });
+      expect(result.grossYield).toBeCloseTo(8, 10);
+      expect(result.serviceCharges).toBe(15000);
+      expect(result.netIncome).toBe(80000 - 15000 - 4000 - 4000);
+      expect(result.netYield).toBeCloseTo(5.7, 10);
+    });
+
+    it('should skip service charges when the size is unknown', () => {
+      expect(calculateYields(1000000, 80000, null).serviceCharges).toBe(0);
+    });
+  });
+
+  it('should compute the median price per sqft of comparables', () => {
+    expect(medianPricePerSqft(store.query({ area: 'Business Bay' }))).toBeCloseTo(1250000 / 760, 5);
+  });
+
+  describe('assessRentFairness', () => {
+    const target = { area: 'Dubai Marina', bedrooms: 2, sizeSqft: 1250 };
+
+    it('should flag rents above the 75th percentile of comparables', () => {
+      const result = assessRentFairness(store, target, 140000);
+      expect(result?.verdict).toBe('above market');
+      expect(result?.percentile).toBe(100);
+      expect(result?.comparables).toHaveLength(3);
+    });
+
+    it('should flag rents below the 25th percentile of comparables', () => {
+      expect(assessRentFairness(store, target, 100000)?.verdict).toBe('below market');
+    });
+
+    it('should treat the median rent as at market', () => {
+      const result = assessRentFairness(store, target, 125000);
+      expect(result?.verdict).toBe('at market');
+      expect(result?.medianRent).toBeCloseTo(125000, 5);
+    });
+
+    it('should return the three contracts closest in size', () => {
+      const result = assessRentFairness(store, { ...target, sizeSqft: 1210 }, 125000);
+      expect(result?.closest.map((c) => c.sizeSqft)).toEqual([1200, 1250, 1300]);
+    });
+  });
+  describe('applyYieldFloor', () => {
+    // Marina 2-beds of 1,250 sqft rent for about AED 125,000
+    const listing = (link: string, priceAed: number | null) => ({
+      title: 'Marina 2BR',
+      price: priceAed ? `AED ${priceAed}` : 'Price on request',
+      priceAed,
+      link,
+      bedrooms: 2,
+      sizeSqft: 1250,
+    });
+    const marinaListings = [
+      listing('https://x.ae/cheap', 1500000),
+      listing('https://x.ae/dear', 2500000),
+      listing('https://x.ae/unpriced', null),
+    ];
+
+    afterEach(() => {
+      setListingSource(null);
+    });
+
+    it('should drop listings estimated under the floor and flag unknown yields', () => {
+      const { listings, belowFloor } = applyYieldFloor(store, marinaListings, {
+        area: 'Dubai Marina',
+        yieldFloor: 7,
+      });
+
+      expect(belowFloor).toBe(1);
+      expect(listings.map((l) => l.link)).toEqual(['https://x.ae/cheap', 'https://x.ae/unpriced']);
+      expect(listings[0].estimatedYield).toBeCloseTo(125000 / 15000, 5);
+      expect(listings[1].estimatedYield).toBeNull();
+    });
+
+    it('should only annotate without a floor, and skip rentals', () => {
+      const { listings, belowFloor } = applyYieldFloor(store, marinaListings, {
+        area: 'Dubai Marina',
+      });
+      expect(belowFloor).toBe(0);
+      expect(listings[1].estimatedYield).toBeCloseTo(5, 5);
+      expect(listings[2]).not.toHaveProperty('estimatedYield');
+
+      const rentals = applyYieldFloor(store, marinaListings, {
+        area: 'Dubai Marina',
+        purpose: 'rent',
+        yieldFloor: 7,
+      });
+      expect(rentals.belowFloor).toBe(0);
+      expect(rentals.listings[0].estimatedYield).toBeNull();
+    });
+
+    it('should show estimated yields in SEARCH_LISTINGS results', async () => {
+      setListingSource({
+        name: 'fake',
+        search: vi.fn(async () => ({
+          listings: marinaListings.slice(0, 2),
+          offset: 0,
+          total: 2,
+          nextCursor: null,
+        })),
+        fetchDetails: vi.fn(async () => null),
+        healthCheck: vi.fn(async () => true),
+      });
+      const { default: plugin } = await import('../src/plugin');
+      const action = plugin.actions?.find((a) => a.name === 'SEARCH_LISTINGS');
+
+      let response: any = null;
+      const callback = (async (content) => {
+        response = content;
+        return [];
+      }) as HandlerCallback;
+      await action.handler(
+        createMockRuntime(),
+        createMockMessage('2 bed apartment in Dubai Marina, only yielding at least 7%'),
+        createMockState(),
+        {},
+        callback
+      );
+
+      expect(response.text).toContain('AED 1500000** · est. 8.3% gross yield');
+      expect(response.text).not.toContain('https://x.ae/dear');
+      expect(response.text).toContain(
+        'I left out 1 listing with an estimated gross yield under 7%.'
+      );
+    });
+  });
+
+  describe('ANALYSE_PROPERTY_LINK rental branch', () => {
+    it('should benchmark the advertised rent and cite the closest contracts', async () => {
+      webhookResponse.current = { ...saleDetails, price: 140000 };
+      const response = await analyseLink(
+        'https://www.propertyfinder.ae/en/plp/rent/apartment-for-rent-dubai-dubai-marina-marina-gate-654321.html'
+      );
+
+      expect(response.text).toContain('Market check: **above market**');
+      expect(response.text).toContain('100th percentile of 3 comparable contracts');
+      expect(response.text).toContain('2-bed, 1,250 sqft: AED 125,000/yr (2023-09-01)');
+    });
+  });
+
+  describe('ANALYSE_PROPERTY_LINK rent or buy intent', () => {
+    const BAYUT_DETAILS = 'https://www.bayut.com/property/details-8123456.html';
+
+    it("should follow the user's intent when the advert doesn't say", async () => {
+      webhookResponse.current = { ...saleDetails, price: 140000 };
+      const response = await analyseLink(`I'm looking to rent, is this fair? ${BAYUT_DETAILS}`);
+
+      expect(response.text).toContain('Annual Rent: **AED 140,000**');
+      expect(response.text).toContain("so I've treated it as a rental as you asked");
+      expect(response.text).toContain('Market check: **above market**');
+    });
+
+    it('should default to a purchase and say so', async () => {
+      webhookResponse.current = saleDetails;
+      const response = await analyseLink(BAYUT_DETAILS);
+
+      expect(response.text).toContain('Asking Price: **AED 2,500,000**');
+      expect(response.text).toContain("so I've treated it as a purchase");
+    });
+
+    it("should keep the advert's own type over the message", async () => {
+      webhookResponse.current = saleDetails;
+      const response = await analyseLink(
+        `looking to rent https://www.propertyfinder.ae/en/plp/buy/apartment-for-sale-dubai-dubai-marina-marina-gate-123456.html`
+      );
+
+      expect(response.text).toContain('Investment Snapshot');
+      expect(response.text).not.toContain("I've treated it");
+    });
+  });
+
+  describe('ANALYSE_PROPERTY_LINK purchase branch', () => {
+    it('should show estimated rent, gross and net yield with confidence', async () => {
+      webhookResponse.current = saleDetails;
+      const response = await analyseLink(
+        'https://www.propertyfinder.ae/en/plp/buy/apartment-for-sale-dubai-dubai-marina-marina-gate-123456.html'
+      );
+
+      expect(response.text).toContain('Estimated annual rent: **AED 125,000**');
+      expect(response.text).toContain('Estimated gross yield: **5.0%**');
+      // 125,000 - 18,750 service charges - 6,250 vacancy - 6,250 management
+      expect(response.text).toContain('Estimated net yield: **3.8%**');
+      expect(response.text).toContain('3 comparable contracts matched on area, bedrooms and size');
+      expect(response.text).not.toContain('coming soon');
+    });
+
+    it("should deduct the building's own service charges when they're on record", async () => {
+      setServiceChargeStore(
+        new ServiceChargeStore(
+          parseServiceChargesCsv('community,building,rate_per_sqft\nDubai Marina,Marina Gate,20')
+        )
+      );
+      webhookResponse.current = saleDetails;
+      const response = await analyseLink(
+        'https://www.propertyfinder.ae/en/plp/buy/apartment-for-sale-dubai-dubai-marina-marina-gate-123456.html'
+      );
+      setServiceChargeStore(null);
+
+      expect(response.text).toContain(
+        '• Service charges: **AED 20/sqft** (Marina Gate rate), about AED 25,000/yr'
+      );
+      // 125,000 - 25,000 service charges - 6,250 vacancy - 6,250 management
+      expect(response.text).toContain('Estimated net yield: **3.5%**');
+    });
+  });
+});
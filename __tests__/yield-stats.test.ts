@@ -0,0 +1,91 @@
+import { describe, expect, it, vi, beforeAll, afterAll } from 'vitest';
+import plugin from '../src/plugin';
+import { logger } from '@elizaos/core';
+import type { HandlerCallback } from '@elizaos/core';
+import { RentalYieldStore, parseRentalYieldsCsv, setRentalYieldStore } from '../src/rental-yields';
+import {
+  createMockMessage,
+  createMockRuntime,
+  createMockState,
+  documentTestResult,
+} from './utils/core-test-utils';
+
+const SAMPLE_CSV = [
+  'area,property_type,bedrooms,size_sqft,annual_rent,transaction_price,contract_date',
+  'Jumeirah Village Circle,Apartment,Studio,400,42000,560000,2023-02-01',
+  'Jumeirah Village Circle,Apartment,Studio,420,45000,600000,2023-07-12',
+  'Jumeirah Village Circle,Apartment,Studio,380,40000,500000,2022-09-30',
+  'International City,Apartment,Studio,350,32000,330000,2023-06-15',
+  'Dubai Marina,Apartment,Studio,450,70000,1200000,2023-04-01',
+].join('\n');
+
+beforeAll(() => {
+  vi.spyOn(logger, 'info');
+  vi.spyOn(logger, 'warn');
+  setRentalYieldStore(new RentalYieldStore(parseRentalYieldsCsv(SAMPLE_CSV)));
+});
+
+afterAll(() => {
+  setRentalYieldStore(null);
+  vi.restoreAllMocks();
+});
+
+async function runAction(text: string) {
+  const action = plugin.actions?.find((a) => a.name === 'YIELD_STATS');
+  let response: any = null;
+  const callback = (async (content) => {
+    response = content;
+    return [];
+  }) as HandlerCallback;
+  await action.handler(
+    createMockRuntime(),
+    createMockMessage(text),
+    createMockState(),
+    {},
+    callback
+  );
+  return response;
+}
+
+describe('YIELD_STATS Action', () => {
+  const action = plugin.actions?.find((a) => a.name === 'YIELD_STATS');
+
+  it('should be registered next to the search action', () => {
+    expect(action).toBeDefined();
+    expect(action.examples.length).toBeGreaterThan(0);
+  });
+
+  it('should validate yield questions but not property links', async () => {
+    const runtime = createMockRuntime();
+    const state = createMockState();
+    expect(
+      await action.validate(runtime, createMockMessage('average yield for studios in JVC'), state)
+    ).toBe(true);
+    expect(
+      await action.validate(
+        runtime,
+        createMockMessage('yield on https://www.propertyfinder.ae/en/plp/buy/x-1.html'),
+        state
+      )
+    ).toBe(false);
+    expect(await action.validate(runtime, createMockMessage('hello there'), state)).toBe(false);
+  });
+
+  it('should compute median, sample size and the city-wide spread', async () => {
+    const response = await runAction('What was the average yield for studios in JVC in 2023?');
+
+    // JVC 2023 studios: 7.5% and 7.5%; city 2023 studios: 5.83%, 7.5%, 7.5%, 9.7%
+    expect(response.text).toContain('Studios in Jumeirah Village Circle (in 2023)');
+    expect(response.text).toContain('Median gross yield: **7.5%**');
+    expect(response.text).toContain('Sample size: 2 contracts');
+    expect(response.text).toContain('0.0 pp above');
+    expect(response.actions).toContain('YIELD_STATS');
+    documentTestResult('YIELD_STATS handler', response);
+  });
+
+  it('should fall back to all dates when the window has no contracts', async () => {
+    const response = await runAction('yield for studios in JVC in 2019');
+    expect(response.text).toContain('No contracts recorded in 2019');
+    expect(response.text).toContain('Sample size: 3 contracts');
+  });
+});
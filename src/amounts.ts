@@ -0,0 +1,151 @@
+export type AmountPeriod = "year" | "month";
+
+/**
+ * An AED amount read from text, with the period it was quoted for when the
+ * text gives one, e.g. "AED 8,500 a month".
+ */
+export interface Amount {
+  value: number;
+  period?: AmountPeriod;
+}
+
+export interface AmountRange {
+  min?: Amount;
+  max?: Amount;
+}
+
+const CURRENCY = "(?:aed|dhs?|dirhams?)";
+const NUMBER =
+  "(\\d{1,3}(?:,\\d{3})+(?:\\.\\d+)?|\\d+(?:\\.\\d+)?)(?!\\d|[.,]\\d)";
+const MULTIPLIER = "(k|thousand|mn|mil|mill|million|m|bn|billion)(?![\\w²])";
+const PERIOD =
+  "(?:\\s*(?:\\/|per|a|an|every)?\\s*(years?|yrs?|annum|annually|yearly|p\\.?a\\.?|months?|mths?|mo|monthly|pcm|p\\.?m\\.?)(?![a-z]))";
+
+// Numbers that are sizes, percentages or room counts rather than money
+const NOT_AN_AMOUNT =
+  "(?!\\s*-?\\s*(?:%|percent|sq|ft\\b|feet|foot|m²|m2\\b|square|beds?\\b|bedrooms?|br\\b|bd|bhk|bath))";
+
+const AMOUNT = `(?<![\\w.,])(?:${CURRENCY}\\s*)?${NUMBER}(?:\\s*${MULTIPLIER})?${NOT_AN_AMOUNT}(?:\\s*${CURRENCY}(?!\\w))?${PERIOD}?`;
+
+const MULTIPLIERS: Record<string, number> = {
+  k: 1000,
+  thousand: 1000,
+  m: 1000000,
+  mn: 1000000,
+  mil: 1000000,
+  mill: 1000000,
+  million: 1000000,
+  bn: 1000000000,
+  billion: 1000000000,
+};
+
+// Words before an amount that make it the top or bottom of a range
+const MAX_BEFORE =
+  /\b(?:under|below|less than|no more than|up to|upto|(?:max(?:imum)?|budget|price)(?:\s+price)?(?:\s+(?:down\s+|up\s+)?(?:of|is|to))?)\s*$/i;
+const MIN_BEFORE =
+  /\b(?:above|over|more than|at least|from|starting at|upwards of|min(?:imum)?(?:\s+price)?(?:\s+(?:up\s+)?(?:of|is|to))?)\s*$/i;
+const RANGE_JOINER = /^\s*(?:-|–|to|and)\s*$/i;
+
+interface AmountToken {
+  amount: Amount;
+  number: number;
+  multiplied: boolean;
+  start: number;
+  end: number;
+}
+
+function periodFrom(word: string | undefined): AmountPeriod | undefined {
+  if (!word) return undefined;
+  return /^(?:y|an|p\.?a)/i.test(word) ? "year" : "month";
+}
+
+function amountTokens(text: string): AmountToken[] {
+  return Array.from(text.matchAll(new RegExp(AMOUNT, "gi"))).map((match) => {
+    const number = parseFloat(match[1].replace(/,/g, ""));
+    const multiplier = match[2] ? MULTIPLIERS[match[2].toLowerCase()] : 1;
+    const period = periodFrom(match[3]);
+    return {
+      amount: {
+        value: Math.round(number * multiplier),
+        ...(period && { period }),
+      },
+      number,
+      multiplied: Boolean(match[2]),
+      start: match.index,
+      end: match.index + match[0].length,
+    };
+  });
+}
+
+/**
+ * Reads the first AED amount in text, e.g. "AED 1,450,000", "1.2M",
+ * "1.2 mn", "85k/yr" or "8,500 a month". Sizes, percentages and bedroom
+ * counts are skipped, and a bare "m" only counts as million when it follows
+ * the number directly.
+ */
+export function parseAed(text: string): Amount | null {
+  return amountTokens(text)[0]?.amount ?? null;
+}
+
+/**
+ * Every AED amount in text, in the order they appear.
+ */
+export function findAedAmounts(text: string): Amount[] {
+  return amountTokens(text).map((token) => token.amount);
+}
+
+/**
+ * The yearly figure for an amount: monthly amounts are multiplied by 12 and
+ * amounts without a period are taken as quoted.
+ */
+export function annualAed(amount: Amount): number {
+  return amount.period === "month" ? amount.value * 12 : amount.value;
+}
+
+/**
+ * Reads a price range from free text: "under 1.2M", "over 800k",
+ * "between 800k and 1.2M", "800k-1.2M" or "1-1.5M", where the second
+ * amount's multiplier carries over to a bare first one. A period on either
+ * end applies to both, so "8-10k a month" is monthly throughout. Resolves
+ * null when the text gives no price bounds.
+ */
+export function parseAedRange(text: string): AmountRange | null {
+  const tokens = amountTokens(text);
+  const range: AmountRange = {};
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const before = text.slice(i > 0 ? tokens[i - 1].end : 0, token.start);
+    const next = tokens[i + 1];
+
+    if (next && RANGE_JOINER.test(text.slice(token.end, next.start))) {
+      const joiner = text.slice(token.end, next.start).trim().toLowerCase();
+      if (joiner !== "and" || /\bbetween\s*$/i.test(before)) {
+        const low = { ...token.amount };
+        const high = { ...next.amount };
+        // "1-1.5M" means 1M to 1.5M, but "500-1.2M" stays AED 500
+        if (!token.multiplied && next.multiplied) {
+          const scaled = Math.round(
+            token.number * (next.amount.value / next.number),
+          );
+          if (scaled <= high.value) low.value = scaled;
+        }
+        const period = low.period ?? high.period;
+        if (period) {
+          low.period = period;
+          high.period = period;
+        }
+        range.min ??= low;
+        range.max ??= high;
+        i++;
+        continue;
+      }
+    }
+
+    // "min price" is checked first so its "price" isn't read as a budget
+    if (MIN_BEFORE.test(before)) range.min ??= token.amount;
+    else if (MAX_BEFORE.test(before)) range.max ??= token.amount;
+  }
+
+  return range.min || range.max ? range : null;
+}
@@ -0,0 +1,133 @@
+import { type IAgentRuntime, ModelType, logger } from "@elizaos/core";
+import { z } from "zod";
+import { resolvePlace } from "./gazetteer";
+import type { ListingSearchCriteria } from "./listing-sources";
+
+const amount = z.number().positive().nullish();
+
+/**
+ * The criteria the model may return. Every key is optional; a value of the
+ * wrong type fails the whole object so the regex parser is used instead.
+ */
+export const extractedCriteriaSchema = z
+  .object({
+    area: z.string().trim().min(1).nullish(),
+    propertyType: z.preprocess(
+      (value) => (typeof value === "string" ? value.toLowerCase() : value),
+      z.enum(["apartment", "villa", "townhouse", "penthouse"]).nullish(),
+    ),
+    bedrooms: z.preprocess(
+      (value) =>
+        typeof value === "string" && /^\d+$/.test(value.trim())
+          ? Number(value)
+          : value,
+      z.union([z.number().int().min(0).max(10), z.literal("studio")]).nullish(),
+    ),
+    minPrice: amount,
+    maxPrice: amount,
+    minSizeSqft: amount,
+    maxSizeSqft: amount,
+    furnished: z.boolean().nullish(),
+    purpose: z.enum(["rent", "sale"]).nullish(),
+    completionStatus: z.enum(["ready", "off_plan"]).nullish(),
+    yieldFloor: z.number().positive().max(100).nullish(),
+  })
+  .refine((c) => !c.minPrice || !c.maxPrice || c.minPrice <= c.maxPrice, {
+    message: "minPrice is above maxPrice",
+    path: ["minPrice"],
+  });
+
+function buildPrompt(text: string): string {
+  return `Extract property search criteria from a message sent to a Dubai real-estate assistant.
+Reply with one JSON object and nothing else. Use only these keys and leave out any the message doesn't state:
+- area: the community, written out in full, e.g. "Dubai Marina", "Jumeirah Village Circle", "Business Bay"
+- propertyType: "apartment", "villa", "townhouse" or "penthouse"
+- bedrooms: a number, or "studio"
+- minPrice, maxPrice: AED amounts as plain numbers, e.g. "one point two mil" is 1200000
+- minSizeSqft, maxSizeSqft: sizes in sqft as plain numbers, converting square metres
+- furnished: true or false
+- purpose: "rent" or "sale"
+- completionStatus: "ready" or "off_plan"
+- yieldFloor: the minimum gross yield in percent, e.g. 7
+
+Message: """${text}"""`;
+}
+
+// The JSON object in a model reply, with or without a ```json fence. Values
+// keep their JSON types, so a price given as "1.2M" fails validation.
+function parseJsonReply(reply: unknown): unknown {
+  if (typeof reply !== "string") return null;
+  const fenced = reply.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const body = fenced
+    ? fenced[1]
+    : reply.slice(reply.indexOf("{"), reply.lastIndexOf("}") + 1);
+  try {
+    return JSON.parse(body);
+  } catch {
+    return null;
+  }
+}
+
+// Copies a field the model returned, leaving out the ones it set to null
+function copyField<K extends keyof ListingSearchCriteria>(
+  target: ListingSearchCriteria,
+  source: { [P in K]?: ListingSearchCriteria[P] | null },
+  key: K,
+): void {
+  const value = source[key];
+  if (value !== null && value !== undefined) target[key] = value;
+}
+
+/**
+ * Reads search criteria from free text with the runtime's TEXT_SMALL model.
+ * Resolves null when no model is registered, the call fails, or the reply
+ * isn't a JSON object matching {@link extractedCriteriaSchema}, so callers
+ * can fall back to the regex parser.
+ */
+export async function extractCriteriaWithModel(
+  runtime: IAgentRuntime,
+  text: string,
+): Promise<ListingSearchCriteria | null> {
+  if (typeof runtime.useModel !== "function") return null;
+  if (
+    typeof runtime.getModel === "function" &&
+    !runtime.getModel(ModelType.TEXT_SMALL)
+  ) {
+    return null;
+  }
+
+  let reply: string;
+  try {
+    reply = await runtime.useModel(ModelType.TEXT_SMALL, {
+      prompt: buildPrompt(text),
+      temperature: 0,
+    });
+  } catch (error) {
+    logger.warn({ error }, "Criteria extraction model call failed");
+    return null;
+  }
+
+  const result = extractedCriteriaSchema.safeParse(parseJsonReply(reply));
+  if (!result.success) {
+    logger.warn(
+      "Criteria extraction model returned no valid criteria, using the regex parser",
+    );
+    return null;
+  }
+
+  const criteria: ListingSearchCriteria = {};
+  for (const key of Object.keys(
+    result.data,
+  ) as (keyof ListingSearchCriteria)[]) {
+    copyField(criteria, result.data, key);
+  }
+  // Use the gazetteer's spelling where it knows the place, e.g. "JVC"
+  if (criteria.area)
+    criteria.area = resolvePlace(criteria.area)?.name ?? criteria.area;
+  // The rest of the search code keeps bedrooms as text, e.g. "2" or "studio"
+  if (typeof criteria.bedrooms === "number") {
+    criteria.bedrooms =
+      criteria.bedrooms === 0 ? "studio" : String(criteria.bedrooms);
+  }
+  return criteria;
+}
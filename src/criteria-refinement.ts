@@ -0,0 +1,95 @@
+import type { ListingSearchCriteria } from "./listing-sources";
+import { type SavedSearchField, clearedFields } from "./saved-searches";
+
+// Openings that change the search whatever follows, e.g. "make it 3 beds"
+const REFINING_VERB =
+  "make it|switch|drop|lower|raise|reduce|increase|bump|what about|how about|remove|without";
+
+// A criterion named after "no", "any", "only" or "actually", e.g. "no budget",
+// "only villas" or "actually 3 beds", so replies like "no thanks" don't count
+const CRITERION =
+  "(?:the\\s+|a\\s+)?(?:\\d|(?:in|near|around|over|under|above|below|(?:more|less) than)\\s|(?:budget|limit|max(?:imum)?|min(?:imum)?|prices?|area|location|community|beds?|bedrooms?|studios?|type|size|sqft|yield|furnished|unfurnished|apartments?|flats?|villas?|townhouses?|penthouses?|off[- ]?plan|ready|for (?:rent|sale)|to (?:rent|buy))\\b)";
+
+// Messages that adjust the search on screen rather than start a new one,
+// e.g. "make it 3 beds", "drop the budget to 2M" or "villas instead". "change"
+// and "instead" need a criterion too, so "change of plans" and "I'll call the
+// agent instead" don't count
+export const REFINEMENT_PATTERN = new RegExp(
+  [
+    `^(?:(?:no|actually),?\\s+)?(?:${REFINING_VERB})\\b`,
+    `^(?:(?:no|actually),?\\s+)?change\\s+(?:it\\s+|that\\s+)?(?:to\\s+)?${CRITERION}`,
+    `^(?:no|any|only|actually),?\\s+${CRITERION}`,
+    `\\b${CRITERION}[^.!?]*\\binstead\\b`,
+  ].join("|"),
+  "i",
+);
+
+// A clause that lifts a filter rather than setting one, e.g. "any area" or "no budget"
+const CLEAR_CLAUSE =
+  /^(?:any|no|drop|remove|clear|without|forget|ignore|lose|don'?t care about)\b/i;
+
+function setCriterion<K extends keyof ListingSearchCriteria>(
+  criteria: ListingSearchCriteria,
+  key: K,
+  value: ListingSearchCriteria[K],
+): void {
+  criteria[key] = value;
+}
+
+export interface CriteriaRefinement {
+  criteria: ListingSearchCriteria;
+  /** Criteria given a new value */
+  changed: (keyof ListingSearchCriteria)[];
+  /** Criteria lifted altogether */
+  cleared: SavedSearchField[];
+}
+
+/**
+ * Merges a refinement message into the current criteria. `changes` holds
+ * the criteria read from the message; they replace the current values one
+ * by one, and everything else is kept. Clauses that lift a filter ("any
+ * area", "no budget", "drop the yield floor") clear it unless the same
+ * message sets a new value for it, so "any area near Downtown" moves the
+ * search to Downtown. A price or size range left inverted by the change
+ * loses its other end.
+ */
+export function refineCriteria(
+  current: ListingSearchCriteria,
+  text: string,
+  changes: ListingSearchCriteria,
+): CriteriaRefinement {
+  const criteria: ListingSearchCriteria = { ...current };
+  const changed: (keyof ListingSearchCriteria)[] = [];
+  for (const key of Object.keys(changes) as (keyof ListingSearchCriteria)[]) {
+    const value = changes[key];
+    if (value === undefined || value === null || value === "") continue;
+    if (criteria[key] !== value) changed.push(key);
+    setCriterion(criteria, key, value);
+  }
+
+  const cleared: SavedSearchField[] = [];
+  for (const clause of text.toLowerCase().split(/,|;|\band\b|\bbut\b/)) {
+    if (!CLEAR_CLAUSE.test(clause.trim())) continue;
+    for (const field of clearedFields(clause)) {
+      if (changes[field] !== undefined || criteria[field] === undefined)
+        continue;
+      delete criteria[field];
+      cleared.push(field);
+    }
+  }
+
+  const dropInverted = (
+    min: "minPrice" | "minSizeSqft",
+    max: "maxPrice" | "maxSizeSqft",
+  ) => {
+    if (!criteria[min] || !criteria[max] || criteria[min] <= criteria[max])
+      return;
+    const stale = changed.includes(max) ? min : max;
+    delete criteria[stale];
+    cleared.push(stale);
+  };
+  dropInverted("minPrice", "maxPrice");
+  dropInverted("minSizeSqft", "maxSizeSqft");
+
+  return { criteria, changed, cleared };
+}
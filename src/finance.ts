@@ -0,0 +1,303 @@
+import { type IAgentRuntime, logger } from "@elizaos/core";
+import { annualAed, findAedAmounts, parseAed } from "./amounts";
+
+export type Residency = "uae_national" | "resident" | "non_resident";
+
+export const DEFAULT_MORTGAGE_RATE = 4.5;
+export const DEFAULT_MORTGAGE_TERM_YEARS = 25;
+// The Central Bank caps home loans at 25 years
+export const MAX_MORTGAGE_TERM_YEARS = 25;
+
+// Price above which the first-home caps drop, per the Central Bank rules
+const HIGH_VALUE_THRESHOLD = 5000000;
+
+/**
+ * A purchase to finance. Rates are annual percentages.
+ */
+export interface MortgageScenario {
+  price: number;
+  residency: Residency;
+  firstHome: boolean;
+  offPlan?: boolean;
+  /** Deposit the buyer puts down; the smallest the LTV cap allows when omitted */
+  downPayment?: number;
+  annualRate: number;
+  termYears: number;
+}
+
+export interface MortgageResult {
+  scenario: MortgageScenario;
+  /** Highest loan-to-value allowed for the buyer, e.g. 0.8 */
+  maxLtv: number;
+  ltv: number;
+  loanAmount: number;
+  downPayment: number;
+  /** True when the requested deposit was under the minimum and was raised to it */
+  depositRaised: boolean;
+  monthlyPayment: number;
+  totalInterest: number;
+  totalRepaid: number;
+}
+
+export interface CashOnCashReturn {
+  netIncome: number;
+  annualDebtService: number;
+  annualCashFlow: number;
+  cashInvested: number;
+  /** Annual cash flow as a percentage of cash invested */
+  cashOnCash: number;
+}
+
+/**
+ * The highest loan-to-value a bank may lend at under the UAE Central Bank
+ * mortgage caps:
+ * - first home: 85% for nationals and 80% for residents, dropping to 70% and
+ *   65% above AED 5M
+ * - subsequent homes: 65% for nationals and 60% for residents
+ * - off-plan purchases: 50%
+ *
+ * Non-residents aren't covered by the caps; banks typically lend them up to
+ * 50%.
+ */
+export function maxLoanToValue(
+  price: number,
+  residency: Residency,
+  firstHome: boolean,
+  offPlan = false,
+): number {
+  if (offPlan || residency === "non_resident") return 0.5;
+  const national = residency === "uae_national";
+  if (!firstHome) return national ? 0.65 : 0.6;
+  if (price > HIGH_VALUE_THRESHOLD) return national ? 0.7 : 0.65;
+  return national ? 0.85 : 0.8;
+}
+
+/**
+ * Monthly repayment on an amortising loan, e.g. AED 1.2M at 4.5% over 25
+ * years is about AED 6,670.
+ */
+export function monthlyPayment(
+  loanAmount: number,
+  annualRate: number,
+  termYears: number,
+): number {
+  const months = termYears * 12;
+  const rate = annualRate / 100 / 12;
+  if (loanAmount <= 0 || months <= 0) return 0;
+  if (rate === 0) return loanAmount / months;
+  return (loanAmount * rate) / (1 - Math.pow(1 + rate, -months));
+}
+
+/**
+ * Works out the loan, deposit and repayments for a purchase. A deposit
+ * below what the LTV cap allows is raised to the minimum, and the term is
+ * capped at 25 years.
+ */
+export function calculateMortgage(scenario: MortgageScenario): MortgageResult {
+  const maxLtv = maxLoanToValue(
+    scenario.price,
+    scenario.residency,
+    scenario.firstHome,
+    scenario.offPlan,
+  );
+  const minimumDeposit = Math.round(scenario.price * (1 - maxLtv));
+  const requested = scenario.downPayment ?? minimumDeposit;
+  const downPayment = Math.min(
+    scenario.price,
+    Math.max(requested, minimumDeposit),
+  );
+  const termYears = Math.min(scenario.termYears, MAX_MORTGAGE_TERM_YEARS);
+
+  const loanAmount = scenario.price - downPayment;
+  const payment = monthlyPayment(loanAmount, scenario.annualRate, termYears);
+  const totalRepaid = payment * termYears * 12;
+
+  return {
+    scenario: { ...scenario, termYears },
+    maxLtv,
+    ltv: loanAmount / scenario.price,
+    loanAmount,
+    downPayment,
+    depositRaised: requested < minimumDeposit,
+    monthlyPayment: payment,
+    totalInterest: totalRepaid - loanAmount,
+    totalRepaid,
+  };
+}
+
+/**
+ * Cash-on-cash return: the yearly cash flow after repayments (net rental
+ * income minus twelve mortgage payments) over the cash put in, i.e. the
+ * deposit plus any upfront purchase costs.
+ */
+export function cashOnCashReturn(
+  mortgage: MortgageResult,
+  netIncome: number,
+  upfrontCosts = 0,
+): CashOnCashReturn {
+  const annualDebtService = mortgage.monthlyPayment * 12;
+  const annualCashFlow = netIncome - annualDebtService;
+  const cashInvested = mortgage.downPayment + upfrontCosts;
+  return {
+    netIncome,
+    annualDebtService,
+    annualCashFlow,
+    cashInvested,
+    cashOnCash: cashInvested > 0 ? (annualCashFlow / cashInvested) * 100 : 0,
+  };
+}
+
+/**
+ * The parts of a financing question a message states, e.g. "mortgage on a
+ * 1.5M flat at 4.2% over 20 years with 30% down, non-resident, rents for 90k".
+ */
+export interface FinanceRequest {
+  price?: number;
+  annualRate?: number;
+  termYears?: number;
+  downPayment?: number;
+  /** Deposit as a share of the price, e.g. 0.3 for "30% down" */
+  downPaymentShare?: number;
+  residency?: Residency;
+  firstHome?: boolean;
+  offPlan?: boolean;
+  annualRent?: number;
+}
+
+// The value after a keyword, up to the next clause, e.g. "300k" in
+// "deposit of 300k for a 2M flat"
+const CLAUSE_VALUE =
+  "([^,;]+?)(?=\\s+(?:for|on|with|and|at|over|but)\\b|[,;]|$)";
+
+export function parseFinanceRequest(text: string): FinanceRequest {
+  const request: FinanceRequest = {};
+  const lower = text.toLowerCase();
+  // Whatever's left once the deposit and rent are read holds the price
+  let rest = lower;
+
+  const rate = lower.match(
+    /(?:at|rate(?:\s+of)?|interest(?:\s+of)?)\s*(\d+(?:\.\d+)?)\s*%/,
+  );
+  if (rate) request.annualRate = parseFloat(rate[1]);
+
+  const term = lower.match(/(\d{1,2})[\s-]*(?:years?|yrs?)\b(?!\s*old)/);
+  if (term) request.termYears = parseInt(term[1], 10);
+
+  const share = lower.match(
+    /(\d{1,2}(?:\.\d+)?)\s*%\s*(?:down|deposit|down ?payment)/,
+  );
+  if (share) request.downPaymentShare = parseFloat(share[1]) / 100;
+  const deposit = lower.match(
+    new RegExp(
+      `(?:deposit|down ?payment|put(?:ting)? down)\\s*(?:of|is)?\\s*${CLAUSE_VALUE}`,
+    ),
+  );
+  const depositAmount = deposit && !share ? parseAed(deposit[1]) : null;
+  if (depositAmount) {
+    request.downPayment = depositAmount.value;
+    rest = rest.replace(deposit[0], "");
+  }
+
+  const rent = lower.match(
+    new RegExp(`\\brent(?:s|ing)?\\s*(?:for|of|at|is)?\\s*${CLAUSE_VALUE}`),
+  );
+  const rentAmount = rent ? parseAed(rent[1]) : null;
+  if (rentAmount) {
+    request.annualRent = annualAed(rentAmount);
+    rest = rest.replace(rent[0], "");
+  }
+
+  // Prices are quoted without a period and are at least six figures, which
+  // rules out terms ("20 years") and small sums
+  const price = findAedAmounts(rest).find(
+    (amount) => !amount.period && amount.value >= 100000,
+  );
+  if (price) request.price = price.value;
+
+  if (/\bnon[- ]?residents?\b|\bliving abroad\b|\boverseas\b/.test(lower)) {
+    request.residency = "non_resident";
+  } else if (/\b(?:uae national|emirati|national)\b/.test(lower)) {
+    request.residency = "uae_national";
+  } else if (/\b(?:resident|expat|live in (?:the uae|dubai))\b/.test(lower)) {
+    request.residency = "resident";
+  }
+
+  if (
+    /\b(?:second|2nd|third|another|subsequent|additional)\s+(?:home|property|house|flat|apartment|villa)\b|\balready own\b/.test(
+      lower,
+    )
+  ) {
+    request.firstHome = false;
+  } else if (
+    /\bfirst\s+(?:home|property|house|flat|apartment|villa)\b/.test(lower)
+  ) {
+    request.firstHome = true;
+  }
+  if (/\boff[- ]?plan\b/.test(lower)) request.offPlan = true;
+
+  return request;
+}
+
+/**
+ * The last sale listing a user had analysed, kept so "finance it" can fill
+ * in its price, size and rent estimate.
+ */
+export interface FinanceListing {
+  link: string;
+  title: string;
+  price: number;
+  /** Building and community, for looking up service charges */
+  location?: string;
+  /** Built-up area in sqft, if the advert gives one */
+  size?: number;
+  /** Net rental income estimated from comparable contracts, if any */
+  netIncome?: number;
+  /** Epoch milliseconds the listing was analysed */
+  analysedAt: number;
+}
+
+// How long an analysed listing stays available to "finance it"
+const FINANCE_LISTING_TTL_MS = 24 * 3600 * 1000;
+
+const financeListingKey = (userId: string) =>
+  `property-search:finance-listing:${userId}`;
+
+export async function rememberFinanceListing(
+  runtime: IAgentRuntime,
+  userId: string,
+  listing: FinanceListing,
+): Promise<void> {
+  try {
+    await runtime.setCache?.(financeListingKey(userId), listing);
+  } catch (error) {
+    logger.error(
+      { error },
+      `[rememberFinanceListing] Error storing the listing for ${userId}`,
+    );
+  }
+}
+
+/**
+ * The sale listing the user analysed within the last day, if any.
+ */
+export async function recallFinanceListing(
+  runtime: IAgentRuntime,
+  userId: string,
+  now: Date = new Date(),
+): Promise<FinanceListing | null> {
+  if (typeof runtime.getCache !== "function") return null;
+  try {
+    const listing = await runtime.getCache<FinanceListing>(
+      financeListingKey(userId),
+    );
+    if (!listing || now.getTime() - listing.analysedAt > FINANCE_LISTING_TTL_MS)
+      return null;
+    return listing;
+  } catch (error) {
+    logger.error(
+      { error },
+      `[recallFinanceListing] Error reading the listing for ${userId}`,
+    );
+    return null;
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Renders rows as a fixed-width table inside a code block, which keeps
+ * columns aligned in both Discord and Telegram.
+ */
+export function renderTable(headers: string[], rows: string[][]): string {
+  const widths = headers.map((header, col) =>
+    Math.max(header.length, ...rows.map((row) => (row[col] || "").length)),
+  );
+  const formatRow = (cells: string[]) =>
+    cells
+      .map((cell, col) => (cell || "").padEnd(widths[col]))
+      .join(" | ")
+      .trimEnd();
+
+  const divider = widths.map((width) => "-".repeat(width)).join("-+-");
+  return [
+    "```",
+    formatRow(headers),
+    divider,
+    ...rows.map(formatRow),
+    "```",
+  ].join("\n");
+}
+
+export function formatAed(value: number): string {
+  return `AED ${Math.round(value).toLocaleString("en-US")}`;
+}
+
+export function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Numbered listing lines with the link on its own line, wrapped in <> so
+ * Discord doesn't expand every link into an embed. Gross yields follow the
+ * price when known, marked "est." when estimated from comparable contracts.
+ */
+export function formatListings(
+  listings: {
+    title: string;
+    price: string;
+    link: string;
+    grossYield?: number;
+    estimatedYield?: number | null;
+  }[],
+  startIndex: number = 1,
+): string {
+  return listings
+    .map(
+      (listing, index) =>
+        `**${startIndex + index}. ${listing.title.replace(/\n/g, " ")} – ${String(listing.price).replace(/\n/g, " ")}**${formatListingYield(listing)}\n<${listing.link}>`,
+    )
+    .join("\n\n");
+}
+
+function formatListingYield(listing: {
+  grossYield?: number;
+  estimatedYield?: number | null;
+}) {
+  if (listing.grossYield !== undefined)
+    return ` · ${listing.grossYield.toFixed(1)}% gross yield`;
+  if (listing.estimatedYield === null) return " · yield not estimated";
+  if (listing.estimatedYield !== undefined) {
+    return ` · est. ${listing.estimatedYield.toFixed(1)}% gross yield`;
+  }
+  return "";
+}
+
+/**
+ * "page 2 of 4", or just "page 2" when the total number of matches isn't known.
+ */
+export function formatPageIndicator(
+  page: number,
+  total: number | null,
+  pageSize: number,
+): string {
+  return total === null
+    ? `page ${page}`
+    : `page ${page} of ${Math.max(1, Math.ceil(total / pageSize))}`;
+}
@@ -0,0 +1,252 @@
+export type PlaceLevel = "master" | "community" | "building";
+
+/**
+ * A named place in Dubai. Communities and buildings name the place they sit
+ * in, so figures can be rolled up from a building to its master community.
+ */
+export interface Place {
+  name: string;
+  level: PlaceLevel;
+  /** Name of the enclosing place, if any */
+  parent?: string;
+  aliases?: string[];
+  /**
+   * The name is also an everyday word ("Casa", "Maple"), so free text only
+   * counts it after a location word or alongside the place it sits in
+   */
+  generic?: boolean;
+}
+
+const master = (name: string, ...aliases: string[]): Place => ({
+  name,
+  level: "master",
+  aliases,
+});
+const community = (
+  name: string,
+  parent: string,
+  ...aliases: string[]
+): Place => ({
+  name,
+  level: "community",
+  parent,
+  aliases,
+});
+const building = (
+  name: string,
+  parent: string,
+  ...aliases: string[]
+): Place => ({
+  name,
+  level: "building",
+  parent,
+  aliases,
+});
+const generic = (place: Place): Place => ({ ...place, generic: true });
+
+export const PLACES: Place[] = [
+  master("Dubai Marina", "marina", "the marina", "marina walk"),
+  building("Marina Gate", "Dubai Marina"),
+  building("Cayan Tower", "Dubai Marina", "cayan"),
+  building("Princess Tower", "Dubai Marina"),
+  master("Jumeirah Beach Residence", "jbr"),
+  community("Bahar", "Jumeirah Beach Residence"),
+  community("Rimal", "Jumeirah Beach Residence"),
+  community("Sadaf", "Jumeirah Beach Residence"),
+  generic(community("Shams", "Jumeirah Beach Residence")),
+  community("Amwaj", "Jumeirah Beach Residence"),
+  community("Murjan", "Jumeirah Beach Residence"),
+  master("Jumeirah Lake Towers", "jlt", "jumeirah lakes towers"),
+  master("Dubai Harbour", "emaar beachfront"),
+  master("Bluewaters Island", "bluewaters"),
+  master("Palm Jumeirah", "the palm"),
+  community("Shoreline Apartments", "Palm Jumeirah"),
+  community("Palm Fronds", "Palm Jumeirah", "the fronds", "frond"),
+  generic(community("Oceana", "Palm Jumeirah")),
+  master("Downtown Dubai", "downtown"),
+  community("Old Town", "Downtown Dubai"),
+  community("Opera District", "Downtown Dubai"),
+  building("Burj Khalifa", "Downtown Dubai"),
+  building("Burj Royale", "Downtown Dubai"),
+  building("Address Boulevard", "Downtown Dubai"),
+  master("Business Bay"),
+  building("Executive Towers", "Business Bay"),
+  building("Upside Living", "Business Bay"),
+  master("Dubai International Financial Centre", "difc"),
+  master("City Walk"),
+  master("Jumeirah Village Circle", "jvc", "jumeirah village"),
+  building("Bloom Towers", "Jumeirah Village Circle"),
+  master("Jumeirah Village Triangle", "jvt"),
+  master("Al Furjan", "furjan"),
+  master("Discovery Gardens"),
+  master("The Gardens", "jebel ali gardens"),
+  master("Jebel Ali", "jebel ali village"),
+  master("Dubai Production City", "impz"),
+  master("Dubai Sports City", "sports city"),
+  master("Motor City"),
+  master("Dubai Investments Park"),
+  master("Jumeirah Golf Estates", "jge"),
+  master("Emirates Living", "the greens and views"),
+  community("The Greens", "Emirates Living"),
+  generic(community("The Views", "Emirates Living")),
+  community("The Springs", "Emirates Living"),
+  community("The Meadows", "Emirates Living"),
+  generic(community("The Lakes", "Emirates Living")),
+  master("Emirates Hills"),
+  master("Arabian Ranches"),
+  master("Arabian Ranches 2", "ar2"),
+  community("Samara", "Arabian Ranches 2"),
+  generic(community("Rosa", "Arabian Ranches 2")),
+  generic(community("Yasmin", "Arabian Ranches 2")),
+  generic(community("Lila", "Arabian Ranches 2")),
+  generic(community("Azalea", "Arabian Ranches 2")),
+  generic(community("Palma", "Arabian Ranches 2")),
+  community("Rasha", "Arabian Ranches 2"),
+  generic(community("Casa", "Arabian Ranches 2")),
+  master("Arabian Ranches 3", "ar3"),
+  master("Damac Hills", "akoya"),
+  master("Damac Hills 2", "akoya oxygen"),
+  master("Town Square"),
+  master("Dubailand"),
+  master("Dubai Hills Estate", "dubai hills"),
+  community("Park Heights", "Dubai Hills Estate"),
+  generic(community("Maple", "Dubai Hills Estate")),
+  generic(community("Sidra", "Dubai Hills Estate")),
+  community("Golf Place", "Dubai Hills Estate"),
+  master("Mohammed Bin Rashid City", "mbr city", "mbr", "mbrc"),
+  community("Sobha Hartland", "Mohammed Bin Rashid City", "hartland"),
+  community("District One", "Mohammed Bin Rashid City"),
+  master("Meydan"),
+  master("Dubai Creek Harbour", "creek harbour", "dubai creek"),
+  master("Dubai Silicon Oasis", "dso", "silicon oasis"),
+  master("International City"),
+  master("Mirdif", "mirdiff"),
+  master("Al Barsha", "barsha"),
+  master("Al Quoz"),
+  master("Al Sufouh", "sufouh"),
+  master("Al Wasl"),
+  master("Jumeirah"),
+  master("Umm Suqeim"),
+  master("Zabeel", "za'abeel"),
+  master("Deira"),
+  master("Bur Dubai"),
+  master("Dubai South", "dubai world central", "dwc"),
+];
+
+/**
+ * Normalises an area name so that "Dubai Marina", "dubai-marina" and
+ * " DUBAI MARINA " share the same key.
+ */
+export function normaliseAreaKey(area: string): string {
+  return area
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+// Every name and alias, normalised, mapped to its place
+const index = new Map<string, Place>();
+for (const place of PLACES) {
+  for (const phrase of [place.name, ...(place.aliases || [])]) {
+    index.set(normaliseAreaKey(phrase), place);
+  }
+}
+
+const byName = new Map(PLACES.map((place) => [place.name, place]));
+
+// Words that mark what follows as a place, e.g. "villa in Casa"
+const LOCATION_WORDS = ["in", "at", "near", "around"];
+
+// Whether a normalised name or alias is mentioned in padded, normalised text.
+// Generic names also need a location word before them or their enclosing
+// place alongside, unless they make up the whole text.
+function mentions(haystack: string, phrase: string, place: Place): boolean {
+  if (!haystack.includes(` ${phrase} `)) return false;
+  if (!place.generic || haystack === ` ${phrase} `) return true;
+  if (LOCATION_WORDS.some((word) => haystack.includes(` ${word} ${phrase} `)))
+    return true;
+  return placeLineage(place.name)
+    .slice(1)
+    .some((parent) =>
+      [parent.name, ...(parent.aliases || [])].some((name) =>
+        haystack.includes(` ${normaliseAreaKey(name)} `),
+      ),
+    );
+}
+
+/**
+ * Looks up a place by its name or an alias, e.g. "jvc" → Jumeirah Village Circle.
+ */
+export function findPlace(name: string): Place | null {
+  return index.get(normaliseAreaKey(name)) || null;
+}
+
+/**
+ * Finds the place mentioned in free text, preferring the longest name or
+ * alias, so "Jumeirah Village Circle" resolves to JVC rather than
+ * Jumeirah, and "Arabian Ranches 2" to itself rather than Arabian Ranches.
+ * Generic names such as "Casa" only count as places in context ("villa in
+ * Casa", "Casa AR2"). `phrase` is the normalised text that matched.
+ */
+export function matchPlace(
+  text: string,
+): { place: Place; phrase: string } | null {
+  const haystack = ` ${normaliseAreaKey(text)} `;
+  let best: { place: Place; phrase: string } | null = null;
+  for (const [phrase, place] of index) {
+    if (
+      (!best || phrase.length > best.phrase.length) &&
+      mentions(haystack, phrase, place)
+    ) {
+      best = { place, phrase };
+    }
+  }
+  return best;
+}
+
+export function resolvePlace(text: string): Place | null {
+  return matchPlace(text)?.place ?? null;
+}
+
+/**
+ * The place and each place enclosing it, innermost first, e.g.
+ * Marina Gate → Dubai Marina. Empty for names the gazetteer doesn't know.
+ */
+export function placeLineage(name: string): Place[] {
+  const lineage: Place[] = [];
+  for (
+    let place = findPlace(name);
+    place;
+    place = place.parent ? byName.get(place.parent) : null
+  ) {
+    lineage.push(place);
+  }
+  return lineage;
+}
+
+/**
+ * Names of every place inside the named one, at any depth, for rolling
+ * figures up to it.
+ */
+export function placesWithin(name: string): string[] {
+  const root = findPlace(name);
+  if (!root) return [];
+  const names: string[] = [];
+  const visit = (parent: string) => {
+    for (const place of PLACES) {
+      if (place.parent === parent) {
+        names.push(place.name);
+        visit(place.name);
+      }
+    }
+  };
+  visit(root.name);
+  return names;
+}
+
+/**
+ * The master community a place belongs to, or the place itself at the top.
+ */
+export function masterCommunity(name: string): Place | null {
+  return placeLineage(name).at(-1) ?? null;
+}
@@ -0,0 +1,416 @@
+import {
+  type IAgentRuntime,
+  type TargetInfo,
+  Service,
+  logger,
+} from "@elizaos/core";
+import { formatListings } from "./format";
+import type { ListingSummary } from "./listing-schema";
+import {
+  DEFAULT_PAGE_SIZE,
+  getListingSource,
+  hasMorePages,
+} from "./listing-sources";
+import { getRentalYieldStore } from "./rental-yields";
+import { type SavedSearchCriteria, getActiveSearch } from "./saved-searches";
+import { applyYieldFloor } from "./yield-estimate";
+
+export const ALERT_SETTINGS_TABLE_SQL = `
+  CREATE TABLE IF NOT EXISTS alert_settings (
+    user_id TEXT PRIMARY KEY,
+    source TEXT NOT NULL,
+    room_id TEXT,
+    entity_id TEXT,
+    frequency_hours REAL NOT NULL DEFAULT 24,
+    quiet_start INTEGER,
+    quiet_end INTEGER,
+    enabled INTEGER NOT NULL DEFAULT 1,
+    last_checked_at INTEGER
+  )
+`;
+
+export const SHOWN_LISTINGS_TABLE_SQL = `
+  CREATE TABLE IF NOT EXISTS shown_listings (
+    user_id TEXT NOT NULL,
+    link TEXT NOT NULL,
+    shown_at INTEGER NOT NULL,
+    PRIMARY KEY (user_id, link)
+  )
+`;
+
+// Quiet hours are given in Dubai local time, which has no daylight saving
+const LOCAL_UTC_OFFSET_HOURS = 4;
+const DEFAULT_CHECK_MINUTES = 15;
+// Result pages an alert check reads at most, should a search keep turning up new listings
+const MAX_ALERT_PAGES = 5;
+
+export interface AlertSettings {
+  userId: string;
+  source: string;
+  roomId?: string;
+  entityId?: string;
+  frequencyHours: number;
+  /** Local hour (0–23) quiet hours start, null when there are none */
+  quietStart: number | null;
+  /** Local hour (0–23) quiet hours end */
+  quietEnd: number | null;
+  enabled: boolean;
+  lastCheckedAt: Date | null;
+}
+
+export interface AlertRequest {
+  enabled?: boolean;
+  frequencyHours?: number;
+  quietStart?: number | null;
+  quietEnd?: number | null;
+}
+
+function toHour(value: string, meridiem?: string): number {
+  let hour = parseInt(value, 10) % 24;
+  if (meridiem?.toLowerCase() === "pm" && hour < 12) hour += 12;
+  if (meridiem?.toLowerCase() === "am" && hour === 12) hour = 0;
+  return hour;
+}
+
+/**
+ * Reads alert preferences from a message, e.g. "alert me daily",
+ * "notify me every 6 hours, quiet hours 10pm-8am" or "stop alerts".
+ */
+export function parseAlertRequest(text: string): AlertRequest {
+  const lower = text.toLowerCase();
+  const request: AlertRequest = {};
+
+  if (/\b(?:stop|pause|disable|turn off|cancel|unsubscribe)\b/.test(lower)) {
+    request.enabled = false;
+    return request;
+  }
+
+  const everyMatch = lower.match(
+    /every\s+(\d+(?:\.\d+)?)\s*(hour|hr|h|day|week)s?\b/,
+  );
+  if (everyMatch) {
+    const multiplier =
+      everyMatch[2] === "day" ? 24 : everyMatch[2] === "week" ? 168 : 1;
+    request.frequencyHours = Number(everyMatch[1]) * multiplier;
+  } else if (/\bhourly\b|every hour/.test(lower)) {
+    request.frequencyHours = 1;
+  } else if (/\bdaily\b|every day|once a day/.test(lower)) {
+    request.frequencyHours = 24;
+  } else if (/\bweekly\b|every week|once a week/.test(lower)) {
+    request.frequencyHours = 168;
+  }
+
+  if (/no quiet hours/.test(lower)) {
+    request.quietStart = null;
+    request.quietEnd = null;
+  } else {
+    const quietMatch = lower.match(
+      /(?:quiet hours?|not between|don't (?:message|notify|alert) me between)\s*(?:from\s*)?(\d{1,2})(?::00)?\s*(am|pm)?\s*(?:-|–|to|and)\s*(\d{1,2})(?::00)?\s*(am|pm)?/,
+    );
+    if (quietMatch) {
+      request.quietStart = toHour(quietMatch[1], quietMatch[2]);
+      request.quietEnd = toHour(quietMatch[3], quietMatch[4]);
+    }
+  }
+
+  if (request.enabled === undefined) request.enabled = true;
+  return request;
+}
+
+/**
+ * True when `now` falls inside the user's quiet hours (Dubai time). A window
+ * such as 22–8 wraps past midnight.
+ */
+export function isQuietHour(
+  settings: AlertSettings,
+  now: Date = new Date(),
+): boolean {
+  const { quietStart, quietEnd } = settings;
+  if (quietStart === null || quietEnd === null || quietStart === quietEnd)
+    return false;
+  const hour = (now.getUTCHours() + LOCAL_UTC_OFFSET_HOURS) % 24;
+  return quietStart < quietEnd
+    ? hour >= quietStart && hour < quietEnd
+    : hour >= quietStart || hour < quietEnd;
+}
+
+export function isAlertDue(
+  settings: AlertSettings,
+  now: Date = new Date(),
+): boolean {
+  if (!settings.enabled) return false;
+  if (!settings.lastCheckedAt) return true;
+  return (
+    now.getTime() - settings.lastCheckedAt.getTime() >=
+    settings.frequencyHours * 3600 * 1000
+  );
+}
+
+function rowToSettings(row: any): AlertSettings {
+  return {
+    userId: row.user_id,
+    source: row.source,
+    roomId: row.room_id || undefined,
+    entityId: row.entity_id || undefined,
+    frequencyHours: Number(row.frequency_hours),
+    quietStart:
+      row.quiet_start === null || row.quiet_start === undefined
+        ? null
+        : Number(row.quiet_start),
+    quietEnd:
+      row.quiet_end === null || row.quiet_end === undefined
+        ? null
+        : Number(row.quiet_end),
+    enabled: Boolean(Number(row.enabled)),
+    lastCheckedAt: row.last_checked_at
+      ? new Date(Number(row.last_checked_at))
+      : null,
+  };
+}
+
+export async function getAlertSettings(
+  runtime: IAgentRuntime,
+  userId: string,
+): Promise<AlertSettings | null> {
+  const sql = (runtime as any).sql;
+  if (!sql) return null;
+
+  const rows = await sql.query(
+    `SELECT * FROM alert_settings WHERE user_id = ?`,
+    [userId],
+  );
+  return rows && rows.length > 0 ? rowToSettings(rows[0]) : null;
+}
+
+export async function saveAlertSettings(
+  runtime: IAgentRuntime,
+  settings: AlertSettings,
+): Promise<void> {
+  const sql = (runtime as any).sql;
+  if (!sql) throw new Error("Alert settings need the SQL plugin");
+
+  await sql.query(
+    `INSERT INTO alert_settings (
+      user_id, source, room_id, entity_id, frequency_hours, quiet_start, quiet_end, enabled, last_checked_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT (user_id) DO UPDATE SET
+      source = excluded.source,
+      room_id = excluded.room_id,
+      entity_id = excluded.entity_id,
+      frequency_hours = excluded.frequency_hours,
+      quiet_start = excluded.quiet_start,
+      quiet_end = excluded.quiet_end,
+      enabled = excluded.enabled,
+      last_checked_at = excluded.last_checked_at`,
+    [
+      settings.userId,
+      settings.source,
+      settings.roomId ?? null,
+      settings.entityId ?? null,
+      settings.frequencyHours,
+      settings.quietStart,
+      settings.quietEnd,
+      settings.enabled ? 1 : 0,
+      settings.lastCheckedAt?.getTime() ?? null,
+    ],
+  );
+}
+
+/**
+ * Remembers which listing links a user has already been shown, so alerts
+ * only push listings they haven't seen.
+ */
+export async function recordShownListings(
+  runtime: IAgentRuntime,
+  userId: string,
+  links: string[],
+  now: Date = new Date(),
+): Promise<void> {
+  const sql = (runtime as any).sql;
+  if (!sql || links.length === 0) return;
+
+  try {
+    for (const link of links) {
+      await sql.query(
+        `INSERT INTO shown_listings (user_id, link, shown_at) VALUES (?, ?, ?)
+          ON CONFLICT (user_id, link) DO NOTHING`,
+        [userId, link, now.getTime()],
+      );
+    }
+  } catch (error) {
+    logger.error({ error }, "Error recording shown listings");
+  }
+}
+
+export async function filterUnseenListings<T extends ListingSummary>(
+  runtime: IAgentRuntime,
+  userId: string,
+  listings: T[],
+): Promise<T[]> {
+  const sql = (runtime as any).sql;
+  if (!sql || listings.length === 0) return listings;
+
+  const rows = await sql.query(
+    `SELECT link FROM shown_listings WHERE user_id = ?`,
+    [userId],
+  );
+  const seen = new Set((rows || []).map((row: any) => row.link));
+  return listings.filter((listing) => !seen.has(listing.link));
+}
+
+/**
+ * Periodically re-runs each subscribed user's saved search and pushes
+ * listings they haven't been shown yet to the channel they subscribed from.
+ */
+export class ListingAlertService extends Service {
+  static serviceType = "listing-alerts";
+  capabilityDescription =
+    "Re-runs saved property searches on a schedule and sends users new matching listings.";
+
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private checking = false;
+
+  constructor(protected runtime: IAgentRuntime) {
+    super(runtime);
+  }
+
+  static async start(runtime: IAgentRuntime) {
+    logger.info("*** Starting listing alert service ***");
+    const service = new ListingAlertService(runtime);
+    const minutes =
+      Number(process.env.LISTING_ALERT_CHECK_MINUTES) || DEFAULT_CHECK_MINUTES;
+    service.timer = setInterval(
+      () => {
+        service
+          .checkAlerts()
+          .catch((error) =>
+            logger.error({ error }, "Error checking listing alerts"),
+          );
+      },
+      minutes * 60 * 1000,
+    );
+    // Don't keep the process alive just for alerts
+    service.timer.unref?.();
+    return service;
+  }
+
+  static async stop(runtime: IAgentRuntime) {
+    logger.info("*** Stopping listing alert service ***");
+    const service = runtime.getService(ListingAlertService.serviceType);
+    if (!service) {
+      throw new Error("Listing alert service not found");
+    }
+    service.stop();
+  }
+
+  async stop() {
+    logger.info("*** Stopping listing alert service instance ***");
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Runs every due, enabled alert outside its quiet hours. Returns the number
+   * of alert messages sent.
+   */
+  async checkAlerts(now: Date = new Date()): Promise<number> {
+    const sql = (this.runtime as any)?.sql;
+    if (!sql || this.checking) return 0;
+
+    this.checking = true;
+    let sent = 0;
+    try {
+      const rows = await sql.query(
+        `SELECT * FROM alert_settings WHERE enabled = 1`,
+        [],
+      );
+      for (const settings of (rows || []).map(rowToSettings)) {
+        if (!isAlertDue(settings, now) || isQuietHour(settings, now)) continue;
+        try {
+          if (await this.runAlert(settings, now)) sent++;
+        } catch (error) {
+          logger.error(
+            { error },
+            `Error running listing alert for ${settings.userId}`,
+          );
+        }
+      }
+    } finally {
+      this.checking = false;
+    }
+    return sent;
+  }
+
+  private async runAlert(settings: AlertSettings, now: Date): Promise<boolean> {
+    const search = await getActiveSearch(this.runtime, settings.userId);
+    await saveAlertSettings(this.runtime, { ...settings, lastCheckedAt: now });
+    if (!search) return false;
+
+    const unseen = await this.findUnseenListings(
+      settings.userId,
+      search.criteria,
+    );
+    if (unseen.length === 0) return false;
+
+    const target: TargetInfo = {
+      source: settings.source,
+      roomId: settings.roomId as TargetInfo["roomId"],
+      entityId: settings.entityId as TargetInfo["entityId"],
+    };
+    await this.runtime.sendMessageToTarget(target, {
+      text: `New listings for your saved search "${search.name}":\n\n${formatListings(unseen)}\n\nSay "stop alerts" to pause these updates.`,
+      actions: ["LISTING_ALERTS"],
+      source: settings.source,
+    });
+    await recordShownListings(
+      this.runtime,
+      settings.userId,
+      unseen.map((listing) => listing.link),
+      now,
+    );
+    logger.info(`Sent ${unseen.length} new listings to ${settings.userId}`);
+    return true;
+  }
+
+  // Pages through a saved search until a page turns up nothing the user
+  // hasn't seen, the results run out, or MAX_ALERT_PAGES have been read
+  private async findUnseenListings(
+    userId: string,
+    criteria: SavedSearchCriteria,
+  ): Promise<ListingSummary[]> {
+    const unseen: ListingSummary[] = [];
+    const links = new Set<string>();
+    let offset = 0;
+    let cursor: string | null = null;
+
+    for (let page = 1; page <= MAX_ALERT_PAGES; page++) {
+      const result = await getListingSource().search(criteria, {
+        limit: DEFAULT_PAGE_SIZE,
+        offset,
+        cursor,
+      });
+      const { listings } = applyYieldFloor(
+        getRentalYieldStore(),
+        result.listings,
+        criteria,
+      );
+      const fresh = (
+        await filterUnseenListings(this.runtime, userId, listings)
+      ).filter((listing) => !links.has(listing.link));
+      for (const listing of fresh) {
+        links.add(listing.link);
+        unseen.push(listing);
+      }
+
+      offset += DEFAULT_PAGE_SIZE;
+      cursor = result.nextCursor;
+      if (
+        !hasMorePages(result, DEFAULT_PAGE_SIZE) ||
+        (listings.length > 0 && fresh.length === 0)
+      ) {
+        break;
+      }
+    }
+    return unseen;
+  }
+}
@@ -0,0 +1,112 @@
+import { type IAgentRuntime, logger } from "@elizaos/core";
+import { type PropertyDetails, propertyDetailsSchema } from "./listing-schema";
+
+export const DEFAULT_LISTING_CACHE_TTL_HOURS = 24;
+
+export const LISTING_CACHE_TABLE_SQL = `
+  CREATE TABLE IF NOT EXISTS listing_cache (
+    listing_id TEXT PRIMARY KEY,
+    portal TEXT NOT NULL,
+    link TEXT NOT NULL,
+    details_json TEXT NOT NULL,
+    fetched_at INTEGER NOT NULL
+  )
+`;
+
+export interface CachedListing {
+  details: PropertyDetails;
+  fetchedAt: Date;
+}
+
+/**
+ * Cache lifetime from LISTING_CACHE_TTL_HOURS, defaulting to a day.
+ */
+export function listingCacheTtlMs(): number {
+  const hours = Number(process.env.LISTING_CACHE_TTL_HOURS);
+  return (
+    (Number.isFinite(hours) && hours >= 0
+      ? hours
+      : DEFAULT_LISTING_CACHE_TTL_HOURS) *
+    3600 *
+    1000
+  );
+}
+
+/**
+ * Returns the cached details for a listing if they were fetched within the
+ * TTL. Rows that no longer match the details schema are treated as misses.
+ */
+export async function getCachedListing(
+  runtime: IAgentRuntime,
+  listingId: string,
+  now: Date = new Date(),
+  ttlMs: number = listingCacheTtlMs(),
+): Promise<CachedListing | null> {
+  const sql = (runtime as any).sql;
+  if (!sql || ttlMs <= 0) return null;
+
+  try {
+    const rows = await sql.query(
+      `SELECT details_json, fetched_at FROM listing_cache WHERE listing_id = ? AND fetched_at >= ?`,
+      [listingId, now.getTime() - ttlMs],
+    );
+    if (!rows || rows.length === 0) return null;
+
+    const parsed = propertyDetailsSchema.safeParse(
+      JSON.parse(rows[0].details_json),
+    );
+    if (!parsed.success) {
+      logger.warn(
+        `[getCachedListing] Ignoring cached ${listingId} that no longer validates`,
+      );
+      return null;
+    }
+    return {
+      details: parsed.data,
+      fetchedAt: new Date(Number(rows[0].fetched_at)),
+    };
+  } catch (error) {
+    logger.error(
+      { error },
+      `[getCachedListing] Error reading cached listing ${listingId}`,
+    );
+    return null;
+  }
+}
+
+/**
+ * Stores freshly fetched details, replacing any earlier copy of the listing.
+ */
+export async function cacheListing(
+  runtime: IAgentRuntime,
+  listingId: string,
+  details: PropertyDetails,
+  now: Date = new Date(),
+): Promise<void> {
+  const sql = (runtime as any).sql;
+  if (!sql) return;
+
+  try {
+    await sql.query(
+      `INSERT INTO listing_cache (listing_id, portal, link, details_json, fetched_at)
+        VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT (listing_id) DO UPDATE SET
+          portal = excluded.portal,
+          link = excluded.link,
+          details_json = excluded.details_json,
+          fetched_at = excluded.fetched_at`,
+      [
+        listingId,
+        details.portal,
+        details.link,
+        JSON.stringify(details),
+        now.getTime(),
+      ],
+    );
+  } catch (error) {
+    logger.error(
+      { error },
+      `[cacheListing] Error caching listing ${listingId}`,
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import type { ListingSummary } from "./listing-schema";
+import type { ListingSearchCriteria } from "./listing-sources";
+import { parseBedrooms } from "./rental-yields";
+
+/**
+ * Whether a search result satisfies the criteria. Backends don't always
+ * send every detail back, and a listing is only ruled out by a detail it
+ * has: one without a size passes a size filter.
+ */
+export function matchesCriteria(
+  listing: ListingSummary,
+  criteria: ListingSearchCriteria,
+): boolean {
+  const bedrooms = parseBedrooms(criteria.bedrooms);
+  if (
+    bedrooms !== null &&
+    listing.bedrooms !== undefined &&
+    listing.bedrooms !== bedrooms
+  ) {
+    return false;
+  }
+  if (
+    criteria.propertyType &&
+    listing.propertyType &&
+    listing.propertyType !== criteria.propertyType.toLowerCase()
+  ) {
+    return false;
+  }
+
+  if (listing.priceAed !== null) {
+    if (criteria.maxPrice && listing.priceAed > criteria.maxPrice) return false;
+    if (criteria.minPrice && listing.priceAed < criteria.minPrice) return false;
+  }
+  if (listing.sizeSqft !== undefined) {
+    if (criteria.maxSizeSqft && listing.sizeSqft > criteria.maxSizeSqft)
+      return false;
+    if (criteria.minSizeSqft && listing.sizeSqft < criteria.minSizeSqft)
+      return false;
+  }
+
+  if (criteria.furnished !== undefined && listing.furnishing) {
+    // Partly furnished counts as furnished
+    if (criteria.furnished !== (listing.furnishing !== "NO")) return false;
+  }
+  if (
+    criteria.purpose &&
+    listing.purpose &&
+    listing.purpose !== criteria.purpose
+  )
+    return false;
+  if (
+    criteria.completionStatus &&
+    listing.completionStatus &&
+    listing.completionStatus !== criteria.completionStatus
+  ) {
+    return false;
+  }
+  if (criteria.yieldFloor && listing.grossYield !== undefined) {
+    if (listing.grossYield < criteria.yieldFloor) return false;
+  }
+  return true;
+}
+
+export function filterListings(
+  listings: ListingSummary[],
+  criteria: ListingSearchCriteria,
+): ListingSummary[] {
+  return listings.filter((listing) => matchesCriteria(listing, criteria));
+}
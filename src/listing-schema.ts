@@ -0,0 +1,174 @@
+import { z } from "zod";
+import { annualAed, parseAed } from "./amounts";
+import { formatAed } from "./format";
+import { SQM_TO_SQFT, parseBedrooms } from "./rental-yields";
+
+/**
+ * Raised when a listing payload is missing a field the analysis needs, or
+ * the field can't be read. `field` names the offending property.
+ */
+export class ListingValidationError extends Error {
+  constructor(
+    readonly field: string,
+    readonly link?: string,
+  ) {
+    super(
+      `Listing data is missing a valid ${field}${link ? ` for ${link}` : ""}`,
+    );
+    this.name = "ListingValidationError";
+  }
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  price: "price",
+  size: "size",
+  bedrooms: "bedroom count",
+  bathrooms: "bathroom count",
+  furnishing: "furnishing status",
+  purpose: "rent or sale type",
+};
+
+/**
+ * A user-facing name for a listing field, e.g. "bedrooms" -> "bedroom count".
+ */
+export function describeListingField(field: string): string {
+  return FIELD_LABELS[field] ?? field;
+}
+
+/**
+ * Reads an amount such as 1450000, "AED 1,450,000", "1.2M" or "95k yearly".
+ * Amounts quoted per month, e.g. "AED 8,500/month", are given per year.
+ */
+export function parseAmount(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value !== "string") return null;
+  const amount = parseAed(value);
+  return amount ? annualAed(amount) : null;
+}
+
+/**
+ * Reads a percentage such as 6.5 or "6.5%".
+ */
+export function parsePercent(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value !== "string") return null;
+  const match = value.match(/\d+(?:\.\d+)?/);
+  return match ? Number(match[0]) : null;
+}
+
+/**
+ * Reads a size in sqft, converting values given in square metres,
+ * e.g. "1,200 sqft" -> 1200, "111 sqm" -> 1195.
+ */
+export function parseSizeSqft(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value !== "string") return null;
+  const match = value.replace(/,/g, "").match(/\d+(?:\.\d+)?/);
+  if (!match) return null;
+  const amount = Number(match[0]);
+  if (/sq\.?\s*m\b|sqm|m²|m2\b|square met/i.test(value)) {
+    return Math.round(amount * SQM_TO_SQFT);
+  }
+  return amount;
+}
+
+function toBedrooms(value: unknown): number | null {
+  return typeof value === "string" || typeof value === "number"
+    ? parseBedrooms(value)
+    : null;
+}
+
+const optionalCount = z.preprocess(
+  toBedrooms,
+  z.number().int().nonnegative().nullable(),
+);
+
+export const propertyDetailsSchema = z.object({
+  title: z.string().min(1),
+  price: z.preprocess(parseAmount, z.number().positive()),
+  bedrooms: optionalCount,
+  bathrooms: optionalCount,
+  size: z.preprocess(parseSizeSqft, z.number().positive().nullable()),
+  furnishing: z.enum(["YES", "NO", "PARTLY"]).nullable(),
+  location: z.string(),
+  amenities: z.array(z.string()),
+  image: z.string().nullable(),
+  propertyType: z.string().nullable(),
+  // Null when neither the link nor the payload says whether it's to rent or buy
+  purpose: z.enum(["rent", "sale"]).nullable(),
+  portal: z.enum(["propertyfinder", "bayut", "dubizzle"]),
+  link: z.string().url(),
+});
+
+export type PropertyDetails = z.infer<typeof propertyDetailsSchema>;
+export type PropertyDetailsInput = z.input<typeof propertyDetailsSchema>;
+
+/**
+ * Validates normalised property details, coercing price, bedroom and size
+ * strings. Throws a {@link ListingValidationError} naming the first bad field.
+ */
+export function parsePropertyDetails(
+  input: PropertyDetailsInput,
+): PropertyDetails {
+  const result = propertyDetailsSchema.safeParse(input);
+  if (!result.success) {
+    const field = String(result.error.issues[0]?.path[0] ?? "details");
+    throw new ListingValidationError(field, input.link);
+  }
+  return result.data;
+}
+
+export const listingSummarySchema = z
+  .object({
+    title: z.preprocess((value) => value || "No Title", z.string()),
+    price: z.unknown(),
+    link: z.string().url(),
+    // Optional details, used to check results against the search criteria
+    bedrooms: z.unknown(),
+    size: z.unknown(),
+    furnishing: z.enum(["YES", "NO", "PARTLY"]).nullish().catch(null),
+    propertyType: z.string().nullish().catch(null),
+    purpose: z.enum(["rent", "sale"]).nullish().catch(null),
+    completionStatus: z.enum(["ready", "off_plan"]).nullish().catch(null),
+    grossYield: z.unknown(),
+  })
+  .transform(
+    ({ title, price, link, bedrooms, size, grossYield, ...details }) => {
+      const priceAed = parseAmount(price);
+      return {
+        title,
+        price:
+          typeof price === "string" && price.trim()
+            ? price.trim()
+            : priceAed !== null
+              ? formatAed(priceAed)
+              : "Price not specified",
+        priceAed,
+        link,
+        bedrooms: toBedrooms(bedrooms) ?? undefined,
+        sizeSqft: parseSizeSqft(size) ?? undefined,
+        furnishing: details.furnishing ?? undefined,
+        propertyType: details.propertyType?.toLowerCase() || undefined,
+        purpose: details.purpose ?? undefined,
+        completionStatus: details.completionStatus ?? undefined,
+        grossYield: parsePercent(grossYield) ?? undefined,
+      };
+    },
+  );
+
+export type ListingSummary = z.infer<typeof listingSummarySchema>;
+
+/**
+ * Validates search results, dropping entries without a usable link.
+ */
+export function parseListingSummaries(items: unknown[]): {
+  listings: ListingSummary[];
+  rejected: number;
+} {
+  const listings: ListingSummary[] = [];
+  for (const item of items) {
+    const result = listingSummarySchema.safeParse(item);
+    if (result.success) listings.push(result.data);
+  }
+  return { listings, rejected: items.length - listings.length };
+}
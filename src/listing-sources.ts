@@ -0,0 +1,431 @@
+import { logger } from "@elizaos/core";
+import {
+  type ListingSummary,
+  type PropertyDetails,
+  parseListingSummaries,
+  parsePropertyDetails,
+} from "./listing-schema";
+import { placeLineage } from "./gazetteer";
+import { filterListings } from "./listing-filters";
+import {
+  type ListingPurpose,
+  type Portal,
+  findPropertyLink,
+  normaliseListingSummary,
+  normalisePropertyDetails,
+} from "./portals";
+
+export const DEFAULT_N8N_SEARCH_URL =
+  "https://realyield.app.n8n.cloud/webhook/search-listings";
+export const DEFAULT_N8N_DETAILS_URL =
+  "https://realyield.app.n8n.cloud/webhook/propertyfinder";
+export const DEFAULT_PAGE_SIZE = 5;
+
+export type CompletionStatus = "ready" | "off_plan";
+
+export interface ListingSearchCriteria {
+  area?: string;
+  propertyType?: string;
+  bedrooms?: string | number;
+  maxPrice?: number;
+  minPrice?: number;
+  minSizeSqft?: number;
+  maxSizeSqft?: number;
+  furnished?: boolean;
+  /** Listings to rent or to buy */
+  purpose?: ListingPurpose;
+  completionStatus?: CompletionStatus;
+  /** Minimum gross yield in percent */
+  yieldFloor?: number;
+}
+
+export interface ListingPageRequest {
+  /** Number of matches to skip */
+  offset?: number;
+  limit?: number;
+  /** Cursor returned with the previous page, for backends that page by cursor */
+  cursor?: string | null;
+}
+
+export interface ListingPage {
+  listings: ListingSummary[];
+  offset: number;
+  /**
+   * Total number of matches, when the backend reports it, less the listings
+   * filtered out of this page locally
+   */
+  total: number | null;
+  nextCursor: string | null;
+  /**
+   * Whether the backend has matches past this page, judged from what it sent
+   * rather than what was left after local filtering
+   */
+  hasMore?: boolean;
+}
+
+/**
+ * Whether there are results past a page. Uses the source's own judgement
+ * when it gives one, then the cursor or total, then whether the page came
+ * back full.
+ */
+export function hasMorePages(page: ListingPage, limit: number): boolean {
+  if (page.hasMore !== undefined) return page.hasMore;
+  if (page.nextCursor) return true;
+  if (page.total !== null)
+    return page.offset + page.listings.length < page.total;
+  return page.listings.length >= limit;
+}
+
+/**
+ * A backend that can search listings and fetch a single advert's details.
+ * Implementations are selected through the plugin's LISTING_SOURCE setting.
+ * `fetchDetails` resolves null when the advert can't be fetched and throws a
+ * ListingValidationError when it comes back without a usable field.
+ */
+export interface ListingSource {
+  readonly name: string;
+  search(
+    criteria: ListingSearchCriteria,
+    page?: ListingPageRequest,
+  ): Promise<ListingPage>;
+  fetchDetails(link: string): Promise<PropertyDetails | null>;
+  healthCheck(): Promise<boolean>;
+}
+
+export interface N8nListingSourceOptions {
+  searchUrl?: string;
+  detailsUrl?: string;
+  /** Per-portal details webhooks; portals without one use detailsUrl */
+  portalDetailsUrls?: Partial<Record<Portal, string>>;
+  maxAttempts?: number;
+  /** Listings per page when the caller doesn't ask for a limit */
+  pageSize?: number;
+}
+
+async function getFetch() {
+  // Dynamically import fetch (node-fetch)
+  const fetchModule = await import("node-fetch");
+  return fetchModule.default;
+}
+
+/**
+ * Listing source backed by the n8n search and property-details webhooks.
+ */
+export class N8nListingSource implements ListingSource {
+  readonly name = "n8n";
+  readonly searchUrl: string;
+  readonly detailsUrl: string;
+  readonly portalDetailsUrls: Partial<Record<Portal, string>>;
+  private readonly maxAttempts: number;
+  private readonly pageSize: number;
+
+  constructor(options: N8nListingSourceOptions = {}) {
+    this.searchUrl = options.searchUrl || DEFAULT_N8N_SEARCH_URL;
+    this.detailsUrl = options.detailsUrl || DEFAULT_N8N_DETAILS_URL;
+    this.portalDetailsUrls = options.portalDetailsUrls || {};
+    this.maxAttempts = options.maxAttempts ?? 3;
+    this.pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+  }
+
+  async search(
+    searchCriteria: ListingSearchCriteria,
+    page: ListingPageRequest = {},
+  ): Promise<ListingPage> {
+    const fetch = await getFetch();
+    const offset = page.offset ?? 0;
+    const limit = page.limit ?? this.pageSize;
+
+    // Construct the payload based on available criteria
+    const payload: any = {};
+    if (searchCriteria.area) {
+      payload.area = searchCriteria.area;
+      // Lets backends that only index master communities widen a building or
+      // sub-community search, e.g. Samara → Arabian Ranches 2
+      const lineage = placeLineage(searchCriteria.area);
+      if (lineage.length > 1)
+        payload.masterCommunity = lineage[lineage.length - 1].name;
+    }
+    if (searchCriteria.bedrooms) {
+      // Ensure bedrooms is a number if it's a string like "studio" or a numeric string
+      if (typeof searchCriteria.bedrooms === "string") {
+        if (searchCriteria.bedrooms.toLowerCase() === "studio") {
+          payload.bedrooms = 0; // Assuming n8n expects 0 for studio
+        } else {
+          const numBedrooms = parseInt(searchCriteria.bedrooms, 10);
+          if (!isNaN(numBedrooms)) {
+            payload.bedrooms = numBedrooms;
+          }
+        }
+      } else {
+        payload.bedrooms = searchCriteria.bedrooms; // It's already a number
+      }
+    }
+    if (searchCriteria.propertyType)
+      payload.propertyType = searchCriteria.propertyType;
+    if (searchCriteria.maxPrice) payload.maxPrice = searchCriteria.maxPrice;
+    if (searchCriteria.minPrice) payload.minPrice = searchCriteria.minPrice;
+    if (searchCriteria.minSizeSqft)
+      payload.minSizeSqft = searchCriteria.minSizeSqft;
+    if (searchCriteria.maxSizeSqft)
+      payload.maxSizeSqft = searchCriteria.maxSizeSqft;
+    if (searchCriteria.furnished !== undefined)
+      payload.furnished = searchCriteria.furnished;
+    if (searchCriteria.purpose) payload.purpose = searchCriteria.purpose;
+    if (searchCriteria.completionStatus) {
+      payload.completionStatus = searchCriteria.completionStatus;
+    }
+    if (searchCriteria.yieldFloor)
+      payload.yieldFloor = searchCriteria.yieldFloor;
+
+    // Only proceed if we have at least one criterion for the webhook
+    if (Object.keys(payload).length === 0) {
+      logger.info(
+        "[N8nListingSource.search] No valid criteria provided, returning empty results.",
+      );
+      return { listings: [], offset, total: 0, nextCursor: null };
+    }
+
+    payload.offset = offset;
+    payload.limit = limit;
+    if (page.cursor) payload.cursor = page.cursor;
+
+    logger.info(
+      `[N8nListingSource.search] Calling ${this.searchUrl} with payload: ${JSON.stringify(payload)}`,
+    );
+
+    const res = await fetch(this.searchUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "RealYieldAgent/1.0", // Good practice to set a User-Agent
+      },
+      body: JSON.stringify(payload),
+    });
+
+    if (!res.ok) {
+      const errorBody = await res.text();
+      logger.error(
+        `[N8nListingSource.search] n8n webhook search failed – status ${res.status}, body: ${errorBody}`,
+      );
+      throw new Error(`n8n webhook search failed – status ${res.status}`);
+    }
+
+    // n8n may return the listings array directly or nested under
+    // { listings: [...] } or { data: { listings: [...] } }
+    // alongside optional paging fields (total, nextCursor)
+    const responseJson = (await res.json()) as any;
+    let rawListings: any[] = [];
+    let paging: any = {};
+
+    if (Array.isArray(responseJson)) {
+      rawListings = responseJson;
+    } else if (responseJson.listings && Array.isArray(responseJson.listings)) {
+      rawListings = responseJson.listings;
+      paging = responseJson;
+    } else if (
+      responseJson.data &&
+      responseJson.data.listings &&
+      Array.isArray(responseJson.data.listings)
+    ) {
+      rawListings = responseJson.data.listings;
+      paging = responseJson.data;
+    } else {
+      logger.warn(
+        "[N8nListingSource.search] Response format not recognized or no listings array found.",
+      );
+      return { listings: [], offset, total: null, nextCursor: null };
+    }
+
+    const { listings: parsed, rejected } = parseListingSummaries(
+      rawListings.map(normaliseListingSummary),
+    );
+    if (rejected > 0) {
+      logger.warn(
+        `[N8nListingSource.search] Dropped ${rejected} listings without a valid link.`,
+      );
+    }
+
+    // Not every backend applies every criterion, so check the ones it sent back details for
+    const listings = filterListings(parsed, searchCriteria);
+    if (listings.length < parsed.length) {
+      logger.info(
+        `[N8nListingSource.search] Filtered out ${parsed.length - listings.length} listings not matching the criteria.`,
+      );
+    }
+
+    // Backends that ignore offset/limit send every match, so page through them here
+    const unpaged = rawListings.length > limit;
+    const ads = unpaged
+      ? listings.slice(offset, offset + limit)
+      : listings.slice(0, limit);
+    const nextCursor =
+      typeof paging.nextCursor === "string" ? paging.nextCursor : null;
+    const total = Number(paging.total ?? paging.totalCount);
+    const dropped = rawListings.length - listings.length;
+
+    logger.info(
+      `[N8nListingSource.search] Received ${ads.length} valid listings.`,
+    );
+    if (unpaged) {
+      return {
+        listings: ads,
+        offset,
+        total: listings.length,
+        nextCursor,
+        hasMore: offset + limit < listings.length,
+      };
+    }
+    // A page the backend sent in full may still come back short once filtered,
+    // so the end of the results is judged from the backend's own counts
+    return {
+      listings: ads,
+      offset,
+      total: Number.isFinite(total) ? total - dropped : null,
+      nextCursor,
+      hasMore:
+        nextCursor !== null ||
+        (Number.isFinite(total)
+          ? offset + rawListings.length < total
+          : rawListings.length >= limit),
+    };
+  }
+
+  async fetchDetails(link: string): Promise<PropertyDetails | null> {
+    const portal = findPropertyLink(link)?.portal ?? "propertyfinder";
+    const url = this.portalDetailsUrls[portal] || this.detailsUrl;
+
+    logger.info(
+      `[N8nListingSource.fetchDetails] Fetching ${portal} listing from ${url}`,
+    );
+    const data = await this.postWithRetry(url, { link, portal });
+    if (data === null) return null;
+
+    // Incomplete payloads aren't retried, the webhook would return the same data
+    return parsePropertyDetails(normalisePropertyDetails(data, portal, link));
+  }
+
+  private async postWithRetry(url: string, body: unknown): Promise<any | null> {
+    try {
+      const fetch = await getFetch();
+      let lastError = null;
+
+      for (let attempt = 1; attempt <= this.maxAttempts; attempt++) {
+        try {
+          logger.info(
+            `[N8nListingSource.fetchDetails] Attempt ${attempt}/${this.maxAttempts}`,
+          );
+          const res = await fetch(url, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(body),
+          });
+
+          if (res.ok) {
+            const data = await res.json();
+            logger.info(
+              `[N8nListingSource.fetchDetails] Successfully received data from n8n`,
+            );
+            return data;
+          }
+
+          logger.error(
+            `[N8nListingSource.fetchDetails] webhook error ${res.status}`,
+          );
+          lastError = new Error(`Webhook error: ${res.status}`);
+        } catch (attemptError) {
+          logger.error(
+            { error: attemptError },
+            `[N8nListingSource.fetchDetails] Attempt ${attempt} failed`,
+          );
+          lastError = attemptError;
+        }
+
+        // Wait before retry (exponential backoff)
+        if (attempt < this.maxAttempts) {
+          const backoffMs = Math.min(1000 * Math.pow(2, attempt - 1), 5000);
+          logger.info(
+            `[N8nListingSource.fetchDetails] Waiting ${backoffMs}ms before retry`,
+          );
+          await new Promise((resolve) => setTimeout(resolve, backoffMs));
+        }
+      }
+
+      // If we've reached here, all attempts failed
+      throw lastError;
+    } catch (err) {
+      logger.error(
+        { error: err },
+        `[N8nListingSource.fetchDetails] All ${this.maxAttempts} attempts failed`,
+      );
+      return null;
+    }
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      logger.info(
+        `[N8nListingSource.healthCheck] Testing connectivity to ${this.detailsUrl}...`,
+      );
+      const fetch = await getFetch();
+
+      // Send a test request with a dummy link
+      const testLink =
+        "https://www.propertyfinder.ae/en/test-only-connectivity-check";
+      const res = await fetch(this.detailsUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ link: testLink }),
+      });
+
+      // We don't care about the response data, just that we can reach the endpoint
+      logger.info(
+        `[N8nListingSource.healthCheck] Webhook test result: status=${res.status}`,
+      );
+      return res.status < 500; // Any non-server error is considered "reachable"
+    } catch (err) {
+      logger.error(
+        { error: err },
+        "[N8nListingSource.healthCheck] Failed to connect to n8n webhook",
+      );
+      return false;
+    }
+  }
+}
+
+/**
+ * Builds the listing source named by LISTING_SOURCE from plugin settings.
+ */
+export function createListingSource(
+  config: Record<string, string | undefined>,
+): ListingSource {
+  switch (config.LISTING_SOURCE || "n8n") {
+    case "n8n":
+      return new N8nListingSource({
+        searchUrl: config.N8N_SEARCH_WEBHOOK_URL,
+        detailsUrl: config.N8N_PROPERTY_WEBHOOK_URL,
+        portalDetailsUrls: {
+          bayut: config.N8N_BAYUT_WEBHOOK_URL,
+          dubizzle: config.N8N_DUBIZZLE_WEBHOOK_URL,
+        },
+      });
+    default:
+      throw new Error(`Unknown listing source: ${config.LISTING_SOURCE}`);
+  }
+}
+
+let activeSource: ListingSource | null = null;
+
+export function setListingSource(source: ListingSource | null): void {
+  activeSource = source;
+}
+
+/**
+ * Returns the configured listing source, falling back to one built from
+ * environment variables when the plugin has not been initialised.
+ */
+export function getListingSource(): ListingSource {
+  if (!activeSource) {
+    activeSource = createListingSource(process.env);
+  }
+  return activeSource;
+}
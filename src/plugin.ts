@@ -1,4 +1,4 @@
-import type { Plugin } from '@elizaos/core';
+import type { Plugin } from "@elizaos/core";
 import {
   type Action,
   type Content,
@@ -9,33 +9,206 @@ import {
   ModelType,
   type Provider,
   type ProviderResult,
-  Service,
   type State,
   logger,
   UUID,
   createUniqueUuid,
-} from '@elizaos/core';
-import { z } from 'zod';
-import starterTestSuite from './tests';
-import { URL } from 'url';
+} from "@elizaos/core";
+import { z } from "zod";
+import starterTestSuite from "./tests";
+import { URL } from "url";
+import {
+  type ContractQuery,
+  type ContractStats,
+  type RentalContract,
+  SQM_TO_SQFT,
+  getRentalYieldStore,
+  parseBedrooms,
+} from "./rental-yields";
+import {
+  formatAed,
+  formatDate,
+  formatListings,
+  formatPageIndicator,
+  renderTable,
+} from "./format";
+import {
+  DEFAULT_PAGE_SIZE,
+  type ListingPage,
+  type ListingPageRequest,
+  type ListingSearchCriteria,
+  createListingSource,
+  getListingSource,
+  hasMorePages,
+  setListingSource,
+} from "./listing-sources";
+import {
+  type PropertyDetails,
+  ListingValidationError,
+  describeListingField,
+} from "./listing-schema";
+import {
+  type ListingPurpose,
+  canonicalListingId,
+  findPropertyLink,
+  purposeFromText,
+} from "./portals";
+import {
+  SAVED_SEARCHES_TABLE_SQL,
+  type SavedSearch,
+  clearSavedSearchFields,
+  defaultSearchName,
+  deleteSavedSearch,
+  describeSearchCriteria,
+  describeSearchFields,
+  getActiveSearch,
+  getSavedSearch,
+  listSavedSearches,
+  migrateLegacyPreferences,
+  parseSavedSearchCommand,
+  parseSearchName,
+  renameSavedSearch,
+  saveSearch,
+  setActiveSearch,
+} from "./saved-searches";
+import { migrateMessageKeyedRows, searchOwnerId } from "./user-identity";
+import { extractCriteriaWithModel } from "./criteria-extraction";
+import { resolvePlace } from "./gazetteer";
+import { annualAed, parseAedRange } from "./amounts";
+import { REFINEMENT_PATTERN, refineCriteria } from "./criteria-refinement";
+import {
+  InvalidSearchTransitionError,
+  type ListingPageState,
+  advanceSearchSession,
+  loadSearchSession,
+} from "./search-session";
+import {
+  LISTING_CACHE_TABLE_SQL,
+  cacheListing,
+  getCachedListing,
+} from "./listing-cache";
+import {
+  DEFAULT_MORTGAGE_RATE,
+  DEFAULT_MORTGAGE_TERM_YEARS,
+  type FinanceListing,
+  type Residency,
+  calculateMortgage,
+  cashOnCashReturn,
+  parseFinanceRequest,
+  recallFinanceListing,
+  rememberFinanceListing,
+} from "./finance";
+import {
+  type ServiceChargeEstimate,
+  netYieldAssumptionsFor,
+} from "./service-charges";
+import {
+  type TransactionCosts,
+  estimateTransactionCosts,
+  parseCostOverrides,
+} from "./transaction-costs";
+import {
+  ALERT_SETTINGS_TABLE_SQL,
+  ListingAlertService,
+  filterUnseenListings,
+  SHOWN_LISTINGS_TABLE_SQL,
+  getAlertSettings,
+  parseAlertRequest,
+  recordShownListings,
+  saveAlertSettings,
+} from "./listing-alerts";
+import {
+  PRICE_HISTORY_TABLE_SQL,
+  getPriceHistory,
+  priceChanges,
+  recordPriceSnapshot,
+  summarisePriceChange,
+} from "./price-history";
+import {
+  type ComparableTarget,
+  type ListingWithYield,
+  applyYieldFloor,
+  assessRentFairness,
+  calculateYields,
+  estimateAnnualRent,
+  medianPricePerSqft,
+} from "./yield-estimate";
+
+// Optional setting where an empty value (e.g. `KEY=` in .env) means unset
+const optionalSetting = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess((val) => (val === "" ? undefined : val), schema.optional());
 
 /**
  * Define the configuration schema for the plugin with the following properties:
  *
  * @param {string} EXAMPLE_PLUGIN_VARIABLE - The name of the plugin (min length of 1, optional)
+ * @param {string} LISTING_SOURCE - Listing backend to use (defaults to n8n, optional)
+ * @param {string} N8N_SEARCH_WEBHOOK_URL - n8n listing search webhook (optional)
+ * @param {string} N8N_PROPERTY_WEBHOOK_URL - n8n property details webhook (optional)
+ * @param {string} N8N_BAYUT_WEBHOOK_URL - n8n details webhook for bayut links (optional)
+ * @param {string} N8N_DUBIZZLE_WEBHOOK_URL - n8n details webhook for dubizzle links (optional)
+ * @param {string} LISTING_CACHE_TTL_HOURS - How long fetched adverts are reused, 0 disables the cache (optional)
+ * @param {string} LISTING_ALERT_CHECK_MINUTES - How often saved-search alerts are checked, default 15 (optional)
+ * @param {string} SEARCH_SESSION_TTL_MINUTES - How long a search stays open between messages, default 30 (optional)
+ * @param {string} SERVICE_CHARGES_CSV_PATH - Service charge rates for net yields, default knowledge/service_charges.csv (optional)
  * @returns {object} - The configured schema object
  */
 const configSchema = z.object({
   EXAMPLE_PLUGIN_VARIABLE: z
     .string()
-    .min(1, 'Example plugin variable is not provided')
+    .min(1, "Example plugin variable is not provided")
     .optional()
     .transform((val) => {
       if (!val) {
-        console.warn('Warning: Example plugin variable is not provided');
+        console.warn("Warning: Example plugin variable is not provided");
       }
       return val;
     }),
+  LISTING_SOURCE: optionalSetting(z.enum(["n8n"])),
+  N8N_SEARCH_WEBHOOK_URL: optionalSetting(
+    z.string().url("N8N_SEARCH_WEBHOOK_URL must be a URL"),
+  ),
+  N8N_PROPERTY_WEBHOOK_URL: optionalSetting(
+    z.string().url("N8N_PROPERTY_WEBHOOK_URL must be a URL"),
+  ),
+  N8N_BAYUT_WEBHOOK_URL: optionalSetting(
+    z.string().url("N8N_BAYUT_WEBHOOK_URL must be a URL"),
+  ),
+  N8N_DUBIZZLE_WEBHOOK_URL: optionalSetting(
+    z.string().url("N8N_DUBIZZLE_WEBHOOK_URL must be a URL"),
+  ),
+  LISTING_CACHE_TTL_HOURS: optionalSetting(
+    z
+      .string()
+      .regex(
+        /^\d+(\.\d+)?$/,
+        "LISTING_CACHE_TTL_HOURS must be a number of hours",
+      ),
+  ),
+  LISTING_ALERT_CHECK_MINUTES: optionalSetting(
+    z
+      .string()
+      .regex(
+        /^[1-9]\d*$/,
+        "LISTING_ALERT_CHECK_MINUTES must be a whole number of minutes",
+      ),
+  ),
+  SEARCH_SESSION_TTL_MINUTES: optionalSetting(
+    z
+      .string()
+      .regex(
+        /^[1-9]\d*$/,
+        "SEARCH_SESSION_TTL_MINUTES must be a whole number of minutes",
+      ),
+  ),
+  SERVICE_CHARGES_CSV_PATH: optionalSetting(
+    z
+      .string()
+      .regex(
+        /\.csv$/i,
+        "SERVICE_CHARGES_CSV_PATH must be the path of a .csv file",
+      ),
+  ),
 });
 
 /**
@@ -54,12 +227,15 @@ const configSchema = z.object({
  * @property {Object[]} examples - Array of examples for the action
  */
 const helloWorldAction: Action = {
-  name: 'HELLO_WORLD',
-  similes: ['GREET', 'SAY_HELLO'],
-  description: 'Responds with a simple hello world message',
+  name: "HELLO_WORLD",
+  similes: ["GREET", "SAY_HELLO"],
+  description: "Responds with a simple hello world message",
 
-  validate: async (_runtime: IAgentRuntime, message: Memory): Promise<boolean> => {
-    const text = (message.content.text || '').toLowerCase().trim();
+  validate: async (
+    _runtime: IAgentRuntime,
+    message: Memory,
+  ): Promise<boolean> => {
+    const text = (message.content.text || "").toLowerCase().trim();
     return /^(hi|hello|hey)\b/.test(text);
   },
 
@@ -69,15 +245,15 @@ const helloWorldAction: Action = {
     _state: State,
     _options: any,
     callback: HandlerCallback,
-    _responses: Memory[]
+    _responses: Memory[],
   ) => {
     try {
-      logger.info('Handling HELLO_WORLD action');
+      logger.info("Handling HELLO_WORLD action");
 
       // Simple response content
       const responseContent: Content = {
-        text: 'hello world!',
-        actions: ['HELLO_WORLD'],
+        text: "hello world!",
+        actions: ["HELLO_WORLD"],
         source: message.content.source,
       };
 
@@ -86,7 +262,7 @@ const helloWorldAction: Action = {
 
       return responseContent;
     } catch (error) {
-      logger.error('Error in HELLO_WORLD action:', error);
+      logger.error("Error in HELLO_WORLD action:", error);
       throw error;
     }
   },
@@ -94,16 +270,16 @@ const helloWorldAction: Action = {
   examples: [
     [
       {
-        name: '{{name1}}',
+        name: "{{name1}}",
         content: {
-          text: 'Can you say hello?',
+          text: "Can you say hello?",
         },
       },
       {
-        name: '{{name2}}',
+        name: "{{name2}}",
         content: {
-          text: 'hello world!',
-          actions: ['HELLO_WORLD'],
+          text: "hello world!",
+          actions: ["HELLO_WORLD"],
         },
       },
     ],
@@ -115,16 +291,16 @@ const helloWorldAction: Action = {
  * This demonstrates the simplest possible provider implementation
  */
 const helloWorldProvider: Provider = {
-  name: 'HELLO_WORLD_PROVIDER',
-  description: 'A simple example provider',
+  name: "HELLO_WORLD_PROVIDER",
+  description: "A simple example provider",
 
   get: async (
     _runtime: IAgentRuntime,
     _message: Memory,
-    _state: State
+    _state: State,
   ): Promise<ProviderResult> => {
     return {
-      text: 'I am a provider',
+      text: "I am a provider",
       values: {},
       data: {},
     };
@@ -135,16 +311,18 @@ const helloWorldProvider: Provider = {
  * PreferencesProvider - Persists and retrieves user search criteria for property listings
  */
 const preferencesProvider: Provider = {
-  name: 'PREFERENCES_PROVIDER',
-  description: 'Provides access to user preferences including saved property search criteria',
+  name: "PREFERENCES_PROVIDER",
+  description:
+    "Provides access to user preferences including saved property search criteria",
 
   get: async (
     runtime: IAgentRuntime,
     message: Memory,
-    _state: State
+    _state: State,
   ): Promise<ProviderResult> => {
     // Default empty preferences
     let preferences = {
+      name: null,
       area: null,
       propertyType: null,
       bedrooms: null,
@@ -152,849 +330,2086 @@ const preferencesProvider: Provider = {
       minPrice: null,
       yieldFloor: null,
       furnished: null,
+      purpose: null,
       lastUpdated: null,
     };
+    let savedSearches: string[] = [];
 
     try {
-      // Get user ID from message - simplified to reduce type errors
-      const userId = message.id;
+      // Saved searches belong to the sender, not the message
+      const userId = searchOwnerId(message);
       if (!userId) {
-        return { text: '', values: { preferences }, data: { preferences } };
+        return {
+          text: "",
+          values: { preferences, savedSearches },
+          data: { preferences, savedSearches },
+        };
       }
 
-      // This is a simplified version to avoid type errors
-      // In an actual implementation, you'd use the SQL adapter directly
-      // We'll stub this for now and implement it properly when the full schema is known
-      // runtime.sql would be accessed through a proper adapter in a real implementation
-      const results = await (runtime as any).sql?.query?.(
-        `SELECT * FROM preferences WHERE user_id = ? ORDER BY last_updated DESC LIMIT 1`,
-        [userId]
-      ) || [];
-      
-      if (results && results.length > 0) {
-        const pref = results[0];
+      // Surface the active saved search, plus the names of the others
+      const searches = await listSavedSearches(runtime, userId);
+      const active = searches.find((search) => search.active) || searches[0];
+      savedSearches = searches.map((search) => search.name);
+
+      if (active) {
         preferences = {
-          area: pref.area,
-          propertyType: pref.property_type,
-          bedrooms: pref.bedrooms,
-          maxPrice: pref.max_price,
-          minPrice: pref.min_price,
-          yieldFloor: pref.yield_floor,
-          furnished: pref.furnished,
-          lastUpdated: pref.last_updated,
+          name: active.name,
+          area: active.criteria.area ?? null,
+          propertyType: active.criteria.propertyType ?? null,
+          bedrooms: active.criteria.bedrooms ?? null,
+          maxPrice: active.criteria.maxPrice ?? null,
+          minPrice: active.criteria.minPrice ?? null,
+          yieldFloor: active.criteria.yieldFloor ?? null,
+          furnished: active.criteria.furnished ?? null,
+          purpose: active.criteria.purpose ?? null,
+          lastUpdated: active.updatedAt,
         };
       }
     } catch (error) {
-      logger.error('Error retrieving preferences:', error);
+      logger.error("Error retrieving preferences:", error);
     }
 
     // Return preferences as provider values and data
     return {
-      text: '',
+      text: preferences.name
+        ? `Active saved search "${preferences.name}"` +
+          (savedSearches.length > 1
+            ? ` (also saved: ${savedSearches.filter((name) => name !== preferences.name).join(", ")})`
+            : "")
+        : "",
       values: {
         preferences,
+        savedSearches,
       },
       data: {
         preferences,
+        savedSearches,
       },
     };
   },
 };
 
-// Helper to fetch ads from an n8n webhook
-async function fetchAds(searchCriteria: { area?: string; bedrooms?: string | number; maxPrice?: number }): Promise<{title: string; price: string; link: string}[]> {
-  // Dynamically import fetch (node-fetch)
-  const fetchModule = await import('node-fetch');
-  const fetch = fetchModule.default;
-
-  const N8N_WEBHOOK_URL = 'https://realyield.app.n8n.cloud/webhook/search-listings';
-
-  // Construct the payload based on available criteria
-  const payload: any = {};
-  if (searchCriteria.area) payload.area = searchCriteria.area;
-  if (searchCriteria.bedrooms) {
-    // Ensure bedrooms is a number if it's a string like "studio" or a numeric string
-    if (typeof searchCriteria.bedrooms === 'string') {
-      if (searchCriteria.bedrooms.toLowerCase() === 'studio') {
-        payload.bedrooms = 0; // Assuming n8n expects 0 for studio
-      } else {
-        const numBedrooms = parseInt(searchCriteria.bedrooms, 10);
-        if (!isNaN(numBedrooms)) {
-          payload.bedrooms = numBedrooms;
-        }
-      }
-    } else {
-      payload.bedrooms = searchCriteria.bedrooms; // It's already a number
+/**
+ * RentalYieldsProvider - Supplies figures computed from the rental yields
+ * dataset so that yield answers are grounded in the store, not guessed
+ */
+const rentalYieldsProvider: Provider = {
+  name: "RENTAL_YIELDS_PROVIDER",
+  description:
+    "Provides rental yield, rent and price statistics computed from rental_yields.csv",
+
+  get: async (
+    _runtime: IAgentRuntime,
+    message: Memory,
+    _state: State,
+  ): Promise<ProviderResult> => {
+    const store = getRentalYieldStore();
+    const text = message.content?.text || "";
+
+    if (
+      !store ||
+      !/\b(yield|yields|rent|rents|rental|roi|return|price|prices)\b/i.test(
+        text,
+      )
+    ) {
+      return { text: "", values: {}, data: {} };
     }
-  }
-  if (searchCriteria.maxPrice) payload.maxPrice = searchCriteria.maxPrice;
 
-  // Only proceed if we have at least one criterion for the webhook
-  if (Object.keys(payload).length === 0) {
-    logger.info('[fetchAds] No valid criteria provided for n8n webhook, returning empty results.');
-    return [];
-  }
+    const query = criteriaToContractQuery(text, extractSearchCriteria(text));
+    const { segment, cityWide, spreadPp } = store.compareToCity(query);
+    if (segment.count === 0 && !query.area) {
+      return { text: "", values: {}, data: {} };
+    }
 
-  logger.info(`[fetchAds] Calling n8n webhook with payload: ${JSON.stringify(payload)}`);
+    const describe = (label: string, stats: ContractStats) => {
+      if (!stats.grossYield)
+        return `${label}: no contracts with a transaction price`;
+      const y = stats.grossYield;
+      return (
+        `${label}: median gross yield ${y.median.toFixed(1)}% (mean ${y.mean.toFixed(1)}%, ` +
+        `IQR ${y.p25.toFixed(1)}–${y.p75.toFixed(1)}%, ${y.count} contracts); ` +
+        `median rent AED ${Math.round(stats.annualRent.median).toLocaleString()}` +
+        (stats.transactionPrice
+          ? `; median price AED ${Math.round(stats.transactionPrice.median).toLocaleString()}`
+          : "")
+      );
+    };
 
-  const res = await fetch(N8N_WEBHOOK_URL, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'User-Agent': 'RealYieldAgent/1.0', // Good practice to set a User-Agent
-    },
-    body: JSON.stringify(payload),
+    const label = query.area
+      ? describeSegment(query)
+      : `${describeSegment(query)} city-wide`;
+    const lines = [
+      "# Rental yield data (computed from rental_yields.csv; quote these figures exactly)",
+      segment.count > 0
+        ? describe(label, segment)
+        : `${label}: no matching contracts`,
+    ];
+    if (query.area) {
+      lines.push(describe("City-wide, same filters", cityWide));
+      if (spreadPp !== null)
+        lines.push(`Difference vs city median: ${spreadPp.toFixed(1)} pp`);
+    }
+
+    return {
+      text: lines.join("\n"),
+      values: { rentalYieldStats: segment, cityWideYieldStats: cityWide },
+      data: {
+        rentalYieldQuery: query,
+        rentalYieldStats: segment,
+        cityWideYieldStats: cityWide,
+      },
+    };
+  },
+};
+
+// Helper to fetch a page of ads from the configured listing source, with
+// gross yields estimated and listings under the yield floor left out
+async function fetchAds(
+  searchCriteria: ListingSearchCriteria,
+  page: ListingPageRequest = {},
+): Promise<
+  ListingPage & { listings: ListingWithYield[]; belowYieldFloor: number }
+> {
+  const result = await getListingSource().search(searchCriteria, {
+    limit: DEFAULT_PAGE_SIZE,
+    ...page,
   });
+  const { listings, belowFloor } = applyYieldFloor(
+    getRentalYieldStore(),
+    result.listings,
+    searchCriteria,
+  );
+  return { ...result, listings, belowYieldFloor: belowFloor };
+}
 
-  if (!res.ok) {
-    const errorBody = await res.text();
-    logger.error(`[fetchAds] n8n webhook search failed – status ${res.status}, body: ${errorBody}`);
-    throw new Error(`n8n webhook search failed – status ${res.status}`);
-  }
+// Pages skipped in a row when every listing on them was already shown
+const MAX_SEEN_PAGES_SKIPPED = 3;
 
-  // Assuming n8n returns a JSON array of listings in the format: 
-  // [{ title: string, price: string, link: string }, ...]
-  // Or it might be nested, e.g., { listings: [...] } or { data: { listings: [...] } }
-  // Adjust parsing based on actual n8n webhook response structure.
-  const responseJson = await res.json() as any; 
-  let rawListings: any[] = [];
-
-  // Attempt to find the listings array in common structures
-  if (Array.isArray(responseJson)) {
-    rawListings = responseJson;
-  } else if (responseJson.listings && Array.isArray(responseJson.listings)) {
-    rawListings = responseJson.listings;
-  } else if (responseJson.data && responseJson.data.listings && Array.isArray(responseJson.data.listings)) {
-    rawListings = responseJson.data.listings;
-  } else {
-    logger.warn('[fetchAds] n8n webhook response format not recognized or no listings array found.', responseJson);
-    return [];
-  }
+// Helper to fetch the first page of a new search, with the paging to continue from
+async function fetchFirstPage(
+  searchCriteria: ListingSearchCriteria,
+): Promise<{ ads: ListingWithYield[]; paging: ListingPageState }> {
+  const result = await fetchAds(searchCriteria, { offset: 0 });
+  const paging: ListingPageState = {
+    page: 1,
+    total: result.total,
+    nextCursor: result.nextCursor,
+    belowYieldFloor: result.belowYieldFloor,
+    hasMore: hasMorePages(result, DEFAULT_PAGE_SIZE),
+  };
+  return { ads: result.listings, paging };
+}
+
+// Helper to put a search's results on screen in the user's search session,
+// so "show more", "narrow" and "save these" refer to them on later turns
+async function startShowingResults(
+  runtime: IAgentRuntime,
+  userId: string,
+  criteria: ReturnType<typeof extractSearchCriteria>,
+  paging: ListingPageState,
+): Promise<void> {
+  // The contract date window only applies to yield questions
+  const { period: _period, ...searchCriteria } = criteria;
+  await advanceSearchSession(runtime, userId, {
+    type: "show_results",
+    criteria: searchCriteria,
+    paging,
+  });
+}
 
-  // Map to the expected ads format, ensuring all fields are present
-  const ads: { title: string; price: string; link: string }[] = rawListings
-    .map((item: any) => ({
-      title: item.title || 'No Title',
-      price: item.price || 'Price not specified',
-      link: item.link || '#', // Provide a fallback link
-    }))
-    .filter(ad => ad.link && ad.link !== '#') // Ensure link is valid
-    .slice(0, 5); // Limit to 5 ads
-
-  logger.info(`[fetchAds] Received ${ads.length} valid listings from n8n webhook.`);
-  return ads;
+// Helper to label the first page, e.g. " (page 1 of 3)", when there are more
+function firstPageLabel(paging: ListingPageState): string {
+  return paging.total && paging.total > DEFAULT_PAGE_SIZE
+    ? ` (${formatPageIndicator(1, paging.total, DEFAULT_PAGE_SIZE)})`
+    : "";
 }
 
-// Helper for saving search preferences to database
-async function saveSearchPreferences(
+// Helper to mention listings left out for yielding under the floor, if any
+function yieldFloorNote(
+  paging: ListingPageState,
+  criteria: ListingSearchCriteria,
+): string {
+  const below = paging.belowYieldFloor || 0;
+  if (!criteria.yieldFloor || below === 0) return "";
+  return `\n\nI left out ${below} listing${below === 1 ? "" : "s"} with an estimated gross yield under ${criteria.yieldFloor}%.`;
+}
+
+// Helper for logging a search in search_logs
+async function logSearch(
   runtime: IAgentRuntime,
-  userId: string, 
-  preferences: { 
-    area?: string;
-    propertyType?: string;
-    bedrooms?: string | number;
-    maxPrice?: number;
-    minPrice?: number;
-  }
+  message: Memory,
+  criteria: ListingSearchCriteria,
 ): Promise<void> {
   try {
+    const userId = searchOwnerId(message);
     // Skip if missing essential info
-    if (!userId || !preferences) return;
-    
+    if (!userId || !criteria) return;
+
     // Cast runtime to access sql
     const sql = (runtime as any).sql;
     if (!sql) return;
-    
-    // Check if user already has preferences
-    const existingPrefs = await sql.query(
-      `SELECT id FROM preferences WHERE user_id = ?`,
-      [userId]
+
+    const searchId = createUniqueUuid(
+      runtime,
+      `search-${userId}-${Date.now()}`,
     );
-    
-    if (existingPrefs && existingPrefs.length > 0) {
-      // Update existing preferences
-      await sql.query(
-        `UPDATE preferences SET 
-          area = COALESCE(?, area),
-          property_type = COALESCE(?, property_type),
-          bedrooms = COALESCE(?, bedrooms),
-          max_price = COALESCE(?, max_price),
-          min_price = COALESCE(?, min_price),
-          last_updated = CURRENT_TIMESTAMP
-          WHERE user_id = ?`,
-        [
-          preferences.area || null,
-          preferences.propertyType || null,
-          preferences.bedrooms?.toString() || null,
-          preferences.maxPrice || null,
-          preferences.minPrice || null,
-          userId
-        ]
-      );
-    } else {
-      // Insert new preferences
-      await sql.query(
-        `INSERT INTO preferences (
-          user_id, area, property_type, bedrooms, max_price, min_price, last_updated
-        ) VALUES (?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)`,
-        [
-          userId,
-          preferences.area || null,
-          preferences.propertyType || null,
-          preferences.bedrooms?.toString() || null,
-          preferences.maxPrice || null,
-          preferences.minPrice || null
-        ]
-      );
-    }
-    
-    // Log the search in search_logs
-    const searchId = createUniqueUuid(runtime, `search-${userId}-${Date.now()}`);
     await sql.query(
       `INSERT INTO search_logs (
-        search_id, user_id, timestamp, criteria_json, listings_returned
-      ) VALUES (?, ?, CURRENT_TIMESTAMP, ?, 0)`,
+        search_id, user_id, room_id, world_id, timestamp, criteria_json, listings_returned
+      ) VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP, ?, 0)`,
       [
         searchId,
         userId,
-        JSON.stringify(preferences)
-      ]
+        message.roomId || null,
+        message.worldId || null,
+        JSON.stringify(criteria),
+      ],
     );
-    
   } catch (error) {
-    logger.error('Error saving search preferences:', error);
+    logger.error({ error }, "Error logging search");
+  }
+}
+
+// Contract date window mentioned in a message, e.g. "last year" or "since 2022"
+interface TimeWindow {
+  from: Date;
+  to: Date;
+  label: string;
+}
+
+// Helper to extract a contract date window from text, relative to `now`
+function extractTimeWindow(
+  text: string,
+  now: Date = new Date(),
+): TimeWindow | undefined {
+  const lower = text.toLowerCase();
+  const year = now.getUTCFullYear();
+  const yearRange = (y: number, label: string): TimeWindow => ({
+    from: new Date(Date.UTC(y, 0, 1)),
+    to: new Date(Date.UTC(y, 11, 31, 23, 59, 59)),
+    label,
+  });
+
+  if (/\blast year\b/.test(lower)) {
+    return yearRange(year - 1, `in ${year - 1}`);
+  }
+  if (/\b(?:this year|ytd|year to date)\b/.test(lower)) {
+    return {
+      from: new Date(Date.UTC(year, 0, 1)),
+      to: now,
+      label: `in ${year} so far`,
+    };
+  }
+
+  const monthsMatch = lower.match(
+    /\b(?:last|past|previous)\s+(\d+)\s+months?\b/,
+  );
+  if (monthsMatch) {
+    const months = parseInt(monthsMatch[1], 10);
+    const from = new Date(now);
+    from.setUTCMonth(from.getUTCMonth() - months);
+    return { from, to: now, label: `over the last ${months} months` };
+  }
+
+  const sinceMatch = lower.match(/\bsince\s+(20\d{2})\b/);
+  if (sinceMatch) {
+    const sinceYear = parseInt(sinceMatch[1], 10);
+    return {
+      from: new Date(Date.UTC(sinceYear, 0, 1)),
+      to: now,
+      label: `since ${sinceYear}`,
+    };
+  }
+
+  const yearMatch = lower.match(/\b(?:in|during|for)\s+(20\d{2})\b/);
+  if (yearMatch) {
+    const y = parseInt(yearMatch[1], 10);
+    return yearRange(y, `in ${y}`);
   }
+
+  return undefined;
+}
+
+// Size units as users write them, e.g. "sqft", "sq ft", "sqm", "m²"
+const SIZE_UNIT =
+  "sq\\.?\\s*f(?:ee)?t|sqft|square\\s*f(?:ee|oo)t|ft²|sq\\.?\\s*m|sqm|square\\s*met(?:re|er)s?|m²";
+
+// Helper to convert a size in the given unit to sqft
+function toSqft(amount: string, unit: string): number {
+  const value = parseFloat(amount.replace(/,/g, ""));
+  return /ft|feet|foot/i.test(unit)
+    ? Math.round(value)
+    : Math.round(value * SQM_TO_SQFT);
 }
 
 // Helper to extract property search criteria from text
-function extractSearchCriteria(text: string): {
-  area?: string;
-  propertyType?: string;
-  bedrooms?: string;
-  maxPrice?: number;
-  minPrice?: number;
-} {
+function extractSearchCriteria(
+  text: string,
+  now: Date = new Date(),
+): ListingSearchCriteria & { period?: TimeWindow } {
   const criteria: any = {};
-  
-  // Areas - common Dubai locations
-  const areaPatterns = [
-    'Downtown', 'Dubai Marina', 'JBR', 'Palm Jumeirah', 'Business Bay', 
-    'JVC', 'JVT', 'Jumeirah Village', 'DIFC', 'International City', 
-    'Sports City', 'Motor City', 'Arabian Ranches', 'Mirdif', 'Barsha',
-    'Al Barsha', 'Dubai Hills', 'MBR City', 'Dubai South', 'Dubailand',
-    'Dubai Creek', 'Zabeel', 'Deira', 'Bur Dubai', 'Jumeirah', 'Umm Suqeim',
-    'Discovery Gardens', 'Gardens', 'Jebel Ali', 'Dubai Production City', 'IMPZ',
-    'Dubai Silicon Oasis', 'DSO', 'Al Furjan', 'The Greens'
-  ];
-  
-  // Look for any area mentions
-  for (const area of areaPatterns) {
-    if (text.toLowerCase().includes(area.toLowerCase())) {
-      criteria.area = area;
-      break;
-    }
+
+  // Area - the longest place name or alias mentioned, e.g. "Arabian Ranches 2" over "Arabian Ranches"
+  const place = resolvePlace(text);
+  if (place) {
+    criteria.area = place.name;
   }
-  
+
   // Property types
-  if (text.toLowerCase().includes('apartment') || text.toLowerCase().includes('flat')) {
-    criteria.propertyType = 'apartment';
-  } else if (text.toLowerCase().includes('villa') || text.toLowerCase().includes('house')) {
-    criteria.propertyType = 'villa';
-  } else if (text.toLowerCase().includes('townhouse')) {
-    criteria.propertyType = 'townhouse';
-  } else if (text.toLowerCase().includes('penthouse')) {
-    criteria.propertyType = 'penthouse';
+  if (
+    text.toLowerCase().includes("apartment") ||
+    text.toLowerCase().includes("flat")
+  ) {
+    criteria.propertyType = "apartment";
+  } else if (
+    text.toLowerCase().includes("villa") ||
+    text.toLowerCase().includes("house")
+  ) {
+    criteria.propertyType = "villa";
+  } else if (text.toLowerCase().includes("townhouse")) {
+    criteria.propertyType = "townhouse";
+  } else if (text.toLowerCase().includes("penthouse")) {
+    criteria.propertyType = "penthouse";
   }
-  
+
   // Bedrooms (supporting abbreviations like bd, bdr, bhk)
-  const bedroomMatch = text.match(/(\d+)\s*(?:bed|beds?|bedroom|bedrooms?|br|bd|bdr|bhk)/i);
+  const bedroomMatch = text.match(
+    /(\d+)[\s-]*(?:bed|beds?|bedroom|bedrooms?|br|bd|bdr|bhk)/i,
+  );
   if (bedroomMatch) {
     criteria.bedrooms = bedroomMatch[1];
-  } else if (text.toLowerCase().includes('studio')) {
-    criteria.bedrooms = 'studio';
+  } else if (text.toLowerCase().includes("studio")) {
+    criteria.bedrooms = "studio";
   }
-  
-  // Price range patterns
-  // Max price: "under X", "below X", "less than X", "max X", "up to X"
-  const maxPriceMatch = text.match(/(?:under|below|less than|max|maximum|up to)\s*(?:AED)?\s*(\d+(?:,\d+)*(?:\.\d+)?)\s*(?:AED|dhs|dirhams|k|million|m)?/i);
-  if (maxPriceMatch) {
-    let price = maxPriceMatch[1].replace(/,/g, '');
-    let value = parseFloat(price);
-    
-    // Convert to millions if needed
-    if (maxPriceMatch[0].toLowerCase().includes('million') || maxPriceMatch[0].toLowerCase().includes('m')) {
-      value = value * 1000000;
-    } else if (maxPriceMatch[0].toLowerCase().includes('k')) {
-      value = value * 1000;
-    }
-    
-    criteria.maxPrice = Math.round(value);
+
+  // Price range: "under 1.2M", "over 800k", "800k-1.2M", "between 1 and 1.5 mn",
+  // "under 8k a month" (monthly amounts are searched as yearly rent)
+  const priceRange = parseAedRange(text);
+  if (priceRange?.max) {
+    criteria.maxPrice = annualAed(priceRange.max);
   }
-  
-  // Min price: "above X", "over X", "more than X", "min X", "at least X"
-  const minPriceMatch = text.match(/(?:above|over|more than|min|minimum|at least)\s*(?:AED)?\s*(\d+(?:,\d+)*(?:\.\d+)?)\s*(?:AED|dhs|dirhams|k|million|m)?/i);
-  if (minPriceMatch) {
-    let price = minPriceMatch[1].replace(/,/g, '');
-    let value = parseFloat(price);
-    
-    // Convert to millions if needed
-    if (minPriceMatch[0].toLowerCase().includes('million') || minPriceMatch[0].toLowerCase().includes('m')) {
-      value = value * 1000000;
-    } else if (minPriceMatch[0].toLowerCase().includes('k')) {
-      value = value * 1000;
-    }
-    
-    criteria.minPrice = Math.round(value);
+  if (priceRange?.min) {
+    criteria.minPrice = annualAed(priceRange.min);
+  }
+
+  // Size: "over 1,000 sqft", "under 100 sqm", "between 800 and 1200 sqft"
+  const sizeBetween = text.match(
+    new RegExp(
+      `between\\s*(\\d[\\d,]*)\\s*(?:${SIZE_UNIT})?\\s*(?:and|to|-)\\s*(\\d[\\d,]*)\\s*(${SIZE_UNIT})`,
+      "i",
+    ),
+  );
+  const minSize = text.match(
+    new RegExp(
+      `(?:above|over|more than|min|minimum|at least|from)\\s*(\\d[\\d,]*)\\s*(${SIZE_UNIT})`,
+      "i",
+    ),
+  );
+  const maxSize = text.match(
+    new RegExp(
+      `(?:under|below|less than|max|maximum|up to)\\s*(\\d[\\d,]*)\\s*(${SIZE_UNIT})`,
+      "i",
+    ),
+  );
+  if (sizeBetween) {
+    criteria.minSizeSqft = toSqft(sizeBetween[1], sizeBetween[3]);
+    criteria.maxSizeSqft = toSqft(sizeBetween[2], sizeBetween[3]);
+  } else {
+    if (minSize) criteria.minSizeSqft = toSqft(minSize[1], minSize[2]);
+    if (maxSize) criteria.maxSizeSqft = toSqft(maxSize[1], maxSize[2]);
+  }
+
+  // Furnishing
+  if (/\bunfurnished\b/i.test(text)) {
+    criteria.furnished = false;
+  } else if (/\b(?:fully |semi[- ]?|partly )?furnished\b/i.test(text)) {
+    criteria.furnished = true;
   }
-  
+
+  // Rent or buy
+  const purpose = purposeFromText(text);
+  if (purpose) criteria.purpose = purpose;
+
+  // Completion status
+  if (/\boff[- ]?plan\b|\bunder construction\b/i.test(text)) {
+    criteria.completionStatus = "off_plan";
+  } else if (
+    /\bready to move(?: in)?\b|\b(?:ready|completed) (?:property|properties|apartments?|villas?|townhouses?|units?|homes?)\b/i.test(
+      text,
+    )
+  ) {
+    criteria.completionStatus = "ready";
+  }
+
+  // Yield floor: "yielding at least 7%", "minimum yield of 6.5%", "7%+ yield"
+  const yieldFloorMatch =
+    text.match(
+      /\byield(?:s|ing)?\b[^%\d.]{0,30}?(\d+(?:\.\d+)?)\s*(?:%|percent)/i,
+    ) ||
+    text.match(
+      /(\d+(?:\.\d+)?)\s*(?:%|percent)\s*\+?\s*(?:or (?:more|higher|better|above)\s+)?(?:gross\s+|net\s+)?(?:yield|roi)\b/i,
+    );
+  if (yieldFloorMatch) {
+    criteria.yieldFloor = parseFloat(yieldFloorMatch[1]);
+  }
+
+  // Contract date window for yield questions
+  const period = extractTimeWindow(text, now);
+  if (period) criteria.period = period;
+
   return criteria;
 }
 
+// Helper to read search criteria with the small model over the regex parser:
+// fields the model read win, and any it left out (including the contract date
+// window) keep the regex parser's value
+async function readSearchCriteria(
+  runtime: IAgentRuntime,
+  text: string,
+): Promise<ReturnType<typeof extractSearchCriteria>> {
+  const parsed = extractSearchCriteria(text);
+  const fromModel = await extractCriteriaWithModel(runtime, text);
+  if (!fromModel) return parsed;
+  return { ...parsed, ...fromModel };
+}
+
+// Follow-ups to results on screen
+const SHOW_MORE_PATTERN = /(?:show|send|get|give)\s+(?:more|next)/i;
+const NARROW_PATTERN = /(?:narrow|filter|tighten|refine|specific|less)/i;
+const SAVE_RESULTS_PATTERN =
+  /(?:save|store|remember|keep)\s+(?:this|these|search|criteria)/i;
+const CANCEL_SEARCH_PATTERN =
+  /^(?:cancel|stop|never\s*mind|start over|forget it)\b/i;
+
+// Helper to check whether a message follows up on search results on screen
+function isSearchFollowUp(text: string): boolean {
+  return [
+    SHOW_MORE_PATTERN,
+    NARROW_PATTERN,
+    SAVE_RESULTS_PATTERN,
+    CANCEL_SEARCH_PATTERN,
+    REFINEMENT_PATTERN,
+  ].some((pattern) => pattern.test(text));
+}
+
+// Helper to check whether a message changes the search on screen rather than
+// a saved search: "drop the budget to 2M" while browsing results refines them,
+// while "clear the budget from search marina-2bed" names the search to change
+async function isSearchRefinement(
+  runtime: IAgentRuntime,
+  message: Memory,
+): Promise<boolean> {
+  const session = await loadSearchSession(runtime, searchOwnerId(message));
+  if (!session || session.state === "awaiting_criteria") return false;
+
+  const text = message.content.text || "";
+  const command = parseSavedSearchCommand(text);
+  if (command && (command.type !== "clear" || command.name)) return false;
+  return session.state === "refining" || REFINEMENT_PATTERN.test(text);
+}
+
 // New and enhanced action for searching property listings
 const searchListingsAction: Action = {
-  name: 'SEARCH_LISTINGS',
+  name: "SEARCH_LISTINGS",
   similes: [
-    'FIND_PROPERTY', 'PROPERTY_SEARCH', 'FIND_LISTINGS', 'SHOW_PROPERTIES', 
-    'GET_LISTINGS', 'BUY_PROPERTY', 'SHOW_OPTIONS', 'LIST_PROPERTIES'
+    "FIND_PROPERTY",
+    "PROPERTY_SEARCH",
+    "FIND_LISTINGS",
+    "SHOW_PROPERTIES",
+    "GET_LISTINGS",
+    "BUY_PROPERTY",
+    "SHOW_OPTIONS",
+    "LIST_PROPERTIES",
   ],
-  description: 'Searches property listings based on user criteria with preference memory',
-
-  validate: async (_runtime: IAgentRuntime, message: Memory, state: State) => {
-    const text = (message.content.text || '').toLowerCase();
-    
-    // Check if awaiting specific information in a search flow
-    if (state.values.awaitingPropertyCriteria === true || 
-        state.values.showingListingResults === true) {
+  description:
+    "Searches property listings based on user criteria with preference memory",
+
+  validate: async (runtime: IAgentRuntime, message: Memory, _state: State) => {
+    const text = (message.content.text || "").toLowerCase();
+
+    // Alert set-up is handled by LISTING_ALERTS, managing saved searches by SAVED_SEARCHES
+    if (isAlertRequest(text)) {
+      return false;
+    }
+    // Mortgage and purchase cost questions have their own actions, even mid-search
+    if (isFinanceQuestion(text) || isTransactionCostQuestion(text)) {
+      return false;
+    }
+    if (await isSearchRefinement(runtime, message)) {
+      return true;
+    }
+    if (parseSavedSearchCommand(text)) {
+      return false;
+    }
+
+    // Replies to a search in progress: criteria John asked for, or a follow-up to results
+    const session = await loadSearchSession(runtime, searchOwnerId(message));
+    if (
+      session &&
+      (session.state !== "showing_results" || isSearchFollowUp(text))
+    ) {
       return true;
     }
 
     // Search keywords that indicate this action
     const searchKeywords = [
-      'find property', 'find apartment', 'find villa', 'find home', 
-      'search for property', 'search for apartment', 'search for villa',
-      'show me property', 'show me properties', 'show me listings',
-      'show listings', 'property listings', 'property options',
-      'looking to buy', 'want to buy', 'buy property', 'buy a house',
-      'get listings', 'get property', 'list properties',
-      'find links', 'find me links', 'links to listings', 'property links'
+      "find property",
+      "find apartment",
+      "find villa",
+      "find home",
+      "search for property",
+      "search for apartment",
+      "search for villa",
+      "show me property",
+      "show me properties",
+      "show me listings",
+      "show listings",
+      "property listings",
+      "property options",
+      "looking to buy",
+      "want to buy",
+      "buy property",
+      "buy a house",
+      "get listings",
+      "get property",
+      "list properties",
+      "find links",
+      "find me links",
+      "links to listings",
+      "property links",
     ];
-    
+
     // If the message contains any of our search keywords
     for (const keyword of searchKeywords) {
       if (text.includes(keyword)) {
         return true;
       }
     }
-    
+
     // Check for "Show me X bed in Y area under Z price" patterns
-    const bedroomPattern = /\d+\s*(?:bed|beds?|bedroom|bedrooms?|br|bd|bdr|bhk)/i;
+    const bedroomPattern =
+      /\d+\s*(?:bed|beds?|bedroom|bedrooms?|br|bd|bdr|bhk)/i;
     const areaPattern = /in\s+([A-Za-z\s]+)(?:$|\s+under|\s+below|\s+with)/i;
-    const pricePattern = /(?:under|below|less than|max|up to)\s*(?:AED)?\s*\d+/i;
-    
-    if (bedroomPattern.test(text) && (areaPattern.test(text) || pricePattern.test(text))) {
+    const pricePattern =
+      /(?:under|below|less than|max|up to)\s*(?:AED)?\s*\d+/i;
+
+    if (
+      bedroomPattern.test(text) &&
+      (areaPattern.test(text) || pricePattern.test(text))
+    ) {
       return true;
     }
-    
+
     // For "new listings" or "saved criteria" patterns
-    if ((text.includes('new') || text.includes('latest')) &&
-        (text.includes('listing') || text.includes('properties'))) {
+    if (
+      (text.includes("new") || text.includes("latest")) &&
+      (text.includes("listing") || text.includes("properties"))
+    ) {
       return true;
     }
-    
+
     // Reminder patterns like "what was I looking for" or "my search"
-    if ((text.includes('my') || text.includes('previous') || text.includes('last')) &&
-        (text.includes('search') || text.includes('criteria') || text.includes('preference'))) {
+    if (
+      (text.includes("my") ||
+        text.includes("previous") ||
+        text.includes("last")) &&
+      (text.includes("search") ||
+        text.includes("criteria") ||
+        text.includes("preference"))
+    ) {
       return true;
     }
-    
+
     return false;
   },
 
   handler: async (
     runtime: IAgentRuntime,
     message: Memory,
-    state: State,
+    _state: State,
     _options: any,
-    callback: HandlerCallback
+    callback: HandlerCallback,
   ) => {
-    const text = (message.content.text || '').trim();
-    const userId = message.id;
+    const text = (message.content.text || "").trim();
+    const userId = searchOwnerId(message);
     const messageSource = message.content.source;
-    
+    const session = await loadSearchSession(runtime, userId);
+
+    if (session && CANCEL_SEARCH_PATTERN.test(text)) {
+      await advanceSearchSession(runtime, userId, { type: "reset" });
+
+      const response: Content = {
+        text: `Okay, I've dropped that search. Just tell me what you're looking for whenever you want to start a new one.`,
+        actions: ["SEARCH_LISTINGS"],
+        source: messageSource,
+      };
+
+      await callback(response);
+      return response;
+    }
+
+    // Changes to the search on screen, e.g. "make it 3 beds", merged into its criteria
+    if (
+      session?.state === "refining" ||
+      (session?.state === "showing_results" && REFINEMENT_PATTERN.test(text))
+    ) {
+      const refinement = refineCriteria(
+        session.criteria,
+        text,
+        await readSearchCriteria(runtime, text),
+      );
+
+      if (refinement.changed.length === 0 && refinement.cleared.length === 0) {
+        const response: Content = {
+          text: `I couldn't tell what to change. You can say things like "make it 3 beds", "drop the budget to 2M" or "any area near Downtown".`,
+          actions: ["SEARCH_LISTINGS"],
+          source: messageSource,
+        };
+
+        await callback(response);
+        return response;
+      }
+
+      const refinedCriteria = refinement.criteria;
+      try {
+        const { ads, paging } = await fetchFirstPage(refinedCriteria);
+        await logSearch(runtime, message, refinedCriteria);
+
+        const lines = formatListings(ads);
+        await recordShownListings(
+          runtime,
+          userId,
+          ads.map((a) => a.link),
+        );
+
+        await startShowingResults(runtime, userId, refinedCriteria, paging);
+
+        const updated = `Updated search: ${describeSearchCriteria(refinedCriteria)}.`;
+        const responseText = ads.length
+          ? `${updated}\n\nHere are ${ads.length} properties matching${firstPageLabel(paging)}:\n\n${lines}${yieldFloorNote(paging, refinedCriteria)}\n\nWhat would you like to do next? You can ask to see more, refine the search further, or save these criteria.`
+          : `${updated}\n\nI couldn't find any listings matching that. Would you like to change something else?`;
+
+        const response: Content = {
+          text: responseText,
+          actions: ["SEARCH_LISTINGS"],
+          source: messageSource,
+        };
+
+        await callback(response);
+        return response;
+      } catch (error) {
+        logger.error({ error }, "Error fetching refined property listings");
+        const errorResponse: Content = {
+          text: `I encountered an issue searching with the updated criteria. Please try again.`,
+          actions: ["SEARCH_LISTINGS"],
+          source: messageSource,
+        };
+
+        await callback(errorResponse);
+        return errorResponse;
+      }
+    }
+
     // If we're showing listing results and user asks for more
-    if (state.values.showingListingResults === true) {
-      const showMorePattern = /(?:show|send|get|give)\s+(?:more|next)/i;
-      const narrowPattern = /(?:narrow|filter|tighten|refine|specific|less)/i;
-      const savePattern = /(?:save|store|remember|keep)\s+(?:this|these|search|criteria)/i;
-      
-      if (showMorePattern.test(text)) {
+    if (session?.state === "showing_results") {
+      if (SHOW_MORE_PATTERN.test(text)) {
         // Show next batch of listings
         try {
-          const criteriaForNextBatch = state.values.lastSearchCriteria || {};
-          const additionalAds = await fetchAds(criteriaForNextBatch);
-          
-          const lines = additionalAds.map((a, idx) => {
-            // Ensure links are clickable and lists are well-formatted for Discord
-            return `**${idx + 1}. ${a.title.replace(/\n/g, ' ')} – ${String(a.price).replace(/\n/g, ' ')}**\n<${a.link}>`;
-          }).join('\n\n'); // Double newline for better separation between list items
-          
+          const criteriaForNextBatch = session.criteria;
+          const paging: ListingPageState = session.paging || {
+            page: 1,
+            total: null,
+            nextCursor: null,
+          };
+          let { page, total, nextCursor } = paging;
+          let hasMore =
+            paging.hasMore ??
+            (total === null || page * DEFAULT_PAGE_SIZE < total);
+          let additionalAds: ListingWithYield[] = [];
+          let belowYieldFloor = 0;
+
+          // Move on through the results, skipping pages whose listings were all shown already
+          for (
+            let skipped = 0;
+            hasMore && skipped < MAX_SEEN_PAGES_SKIPPED;
+            skipped++
+          ) {
+            page++;
+            const result = await fetchAds(criteriaForNextBatch, {
+              offset: (page - 1) * DEFAULT_PAGE_SIZE,
+              cursor: nextCursor,
+            });
+            total = result.total ?? total;
+            nextCursor = result.nextCursor;
+            hasMore = hasMorePages(result, DEFAULT_PAGE_SIZE);
+            belowYieldFloor += result.belowYieldFloor;
+            additionalAds = await filterUnseenListings(
+              runtime,
+              userId,
+              result.listings,
+            );
+            if (additionalAds.length > 0) break;
+          }
+          const nextPaging: ListingPageState = {
+            page,
+            total,
+            nextCursor,
+            belowYieldFloor,
+            hasMore,
+          };
+          await advanceSearchSession(runtime, userId, {
+            type: "show_page",
+            paging: nextPaging,
+          });
+
+          const lines = formatListings(
+            additionalAds,
+            (page - 1) * DEFAULT_PAGE_SIZE + 1,
+          );
+          await recordShownListings(
+            runtime,
+            userId,
+            additionalAds.map((a) => a.link),
+          );
+
           const responseText = additionalAds.length
-            ? `Here are more options matching your criteria:\n\n${lines}\n\nWhat would you like to do next? You can ask to see more, refine the search, or save these criteria.`
+            ? `Here are more options matching your criteria (${formatPageIndicator(page, total, DEFAULT_PAGE_SIZE)}):\n\n${lines}${yieldFloorNote(nextPaging, criteriaForNextBatch)}\n\nWhat would you like to do next? You can ask to see more, refine the search, or save these criteria.`
             : `I don't have any more listings that match your current criteria. Would you like to broaden your search or try different terms?`;
 
           const response: Content = {
             text: responseText,
-            actions: ['SEARCH_LISTINGS'],
+            actions: ["SEARCH_LISTINGS"],
             source: messageSource,
           };
-          
+
           await callback(response);
           return response;
-          
         } catch (error) {
-          logger.error('Error fetching additional listings:', error);
+          logger.error("Error fetching additional listings:", error);
           const errorResponse: Content = {
             text: `I encountered an issue getting more listings. Would you like to try a different search?`,
-            actions: ['SEARCH_LISTINGS'],
+            actions: ["SEARCH_LISTINGS"],
             source: messageSource,
           };
-          
+
           await callback(errorResponse);
           return errorResponse;
         }
-      } else if (narrowPattern.test(text)) {
-        state.values.showingListingResults = false;
-        state.values.awaitingPropertyCriteria = true;
-        
+      } else if (NARROW_PATTERN.test(text)) {
+        try {
+          await advanceSearchSession(runtime, userId, { type: "refine" });
+        } catch (error) {
+          if (!(error instanceof InvalidSearchTransitionError)) throw error;
+          // The session expired or moved on since it was loaded
+          const expiredResponse: Content = {
+            text: `That search has expired. Tell me what you're looking for and I'll start a new one.`,
+            actions: ["SEARCH_LISTINGS"],
+            source: messageSource,
+          };
+
+          await callback(expiredResponse);
+          return expiredResponse;
+        }
+
         const response: Content = {
-          text: `Let's refine your search. Please tell me which aspect you'd like to adjust (area, property type, bedrooms, price range)?`,
-          actions: ['SEARCH_LISTINGS'],
+          text: `Let's refine your search: ${describeSearchCriteria(session.criteria)}. What would you like to change? For example "make it 3 beds", "drop the budget to 2M" or "any area near Downtown".`,
+          actions: ["SEARCH_LISTINGS"],
           source: messageSource,
         };
-        
+
         await callback(response);
         return response;
-        
-      } else if (savePattern.test(text)) {
-        const criteriaToSave = state.values.lastSearchCriteria || {};
-        
+      } else if (SAVE_RESULTS_PATTERN.test(text)) {
+        const criteriaToSave = session.criteria;
+
         try {
-          await saveSearchPreferences(runtime, userId, criteriaToSave);
-          
+          const saved = await saveSearch(
+            runtime,
+            userId,
+            parseSearchName(text) || defaultSearchName(criteriaToSave),
+            criteriaToSave,
+          );
+
           const response: Content = {
-            text: `I've saved your search preferences. I'll remember that you're interested in ${
-              criteriaToSave.propertyType ? criteriaToSave.propertyType + ' ' : ''
-            }${
-              criteriaToSave.bedrooms ? criteriaToSave.bedrooms + ' bedroom ' : ''
-            }properties${
-              criteriaToSave.area ? ' in ' + criteriaToSave.area : ''
-            }${
-              criteriaToSave.maxPrice ? ' under AED ' + criteriaToSave.maxPrice.toLocaleString() : ''
-            }. You can ask me for "new listings" anytime to see the latest matches.`,
-            actions: ['SEARCH_LISTINGS'],
+            text: `I've saved this search as "${saved.name}": ${describeSearchCriteria(saved.criteria)}. You can ask me for "new listings" anytime to see the latest matches, say "alert me daily" and I'll send new ones here as they appear, or "list my saved searches" to manage them.`,
+            actions: ["SEARCH_LISTINGS"],
             source: messageSource,
           };
-          
+
           await callback(response);
           return response;
-          
         } catch (error) {
-          logger.error('Error saving search criteria:', error);
+          logger.error("Error saving search criteria:", error);
           const errorResponse: Content = {
             text: `I tried to save your preferences but encountered an issue. You can still continue browsing properties or try a new search.`,
-            actions: ['SEARCH_LISTINGS'],
+            actions: ["SEARCH_LISTINGS"],
             source: messageSource,
           };
-          
+
           await callback(errorResponse);
           return errorResponse;
         }
       }
     }
-    
-    if (state.values.awaitingPropertyCriteria) {
-      state.values.awaitingPropertyCriteria = false;
-      
-      const currentCriteria = extractSearchCriteria(text);
-      state.values.lastSearchCriteria = currentCriteria;
-      
+
+    if (session?.state === "awaiting_criteria") {
+      const currentCriteria = await readSearchCriteria(runtime, text);
+
       try {
-        const ads = await fetchAds(currentCriteria);
-        await saveSearchPreferences(runtime, userId, currentCriteria);
-        
+        const { ads, paging } = await fetchFirstPage(currentCriteria);
+        await logSearch(runtime, message, currentCriteria);
+
         try {
           await (runtime as any).sql?.query?.(
             `UPDATE search_logs SET listings_returned = ? WHERE user_id = ? ORDER BY timestamp DESC LIMIT 1`,
-            [ads.length, userId]
+            [ads.length, userId],
           );
         } catch (error) {
-          logger.error('Error updating search_logs count:', error);
+          logger.error("Error updating search_logs count:", error);
         }
-        
-        const lines = ads.map((a, idx) => {
-          return `**${idx + 1}. ${a.title.replace(/\n/g, ' ')} – ${String(a.price).replace(/\n/g, ' ')}**\n<${a.link}>`;
-        }).join('\n\n');
-        
-        state.values.showingListingResults = true;
-        
+
+        const lines = formatListings(ads);
+        await recordShownListings(
+          runtime,
+          userId,
+          ads.map((a) => a.link),
+        );
+
+        await startShowingResults(runtime, userId, currentCriteria, paging);
+
         const responseText = ads.length
-          ? `Here are ${ads.length} properties matching your criteria:\n\n${lines}\n\nWhat would you like to do next? You can ask to see more, refine the search, or save these criteria.`
+          ? `Here are ${ads.length} properties matching your criteria${firstPageLabel(paging)}:\n\n${lines}${yieldFloorNote(paging, currentCriteria)}\n\nWhat would you like to do next? You can ask to see more, refine the search, or save these criteria.`
           : `I couldn't find any listings matching your specific criteria. Would you like to try a broader search or different terms?`;
 
         const response: Content = {
           text: responseText,
-          actions: ['SEARCH_LISTINGS'],
+          actions: ["SEARCH_LISTINGS"],
           source: messageSource,
         };
-        
+
         await callback(response);
         return response;
-        
       } catch (error) {
-        logger.error('Error fetching property listings:', error);
+        logger.error("Error fetching property listings:", error);
         const errorResponse: Content = {
           text: `I encountered an issue searching for properties. Please try again with different criteria.`,
-          actions: ['SEARCH_LISTINGS'],
+          actions: ["SEARCH_LISTINGS"],
           source: messageSource,
         };
-        
+
         await callback(errorResponse);
         return errorResponse;
       }
     }
-    
-    const savedSearchPattern = /(?:show|get|what|my)\s+(?:previous|saved|last|recent)?\s*(?:search|criteria|preferences)/i;
-    const newListingsPattern = /(?:new|latest|recent|updated)\s+(?:listings|properties|options)/i;
-    
+
+    const savedSearchPattern =
+      /(?:show|get|what|my)\s+(?:previous|saved|last|recent)?\s*(?:search|criteria|preferences)/i;
+    const newListingsPattern =
+      /(?:new|latest|recent|updated)\s+(?:listings|properties|options)/i;
+
     if (savedSearchPattern.test(text) || newListingsPattern.test(text)) {
       try {
-        const savedPreferencesResult = await (runtime as any).sql?.query?.(
-          `SELECT area, property_type, bedrooms, max_price, min_price, yield_floor, furnished
-           FROM preferences WHERE user_id = ? ORDER BY last_updated DESC LIMIT 1`,
-          [userId]
-        );
-        
-        if (savedPreferencesResult && savedPreferencesResult.length > 0) {
-          const pref = savedPreferencesResult[0];
-          const criteriaFromDb = {
-            area: pref.area,
-            propertyType: pref.property_type,
-            bedrooms: pref.bedrooms,
-            maxPrice: pref.max_price ? parseInt(pref.max_price) : undefined,
-            minPrice: pref.min_price ? parseInt(pref.min_price) : undefined,
-          };
-          state.values.lastSearchCriteria = criteriaFromDb;
-          
-          const ads = await fetchAds(criteriaFromDb);
-          
-          const lines = ads.map((a, idx) => {
-            return `**${idx + 1}. ${a.title.replace(/\n/g, ' ')} – ${String(a.price).replace(/\n/g, ' ')}**\n<${a.link}>`;
-          }).join('\n\n');
-          
-          state.values.showingListingResults = true;
-          
+        const activeSearch = await getActiveSearch(runtime, userId);
+
+        if (activeSearch) {
+          const criteriaFromDb = activeSearch.criteria;
+          const { ads, paging } = await fetchFirstPage(criteriaFromDb);
+
+          const lines = formatListings(ads);
+          await recordShownListings(
+            runtime,
+            userId,
+            ads.map((a) => a.link),
+          );
+
+          await startShowingResults(runtime, userId, criteriaFromDb, paging);
+
           const responseText = ads.length
-            ? `Based on your saved preferences ${
-              newListingsPattern.test(text) ? '(showing latest listings)' : ''
-              }, here are ${ads.length} properties matching:\n\n${lines}\n\nWhat would you like to do next? You can ask to see more, refine the search, or update your saved preferences.`
+            ? `Based on your saved search "${activeSearch.name}"${
+                newListingsPattern.test(text)
+                  ? " (showing latest listings)"
+                  : ""
+              }, here are ${ads.length} properties matching${firstPageLabel(paging)}:\n\n${lines}${yieldFloorNote(paging, criteriaFromDb)}\n\nWhat would you like to do next? You can ask to see more, refine the search, or update your saved preferences.`
             : `I couldn't find any current listings matching your saved preferences. Would you like to try different criteria?`;
 
           const response: Content = {
             text: responseText,
-            actions: ['SEARCH_LISTINGS'],
+            actions: ["SEARCH_LISTINGS"],
             source: messageSource,
           };
-          
+
           await callback(response);
           return response;
-          
         } else {
-          state.values.awaitingPropertyCriteria = true;
+          await advanceSearchSession(runtime, userId, { type: "ask_criteria" });
           const response: Content = {
             text: `I don't have any saved search preferences for you yet. What kind of property are you looking for? Please specify area, property type, number of bedrooms and/or price range.`,
-            actions: ['SEARCH_LISTINGS'],
+            actions: ["SEARCH_LISTINGS"],
             source: messageSource,
           };
           await callback(response);
           return response;
         }
       } catch (error) {
-        logger.error('Error retrieving saved preferences or fetching ads:', error);
-        state.values.awaitingPropertyCriteria = true;
+        logger.error(
+          "Error retrieving saved preferences or fetching ads:",
+          error,
+        );
+        await advanceSearchSession(runtime, userId, { type: "ask_criteria" });
         const errorResponse: Content = {
           text: `I encountered an issue with your saved preferences. Let's start a new search - what are you looking for?`,
-          actions: ['SEARCH_LISTINGS'],
+          actions: ["SEARCH_LISTINGS"],
           source: messageSource,
         };
         await callback(errorResponse);
         return errorResponse;
       }
     }
-    
-    const initialCriteria = extractSearchCriteria(text);
+
+    const initialCriteria = await readSearchCriteria(runtime, text);
     if (
-      (initialCriteria.area || initialCriteria.propertyType || initialCriteria.bedrooms) &&
-      (initialCriteria.maxPrice || initialCriteria.minPrice || initialCriteria.area) // Ensure enough detail
+      (initialCriteria.area ||
+        initialCriteria.propertyType ||
+        initialCriteria.bedrooms) &&
+      (initialCriteria.maxPrice ||
+        initialCriteria.minPrice ||
+        initialCriteria.area) // Ensure enough detail
     ) {
-      state.values.lastSearchCriteria = initialCriteria;
-      
       try {
-        const ads = await fetchAds(initialCriteria);
-        await saveSearchPreferences(runtime, userId, initialCriteria);
-        
+        const { ads, paging } = await fetchFirstPage(initialCriteria);
+        await logSearch(runtime, message, initialCriteria);
+
         try {
           await (runtime as any).sql?.query?.(
             `UPDATE search_logs SET listings_returned = ? WHERE user_id = ? ORDER BY timestamp DESC LIMIT 1`,
-            [ads.length, userId]
+            [ads.length, userId],
           );
         } catch (error) {
-          logger.error('Error updating search_logs count:', error);
+          logger.error("Error updating search_logs count:", error);
         }
 
-        const lines = ads.map((a, idx) => {
-          return `**${idx + 1}. ${a.title.replace(/\n/g, ' ')} – ${String(a.price).replace(/\n/g, ' ')}**\n<${a.link}>`;
-        }).join('\n\n');
-        
-        state.values.showingListingResults = true;
-        
+        const lines = formatListings(ads);
+        await recordShownListings(
+          runtime,
+          userId,
+          ads.map((a) => a.link),
+        );
+
+        await startShowingResults(runtime, userId, initialCriteria, paging);
+
         const responseText = ads.length
-          ? `Here are ${ads.length} properties matching your criteria:\n\n${lines}\n\nWhat would you like to do next? You can ask to see more, refine the search, or save these criteria.`
+          ? `Here are ${ads.length} properties matching your criteria${firstPageLabel(paging)}:\n\n${lines}${yieldFloorNote(paging, initialCriteria)}\n\nWhat would you like to do next? You can ask to see more, refine the search, or save these criteria.`
           : `I couldn't find any listings matching your specific criteria. Would you like to try a broader search or different terms?`;
 
         const response: Content = {
           text: responseText,
-          actions: ['SEARCH_LISTINGS'],
+          actions: ["SEARCH_LISTINGS"],
           source: messageSource,
         };
-        
+
         await callback(response);
         return response;
-        
       } catch (error) {
-        logger.error('Error fetching property listings initially:', error);
+        logger.error("Error fetching property listings initially:", error);
         // Fall through to ask for criteria if initial fetch fails
       }
     }
-    
+
     // Default: Ask for criteria
-    state.values.awaitingPropertyCriteria = true;
+    await advanceSearchSession(runtime, userId, { type: "ask_criteria" });
     const response: Content = {
-      text: (
-        'I can help you find property listings! Please provide some details about what you\'re looking for, such as:\n' +
-        '- Area (e.g., Dubai Marina, JVC, Downtown)\n' +
-        '- Property type (apartment, villa, etc.)\n' +
-        '- Number of bedrooms\n' +
-        '- Budget/price range\n\n' +
-        'For example: "2 bedroom apartment in Dubai Marina under 1.5M AED"'.replace(/\\n/g, '\n')
-      ),
-      actions: ['SEARCH_LISTINGS'],
+      text:
+        "I can help you find property listings! Please provide some details about what you're looking for, such as:\n" +
+        "- Area (e.g., Dubai Marina, JVC, Downtown)\n" +
+        "- Property type (apartment, villa, etc.)\n" +
+        "- Number of bedrooms\n" +
+        "- Budget/price range\n\n" +
+        'For example: "2 bedroom apartment in Dubai Marina under 1.5M AED"'.replace(
+          /\\n/g,
+          "\n",
+        ),
+      actions: ["SEARCH_LISTINGS"],
       source: messageSource,
     };
-    
+
     await callback(response);
     return response;
   },
-  
+
   examples: [
     [
-      { 
-        name: '{{user}}', 
-        content: { 
-          text: 'Show me 2 bedroom apartments in Dubai Marina under 1.5M' 
-        } 
+      {
+        name: "{{user}}",
+        content: {
+          text: "Show me 2 bedroom apartments in Dubai Marina under 1.5M",
+        },
       },
-      { 
-        name: 'John', 
-        content: { 
-          text: 'Here are 3 properties matching your criteria:\n\n**1. Modern 2 Bedroom in Marina Heights – AED 1,450,000**\nhttps://www.propertyfinder.ae/en/buy/dubai/apartment-for-sale-dubai-marina-marina-heights-8654321.html\n\n**2. Spacious 2 BR with Sea View – AED 1,380,000**\nhttps://www.propertyfinder.ae/en/buy/dubai/apartment-for-sale-dubai-marina-marina-promenade-9876543.html\n\nWould you like to see more options, refine your search, or save these search criteria for later?',
-          actions: ['SEARCH_LISTINGS'] 
-        }
+      {
+        name: "John",
+        content: {
+          text: "Here are 3 properties matching your criteria:\n\n**1. Modern 2 Bedroom in Marina Heights – AED 1,450,000**\nhttps://www.propertyfinder.ae/en/buy/dubai/apartment-for-sale-dubai-marina-marina-heights-8654321.html\n\n**2. Spacious 2 BR with Sea View – AED 1,380,000**\nhttps://www.propertyfinder.ae/en/buy/dubai/apartment-for-sale-dubai-marina-marina-promenade-9876543.html\n\nWould you like to see more options, refine your search, or save these search criteria for later?",
+          actions: ["SEARCH_LISTINGS"],
+        },
       },
     ],
     [
-      { 
-        name: '{{user}}', 
-        content: { 
-          text: 'Show me my saved property search' 
-        } 
+      {
+        name: "{{user}}",
+        content: {
+          text: "Show me my saved property search",
+        },
       },
-      { 
-        name: 'John', 
-        content: { 
-          text: 'Based on your saved preferences, here are 2 properties matching: 2 bedroom apartment in Dubai Marina under AED 1,500,000\n\n**1. Modern 2 Bedroom in Marina Heights – AED 1,450,000**\nhttps://www.propertyfinder.ae/en/buy/dubai/apartment-for-sale-dubai-marina-marina-heights-8654321.html\n\n**2. Spacious 2 BR with Sea View – AED 1,380,000**\nhttps://www.propertyfinder.ae/en/buy/dubai/apartment-for-sale-dubai-marina-marina-promenade-9876543.html\n\nWould you like to see more options, refine your search, or update your saved preferences?',
-          actions: ['SEARCH_LISTINGS'] 
-        }
+      {
+        name: "John",
+        content: {
+          text: 'Based on your saved search "dubai-marina-2bed-apartment", here are 2 properties matching: 2 bedroom apartment in Dubai Marina under AED 1,500,000\n\n**1. Modern 2 Bedroom in Marina Heights – AED 1,450,000**\nhttps://www.propertyfinder.ae/en/buy/dubai/apartment-for-sale-dubai-marina-marina-heights-8654321.html\n\n**2. Spacious 2 BR with Sea View – AED 1,380,000**\nhttps://www.propertyfinder.ae/en/buy/dubai/apartment-for-sale-dubai-marina-marina-promenade-9876543.html\n\nWould you like to see more options, refine your search, or update your saved preferences?',
+          actions: ["SEARCH_LISTINGS"],
+        },
       },
     ],
   ],
 };
 
-// Helper to fetch detailed property data from n8n webhook
-async function fetchPropertyDetails(link: string): Promise<any | null> {
-  try {
-    logger.info(`[fetchPropertyDetails] Function called with link: ${link}`);
-    const fetchModule = await import('node-fetch');
-    const fetch = fetchModule.default;
-    
-    // Add retry logic with max 3 attempts
-    const MAX_ATTEMPTS = 3;
-    let lastError = null;
-    
-    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
-      try {
-        logger.info(`[fetchPropertyDetails] Attempt ${attempt}/${MAX_ATTEMPTS} to fetch from n8n webhook`);
-        
-        logger.info(`[fetchPropertyDetails] Attempting to fetch from n8n webhook: https://realyield.app.n8n.cloud/webhook/propertyfinder`);
-        const res = await fetch('https://realyield.app.n8n.cloud/webhook/propertyfinder', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ link }),
-        });
-        
-        if (res.status === 200) {
-          const data = await res.json();
-          logger.info(`[fetchPropertyDetails] Successfully received data from n8n`);
-          return data;
+// Helper to recognise requests to set up or change listing alerts
+function isAlertRequest(text: string): boolean {
+  return /\b(?:alerts?|notify|notifications?|quiet hours)\b|let me know when|message me when/i.test(
+    text,
+  );
+}
+
+// Helper to describe alert settings, e.g. "every 24 hours, quiet hours 22:00–08:00"
+function describeAlertSchedule(
+  frequencyHours: number,
+  quietStart: number | null,
+  quietEnd: number | null,
+): string {
+  const frequency =
+    frequencyHours === 24
+      ? "once a day"
+      : frequencyHours === 168
+        ? "once a week"
+        : `every ${frequencyHours} hours`;
+  const pad = (hour: number) => `${String(hour).padStart(2, "0")}:00`;
+  return quietStart === null || quietEnd === null
+    ? frequency
+    : `${frequency}, quiet hours ${pad(quietStart)}–${pad(quietEnd)} Dubai time`;
+}
+
+// Action managing proactive alerts for a user's saved search
+const listingAlertsAction: Action = {
+  name: "LISTING_ALERTS",
+  similes: [
+    "NEW_LISTING_ALERTS",
+    "SEARCH_ALERTS",
+    "NOTIFY_NEW_LISTINGS",
+    "QUIET_HOURS",
+  ],
+  description:
+    "Turns saved-search alerts on or off and sets how often they run and the quiet hours when no alerts are sent",
+
+  validate: async (_runtime: IAgentRuntime, message: Memory) => {
+    return isAlertRequest(message.content.text || "");
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State,
+    _options: any,
+    callback: HandlerCallback,
+  ) => {
+    const text = (message.content.text || "").trim();
+    const userId = searchOwnerId(message);
+    const messageSource = message.content.source;
+    const request = parseAlertRequest(text);
+
+    try {
+      const existing = await getAlertSettings(runtime, userId);
+      if (request.enabled === false && !existing?.enabled) {
+        const response: Content = {
+          text: `You don't have listing alerts switched on, so there's nothing to pause.`,
+          actions: ["LISTING_ALERTS"],
+          source: messageSource,
+        };
+        await callback(response);
+        return response;
+      }
+
+      const settings = {
+        userId,
+        source: messageSource || existing?.source || "unknown",
+        roomId: message.roomId,
+        entityId: message.entityId,
+        frequencyHours:
+          request.frequencyHours ?? existing?.frequencyHours ?? 24,
+        quietStart:
+          request.quietStart !== undefined
+            ? request.quietStart
+            : (existing?.quietStart ?? null),
+        quietEnd:
+          request.quietEnd !== undefined
+            ? request.quietEnd
+            : (existing?.quietEnd ?? null),
+        enabled: request.enabled !== false,
+        // Start the clock now so the first alert doesn't repeat what the user just saw
+        lastCheckedAt: existing?.lastCheckedAt ?? new Date(),
+      };
+      await saveAlertSettings(runtime, settings);
+
+      const savedSearch = await getActiveSearch(runtime, userId);
+      const schedule = describeAlertSchedule(
+        settings.frequencyHours,
+        settings.quietStart,
+        settings.quietEnd,
+      );
+
+      let responseText: string;
+      if (!settings.enabled) {
+        responseText = `Listing alerts paused. Say "alert me daily" whenever you want them back.`;
+      } else if (savedSearch) {
+        responseText = `Listing alerts are on: I'll re-run your saved search "${savedSearch.name}" ${schedule} and message you here with listings you haven't seen yet.`;
+      } else {
+        responseText = `Listing alerts are set (${schedule}), but you don't have a saved search yet. Run a search and say "save this search", and I'll start sending new matches here.`;
+      }
+
+      const response: Content = {
+        text: responseText,
+        actions: ["LISTING_ALERTS"],
+        source: messageSource,
+      };
+      await callback(response);
+      return response;
+    } catch (error) {
+      logger.error({ error }, "Error updating listing alerts");
+      const errorResponse: Content = {
+        text: `I couldn't update your listing alerts right now. Please try again later.`,
+        actions: ["LISTING_ALERTS"],
+        source: messageSource,
+      };
+      await callback(errorResponse);
+      return errorResponse;
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: "{{user}}",
+        content: {
+          text: "Alert me every 12 hours about new listings, quiet hours 10pm-8am",
+        },
+      },
+      {
+        name: "John",
+        content: {
+          text: "Listing alerts are on: I'll re-run your saved search \"marina-2bed\" every 12 hours, quiet hours 22:00–08:00 Dubai time and message you here with listings you haven't seen yet.",
+          actions: ["LISTING_ALERTS"],
+        },
+      },
+    ],
+  ],
+};
+
+// Helper to list saved searches, marking the active one
+function formatSavedSearches(searches: SavedSearch[]): string {
+  return searches
+    .map(
+      (search, index) =>
+        `**${index + 1}. ${search.name}**${search.active ? " (active)" : ""}\n${describeSearchCriteria(search.criteria)}`,
+    )
+    .join("\n\n");
+}
+
+// Action listing, running, renaming, deleting and editing named saved searches
+const savedSearchesAction: Action = {
+  name: "SAVED_SEARCHES",
+  similes: [
+    "LIST_SAVED_SEARCHES",
+    "RUN_SAVED_SEARCH",
+    "RENAME_SAVED_SEARCH",
+    "DELETE_SAVED_SEARCH",
+  ],
+  description:
+    "Lists, runs, switches between, renames and deletes named saved searches, and clears individual criteria from them",
+
+  validate: async (runtime: IAgentRuntime, message: Memory) => {
+    return (
+      parseSavedSearchCommand(message.content.text || "") !== null &&
+      !(await isSearchRefinement(runtime, message))
+    );
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State,
+    _options: any,
+    callback: HandlerCallback,
+  ) => {
+    const text = (message.content.text || "").trim();
+    const userId = searchOwnerId(message);
+    const messageSource = message.content.source;
+    const command = parseSavedSearchCommand(text);
+
+    const reply = async (responseText: string) => {
+      const response: Content = {
+        text: responseText,
+        actions: ["SAVED_SEARCHES"],
+        source: messageSource,
+      };
+      await callback(response);
+      return response;
+    };
+
+    if (!command) {
+      return reply(
+        `Which saved search would you like to manage? Say "list my saved searches" to see them.`,
+      );
+    }
+
+    try {
+      const searches = await listSavedSearches(runtime, userId);
+      if (searches.length === 0) {
+        return reply(
+          `You don't have any saved searches yet. Run a search and say "save this search as <name>" to keep it.`,
+        );
+      }
+      const notFound = (name: string) =>
+        reply(
+          `I couldn't find a saved search called "${name}". Your saved searches are: ${searches
+            .map((search) => search.name)
+            .join(", ")}.`,
+        );
+
+      switch (command.type) {
+        case "list":
+          return reply(
+            `Your saved searches:\n\n${formatSavedSearches(searches)}\n\nSay "run search <name>" to see current listings, or "rename", "delete" or "clear <field> from search <name>" to manage them.`,
+          );
+
+        case "run": {
+          const search = await getSavedSearch(runtime, userId, command.name);
+          if (!search) return notFound(command.name);
+          await setActiveSearch(runtime, userId, search.name);
+
+          const { ads, paging } = await fetchFirstPage(search.criteria);
+          await recordShownListings(
+            runtime,
+            userId,
+            ads.map((a) => a.link),
+          );
+          await startShowingResults(runtime, userId, search.criteria, paging);
+
+          return reply(
+            ads.length
+              ? `Here are ${ads.length} properties for "${search.name}" (${describeSearchCriteria(search.criteria)})${firstPageLabel(paging)}:\n\n${formatListings(ads)}${yieldFloorNote(paging, search.criteria)}`
+              : `I couldn't find any current listings for "${search.name}" (${describeSearchCriteria(search.criteria)}).`,
+          );
         }
-        
-        if (!res.ok) {
-          logger.error(`[fetchPropertyDetails] webhook error ${res.status}`);
-          lastError = new Error(`Webhook error: ${res.status}`);
-          
-          // Wait before retry (exponential backoff)
-          if (attempt < MAX_ATTEMPTS) {
-            const backoffMs = Math.min(1000 * Math.pow(2, attempt - 1), 5000);
-            logger.info(`[fetchPropertyDetails] Waiting ${backoffMs}ms before retry`);
-            await new Promise(resolve => setTimeout(resolve, backoffMs));
+
+        case "use": {
+          if (!(await setActiveSearch(runtime, userId, command.name)))
+            return notFound(command.name);
+          return reply(
+            `"${command.name}" is now your active search; "new listings" and alerts will use it.`,
+          );
+        }
+
+        case "rename": {
+          if (!(await getSavedSearch(runtime, userId, command.name)))
+            return notFound(command.name);
+          if (await getSavedSearch(runtime, userId, command.newName)) {
+            return reply(
+              `You already have a saved search called "${command.newName}". Please pick another name.`,
+            );
           }
-          continue;
+          await renameSavedSearch(
+            runtime,
+            userId,
+            command.name,
+            command.newName,
+          );
+          return reply(`Renamed "${command.name}" to "${command.newName}".`);
         }
-        
-        const data = await res.json();
-        return data;
-      } catch (attemptError) {
-        logger.error(`[fetchPropertyDetails] Attempt ${attempt} failed:`, attemptError);
-        lastError = attemptError;
-        
-        // Wait before retry (exponential backoff)
-        if (attempt < MAX_ATTEMPTS) {
-          const backoffMs = Math.min(1000 * Math.pow(2, attempt - 1), 5000);
-          logger.info(`[fetchPropertyDetails] Waiting ${backoffMs}ms before retry`);
-          await new Promise(resolve => setTimeout(resolve, backoffMs));
+
+        case "delete": {
+          if (!(await deleteSavedSearch(runtime, userId, command.name)))
+            return notFound(command.name);
+          return reply(`Deleted the saved search "${command.name}".`);
+        }
+
+        case "clear": {
+          const name =
+            command.name ||
+            (searches.find((search) => search.active) || searches[0]).name;
+          const updated = await clearSavedSearchFields(
+            runtime,
+            userId,
+            name,
+            command.fields,
+          );
+          if (!updated) return notFound(name);
+          return reply(
+            `Cleared the ${describeSearchFields(command.fields)} from "${name}". It now matches ${describeSearchCriteria(updated.criteria)}.`,
+          );
         }
       }
+    } catch (error) {
+      logger.error({ error }, "Error managing saved searches");
+      return reply(
+        `I couldn't update your saved searches right now. Please try again later.`,
+      );
     }
-    
-    // If we've reached here, all attempts failed
-    logger.error(`[fetchPropertyDetails] All ${MAX_ATTEMPTS} attempts failed. Last error:`, lastError);
-    throw lastError;
-  } catch (err) {
-    logger.error('fetchPropertyDetails failed', err);
+  },
+
+  examples: [
+    [
+      {
+        name: "{{user}}",
+        content: {
+          text: "List my saved searches",
+        },
+      },
+      {
+        name: "John",
+        content: {
+          text: 'Your saved searches:\n\n**1. marina-2bed** (active)\n2 bedroom apartment properties in Dubai Marina under AED 1,500,000\n\n**2. jvc-studio-yield**\nstudio properties in JVC under AED 600,000\n\nSay "run search <name>" to see current listings, or "rename", "delete" or "clear <field> from search <name>" to manage them.',
+          actions: ["SAVED_SEARCHES"],
+        },
+      },
+    ],
+    [
+      {
+        name: "{{user}}",
+        content: {
+          text: "Clear the max price from search marina-2bed",
+        },
+      },
+      {
+        name: "John",
+        content: {
+          text: 'Cleared the maximum price from "marina-2bed". It now matches 2 bedroom apartment properties in Dubai Marina.',
+          actions: ["SAVED_SEARCHES"],
+        },
+      },
+    ],
+  ],
+};
+
+// Helper to describe a dataset segment, e.g. "studio apartments in JVC"
+function describeSegment(query: ContractQuery): string {
+  const bedrooms =
+    query.bedrooms === undefined
+      ? null
+      : query.bedrooms === 0
+        ? "studio"
+        : `${query.bedrooms}-bed`;
+  let subject: string;
+  if (query.propertyType) {
+    subject = [bedrooms, `${query.propertyType}s`].filter(Boolean).join(" ");
+  } else if (bedrooms) {
+    subject = bedrooms === "studio" ? "studios" : `${bedrooms} units`;
+  } else {
+    subject = "all properties";
+  }
+  return query.area ? `${subject} in ${query.area}` : subject;
+}
+
+// Helper to build a dataset query from extracted search criteria
+function criteriaToContractQuery(
+  text: string,
+  criteria: ReturnType<typeof extractSearchCriteria>,
+): ContractQuery {
+  const store = getRentalYieldStore();
+  return {
+    area: store?.resolveArea(text) || criteria.area,
+    propertyType: criteria.propertyType,
+    bedrooms: parseBedrooms(criteria.bedrooms) ?? undefined,
+    from: criteria.period?.from,
+    to: criteria.period?.to,
+  };
+}
+
+// Action answering yield questions with figures computed from the dataset
+const yieldStatsAction: Action = {
+  name: "YIELD_STATS",
+  similes: ["RENTAL_YIELD", "AVERAGE_YIELD", "YIELD_LOOKUP", "AREA_YIELD"],
+  description:
+    "Computes median and mean gross rental yield, sample size and the city-wide comparison for an area, property type, bedroom count and time window",
+
+  validate: async (_runtime: IAgentRuntime, message: Memory) => {
+    const text = (message.content.text || "").toLowerCase();
+    if (/https?:\/\//.test(text)) return false;
+    // Questions naming two or more segments belong to COMPARE_AREAS
+    if (parseComparisonSegments(text).length >= 2) return false;
+    return /\b(?:yield|yields|yielding|roi|rental return)\b/.test(text);
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State,
+    _options: any,
+    callback: HandlerCallback,
+  ) => {
+    const text = (message.content.text || "").trim();
+    const messageSource = message.content.source;
+    const store = getRentalYieldStore();
+
+    if (!store) {
+      const response: Content = {
+        text: `The rental yields dataset isn't loaded right now, so I can't compute yield figures. Please try again later.`,
+        actions: ["YIELD_STATS"],
+        source: messageSource,
+      };
+      await callback(response);
+      return response;
+    }
+
+    const criteria = await readSearchCriteria(runtime, text);
+    let query = criteriaToContractQuery(text, criteria);
+    let periodLabel = criteria.period?.label;
+    let comparison = store.compareToCity(query);
+    let note = "";
+
+    // Fall back to all dates when the requested window has no contracts
+    if (comparison.segment.count === 0 && criteria.period) {
+      query = { ...query, from: undefined, to: undefined };
+      comparison = store.compareToCity(query);
+      note = `_No contracts recorded ${criteria.period.label}; showing all available dates._\n`;
+      periodLabel = undefined;
+    }
+
+    const { segment, cityWide, spreadPp } = comparison;
+    const segmentLabel = describeSegment(query);
+    const heading =
+      segmentLabel.charAt(0).toUpperCase() + segmentLabel.slice(1);
+
+    if (!segment.grossYield) {
+      const response: Content = {
+        text: `I couldn't find any contracts with a transaction price for ${segmentLabel}${
+          periodLabel ? ` ${periodLabel}` : ""
+        }. Try a broader area, property type or time window.`,
+        actions: ["YIELD_STATS"],
+        source: messageSource,
+      };
+      await callback(response);
+      return response;
+    }
+
+    const y = segment.grossYield;
+    let responseText = `**${heading}${periodLabel ? ` (${periodLabel})` : ""}**\n${note}`;
+    responseText += `• Median gross yield: **${y.median.toFixed(1)}%** (mean ${y.mean.toFixed(1)}%)\n`;
+    responseText += `• Middle 50% of contracts: ${y.p25.toFixed(1)}% – ${y.p75.toFixed(1)}%\n`;
+    responseText += `• Sample size: ${y.count.toLocaleString()} contracts\n`;
+
+    if (query.area && cityWide.grossYield && spreadPp !== null) {
+      const direction = spreadPp >= 0 ? "above" : "below";
+      responseText += `• City-wide median for ${describeSegment({ ...query, area: undefined })}: ${cityWide.grossYield.median.toFixed(1)}% → **${Math.abs(spreadPp).toFixed(1)} pp ${direction}** the city median\n`;
+    }
+
+    const response: Content = {
+      text: responseText.trim(),
+      actions: ["YIELD_STATS"],
+      source: messageSource,
+    };
+
+    await callback(response);
+    return response;
+  },
+
+  examples: [
+    [
+      {
+        name: "{{user}}",
+        content: {
+          text: "What was the average yield for studios in JVC last year?",
+        },
+      },
+      {
+        name: "John",
+        content: {
+          text: "**Studios in Jumeirah Village Circle (in 2025)**\n• Median gross yield: **7.3%** (mean 7.4%)\n• Middle 50% of contracts: 6.8% – 7.9%\n• Sample size: 212 contracts\n• City-wide median for studios: 6.9% → **0.4 pp above** the city median",
+          actions: ["YIELD_STATS"],
+        },
+      },
+    ],
+  ],
+};
+
+// Helper to split "1-bed in Business Bay vs 2-bed in Dubai Marina" into one
+// dataset query per side; missing type/bedrooms are carried over from the
+// previous side so "studios in JVC vs JLT" compares like with like. Lists
+// joined by "and", "or" or commas only count when the question asks for a
+// comparison, so "yields in Samara, Arabian Ranches 2" stays one area
+function parseComparisonSegments(text: string): ContractQuery[] {
+  const store = getRentalYieldStore();
+  if (!store) return [];
+  if (
+    !/\b(?:vs\.?|versus|compared (?:to|with)|against|compare|comparison|better|which)\b/i.test(
+      text,
+    )
+  ) {
+    return [];
+  }
+
+  const period = extractTimeWindow(text);
+  const parts = text.split(
+    /\s+(?:vs\.?|versus|compared (?:to|with)|against|or|and)\s+|\s*,\s*(?:and\s+)?/i,
+  );
+
+  const queries: ContractQuery[] = [];
+  for (const part of parts) {
+    const area = store.resolveArea(part);
+    if (!area) continue;
+
+    const criteria = extractSearchCriteria(part);
+    const previous = queries[queries.length - 1];
+    queries.push({
+      area,
+      propertyType: criteria.propertyType || previous?.propertyType,
+      bedrooms: parseBedrooms(criteria.bedrooms) ?? previous?.bedrooms,
+      from: period?.from,
+      to: period?.to,
+    });
+  }
+  return queries;
+}
+
+// Helper returning the index of the best value, or -1 when nothing is comparable
+function pickWinner(
+  values: (number | null)[],
+  higherIsBetter: boolean,
+): number {
+  let best = -1;
+  values.forEach((value, index) => {
+    if (value === null || !Number.isFinite(value)) return;
+    if (
+      best === -1 ||
+      (higherIsBetter ? value > values[best] : value < values[best])
+    ) {
+      best = index;
+    }
+  });
+  return best;
+}
+
+// Action comparing yield and price metrics across two or more segments
+const compareAreasAction: Action = {
+  name: "COMPARE_AREAS",
+  similes: ["AREA_COMPARISON", "COMPARE_YIELDS", "VERSUS", "WHICH_IS_BETTER"],
+  description:
+    "Compares gross yield, rent per sqft, price per sqft and sample size for two or more area/type/bedroom combinations side by side",
+
+  validate: async (_runtime: IAgentRuntime, message: Memory) => {
+    const text = message.content.text || "";
+    if (/https?:\/\//.test(text)) return false;
+    return parseComparisonSegments(text).length >= 2;
+  },
+
+  handler: async (
+    _runtime: IAgentRuntime,
+    message: Memory,
+    _state: State,
+    _options: any,
+    callback: HandlerCallback,
+  ) => {
+    const text = (message.content.text || "").trim();
+    const messageSource = message.content.source;
+    const store = getRentalYieldStore();
+    const queries = parseComparisonSegments(text);
+
+    if (!store || queries.length < 2) {
+      const response: Content = {
+        text: store
+          ? `Tell me at least two areas to compare, e.g. "1-bed in Business Bay vs 2-bed in Dubai Marina".`
+          : `The rental yields dataset isn't loaded right now, so I can't run a comparison. Please try again later.`,
+        actions: ["COMPARE_AREAS"],
+        source: messageSource,
+      };
+      await callback(response);
+      return response;
+    }
+
+    const segments = queries.map((query) => ({
+      query,
+      stats: store.stats(query),
+    }));
+    const labels = segments.map(({ query }) => describeSegment(query));
+
+    const metrics = [
+      {
+        name: "Gross yield",
+        values: segments.map(({ stats }) => stats.grossYield?.median ?? null),
+        format: (value: number) => `${value.toFixed(1)}%`,
+        higherIsBetter: true,
+      },
+      {
+        name: "Rent/sqft",
+        values: segments.map(({ stats }) => stats.rentPerSqft?.median ?? null),
+        format: (value: number) => formatAed(value),
+        higherIsBetter: true,
+      },
+      {
+        name: "Price/sqft",
+        values: segments.map(({ stats }) => stats.pricePerSqft?.median ?? null),
+        format: (value: number) => formatAed(value),
+        higherIsBetter: false,
+      },
+      {
+        name: "Contracts",
+        values: segments.map(({ stats }) => stats.count),
+        format: (value: number) => value.toLocaleString("en-US"),
+        higherIsBetter: true,
+      },
+    ];
+
+    // Columns are lettered so the table stays narrow enough for mobile clients
+    const letters = segments.map((_, index) => String.fromCharCode(65 + index));
+    const rows = metrics.map((metric) => {
+      const winner = pickWinner(metric.values, metric.higherIsBetter);
+      return [
+        metric.name,
+        ...metric.values.map((value) =>
+          value === null ? "n/a" : metric.format(value),
+        ),
+        winner === -1 ? "–" : letters[winner],
+      ];
+    });
+
+    const legend = labels
+      .map((label, index) => `**${letters[index]}** = ${label}`)
+      .join("\n");
+    const yieldWinner = pickWinner(metrics[0].values, true);
+    const period = extractTimeWindow(text);
+
+    let responseText = `${legend}${period ? `\n_Contracts ${period.label}_` : ""}\n\n`;
+    responseText += renderTable(["Metric", ...letters, "Winner"], rows);
+    responseText +=
+      yieldWinner === -1
+        ? `\n\nNone of these segments has contracts with transaction prices, so I can't call a yield winner.`
+        : `\n\nIf pure yield is the goal, **${labels[yieldWinner]}** wins. Lower price/sqft means a cheaper entry point per square foot.`;
+
+    const response: Content = {
+      text: responseText,
+      actions: ["COMPARE_AREAS"],
+      source: messageSource,
+    };
+
+    await callback(response);
+    return response;
+  },
+
+  examples: [
+    [
+      {
+        name: "{{user}}",
+        content: {
+          text: "Is it better to buy a 1-bed in Business Bay or a 2-bed in Dubai Marina for yield?",
+        },
+      },
+      {
+        name: "John",
+        content: {
+          text: "**A** = 1-bed units in Business Bay\n**B** = 2-bed units in Dubai Marina\n\n```\nMetric      | A         | B         | Winner\n------------+-----------+-----------+-------\nGross yield | 6.1%      | 5.3%      | A\nRent/sqft   | AED 98    | AED 92    | A\nPrice/sqft  | AED 1,610 | AED 1,740 | A\nContracts   | 412       | 388       | A\n```\n\nIf pure yield is the goal, **1-bed units in Business Bay** wins. Lower price/sqft means a cheaper entry point per square foot.",
+          actions: ["COMPARE_AREAS"],
+        },
+      },
+    ],
+  ],
+};
+
+// Helper to fetch detailed property data, served from the listing cache when
+// the same advert was fetched within the TTL unless a refresh is requested
+async function fetchPropertyDetails(
+  runtime: IAgentRuntime,
+  link: string,
+  { refresh = false }: { refresh?: boolean } = {},
+): Promise<PropertyDetails | null> {
+  logger.info(`[fetchPropertyDetails] Function called with link: ${link}`);
+  const listingId = canonicalListingId(link);
+
+  if (!refresh) {
+    const cached = await getCachedListing(runtime, listingId);
+    if (cached) {
+      logger.info(
+        `[fetchPropertyDetails] Cache hit for ${listingId} (fetched ${cached.fetchedAt.toISOString()})`,
+      );
+      return cached.details;
+    }
+  }
+
+  const details = await getListingSource().fetchDetails(link);
+  if (details) {
+    await cacheListing(runtime, listingId, details);
+    await recordPriceSnapshot(runtime, listingId, details.price);
+  }
+  return details;
+}
+
+// Helper that fetches an advert for an action, replying with the reason when
+// it can't be fetched or comes back incomplete
+async function fetchDetailsForAction(
+  runtime: IAgentRuntime,
+  link: string,
+  actionName: string,
+  callback: HandlerCallback,
+  options: { refresh?: boolean } = {},
+): Promise<PropertyDetails | null> {
+  let details: PropertyDetails | null;
+  try {
+    details = await fetchPropertyDetails(runtime, link, options);
+  } catch (error) {
+    if (!(error instanceof ListingValidationError)) throw error;
+    logger.warn(`[${actionName}] ${error.message}`);
+    await callback({
+      text: `That listing came back without a usable ${describeListingField(error.field)}, so I can't analyse it. Please check the advert shows one, or send me a different link.`,
+      actions: [actionName],
+    });
     return null;
   }
+
+  if (!details) {
+    logger.warn(`[${actionName}] fetchPropertyDetails returned null.`);
+    await callback({
+      text: "I had trouble retrieving that listing. Please try again later.",
+      actions: [actionName],
+    });
+  }
+  return details;
+}
+
+// Helper to recognise questions about a listing's price over time
+function isPriceHistoryQuestion(text: string): boolean {
+  return /price (?:history|change|drop|cut|reduc)|(?:dropped|reduced|cut|lowered|increased|changed) (?:the |its |in )?price|(?:has|did) (?:it|this|the price)\b.*\b(?:drop|go down|come down|fall|fell|change|increase|go up)/i.test(
+    text,
+  );
+}
+
+// Helper to recognise mortgage and financing questions, e.g. "finance it" or
+// "what would the monthly payment be?"
+function isFinanceQuestion(text: string): boolean {
+  return /\b(?:mortgage|financ(?:e|ing)|home loan|loan[- ]to[- ]value|ltv|down ?payment|monthly (?:payment|repayment|instal?ment)s?|cash[- ]on[- ]cash)\b/i.test(
+    text,
+  );
+}
+
+// Helper to recognise questions about the costs of buying, e.g. "what are the
+// fees on a 2M flat?" or "how much is the DLD fee?"
+function isTransactionCostQuestion(text: string): boolean {
+  return /\b(?:transaction|purchase|purchasing|buying|closing|upfront|acquisition|transfer|registration)\s+(?:costs?|fees?|charges)\b|\bdld\b|\bagent(?:'s)? (?:fee|commission)|\b(?:fees|costs) (?:on|for|of) (?:buying|this|it|a|an|the)\b/i.test(
+    text,
+  );
+}
+
+// Helper to describe a fetched listing as a comparable-search target
+function comparableTargetFromDetails(
+  details: PropertyDetails,
+): ComparableTarget | null {
+  const store = getRentalYieldStore();
+  const area = store?.resolveArea(
+    `${details.location || ""} ${details.title || ""}`,
+  );
+  if (!area) return null;
+
+  return {
+    area,
+    propertyType: details.propertyType || undefined,
+    bedrooms: details.bedrooms ?? undefined,
+    sizeSqft: details.size ?? undefined,
+  };
+}
+
+// Helper to summarise a recorded contract as evidence,
+// e.g. "2-bed, 1,210 sqft: AED 118,000/yr (2023-03-01)"
+function describeContract(contract: RentalContract): string {
+  const bedrooms =
+    contract.bedrooms === null
+      ? null
+      : contract.bedrooms === 0
+        ? "Studio"
+        : `${contract.bedrooms}-bed`;
+  const size = contract.sizeSqft
+    ? `${Math.round(contract.sizeSqft).toLocaleString("en-US")} sqft`
+    : null;
+  const date = contract.contractDate
+    ? ` (${formatDate(contract.contractDate)})`
+    : "";
+  const label = [bedrooms, size].filter(Boolean).join(", ") || contract.area;
+  return `${label}: ${formatAed(contract.annualRent)}/yr${date}`;
 }
 
-// Function to test if n8n webhook is accessible
-async function testPropertyLinkWebhook(): Promise<boolean> {
+// Helper to format a rank as an ordinal, e.g. 82 -> "82nd"
+function ordinal(value: number): string {
+  const suffixes = ["th", "st", "nd", "rd"];
+  const remainder = value % 100;
+  return (
+    value +
+    (suffixes[(remainder - 20) % 10] || suffixes[remainder] || suffixes[0])
+  );
+}
+
+// Helper to read where a listing is from its location and title, e.g.
+// "Marina Gate 1, Dubai Marina"
+function listingLocation(details: PropertyDetails): string {
+  return `${details.location || ""} ${details.title || ""}`;
+}
+
+// Helper to describe the service charge rate a purchase analysis assumes and
+// where it came from
+function describeServiceCharges(
+  serviceCharge: ServiceChargeEstimate | null,
+  ratePerSqft: number,
+  size: number | null | undefined,
+): string {
+  const source = !serviceCharge
+    ? "typical rate; no figures for this building or community"
+    : serviceCharge.basis === "building"
+      ? `${serviceCharge.name} rate`
+      : `${serviceCharge.name} median of ${serviceCharge.sampleSize} rate${serviceCharge.sampleSize === 1 ? "" : "s"}; building not on record`;
+  const annual = size ? `, about ${formatAed(ratePerSqft * size)}/yr` : "";
+  return `• Service charges: **AED ${+ratePerSqft.toFixed(2)}/sqft** (${source})${annual}\n`;
+}
+
+// Helper to itemise a purchase's upfront costs as analysis bullets
+function describeUpfrontCosts(costs: TransactionCosts): string {
+  let text = `• Upfront costs${costs.loanAmount ? "" : " (cash purchase)"}: **${formatAed(costs.total)}** (${costs.percentOfPrice.toFixed(1)}% of the price)\n`;
+  for (const item of costs.items) {
+    text += `  – ${item.label} (${item.basis}): ${formatAed(item.amount)}\n`;
+  }
+  return text;
+}
+
+// Helper to offer the financing breakdown under a purchase analysis, quoting
+// the typical resident first-home mortgage
+function describeFinancingOffer(price: number): string {
+  const mortgage = calculateMortgage({
+    price,
+    residency: "resident",
+    firstHome: true,
+    annualRate: DEFAULT_MORTGAGE_RATE,
+    termYears: DEFAULT_MORTGAGE_TERM_YEARS,
+  });
+  return `• Financing: about **${formatAed(mortgage.monthlyPayment)}/month** with ${formatAed(mortgage.downPayment)} down (resident first home, ${DEFAULT_MORTGAGE_RATE}% over ${DEFAULT_MORTGAGE_TERM_YEARS} years). Say "finance it" for the full breakdown and cash-on-cash return.\n`;
+}
+
+// Helper to decide between a rental and a purchase analysis. The advert's own
+// rent/sale type wins; otherwise the message ("looking to buy"), then the
+// user's active saved search, then a purchase.
+async function analysisPurpose(
+  runtime: IAgentRuntime,
+  message: Memory,
+  advertPurpose: ListingPurpose | null,
+): Promise<{ purpose: ListingPurpose; note?: string }> {
+  if (advertPurpose) return { purpose: advertPurpose };
+
+  const describe = (purpose: ListingPurpose) =>
+    purpose === "rent" ? "a rental" : "a purchase";
+  const fromText = purposeFromText(message.content.text || "");
+  if (fromText) {
+    return {
+      purpose: fromText,
+      note: `The advert doesn't say if it's to rent or buy, so I've treated it as ${describe(fromText)} as you asked.`,
+    };
+  }
+
   try {
-    logger.info('[testPropertyLinkWebhook] Testing connectivity to n8n webhook...');
-    const fetchModule = await import('node-fetch');
-    const fetch = fetchModule.default;
-    
-    // Send a test request with a dummy link
-    const testLink = 'https://www.propertyfinder.ae/en/test-only-connectivity-check';
-    const res = await fetch('https://realyield.app.n8n.cloud/webhook/propertyfinder', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ link: testLink }),
-    });
-    
-    // We don't care about the response data, just that we can reach the endpoint
-    logger.info(`[testPropertyLinkWebhook] Webhook test result: status=${res.status}`);
-    return res.status < 500; // Any non-server error is considered "reachable"
-  } catch (err) {
-    logger.error('[testPropertyLinkWebhook] Failed to connect to n8n webhook:', err);
-    return false;
+    const active = await getActiveSearch(runtime, searchOwnerId(message));
+    if (active?.criteria.purpose) {
+      return {
+        purpose: active.criteria.purpose,
+        note: `The advert doesn't say if it's to rent or buy, so I've treated it as ${describe(active.criteria.purpose)} like your saved search "${active.name}".`,
+      };
+    }
+  } catch (error) {
+    logger.warn(
+      { error },
+      "Could not read the active saved search for the analysis",
+    );
   }
+  return {
+    purpose: "sale",
+    note: `The advert doesn't say if it's to rent or buy, so I've treated it as a purchase. Say "I want to rent this" for a rental check.`,
+  };
 }
 
 const analysePropertyLinkAction: Action = {
-  name: 'ANALYSE_PROPERTY_LINK',
-  similes: ['ANALYZE_AD', 'PROPERTY_ANALYSIS', 'AD_ANALYSIS'],
-  description: 'Fetches a property advert and provides an investment or rental analysis.',
+  name: "ANALYSE_PROPERTY_LINK",
+  similes: ["ANALYZE_AD", "PROPERTY_ANALYSIS", "AD_ANALYSIS"],
+  description:
+    "Fetches a Property Finder, Bayut or Dubizzle advert and provides an investment or rental analysis.",
 
   validate: async (_rt, message) => {
-    const text = message.content.text || '';
-    logger.info(`[analysePropertyLinkAction.validate] Validating text: "${text}"`);
-    
-    // First do a simpler check for just the URL to catch raw URL pastes
-    if (text.startsWith('https://') && text.includes('propertyfinder.ae')) {
-      logger.info(`[analysePropertyLinkAction.validate] Direct URL match, returning true`);
-      return true;
-    }
-    
-    const propertyLinkRegex = /https?:\/\/(?:www\.)?propertyfinder\.ae\/[^\s]+/i;
-    const isValid = propertyLinkRegex.test(text);
-    logger.info(`[analysePropertyLinkAction.validate] Regex test result: ${isValid}`);
-    return isValid;
+    const text = message.content.text || "";
+    logger.info(
+      `[analysePropertyLinkAction.validate] Validating text: "${text}"`,
+    );
+
+    const portalLink = findPropertyLink(text);
+    logger.info(
+      `[analysePropertyLinkAction.validate] Portal link match: ${portalLink?.portal ?? "none"}`,
+    );
+    // Price history, financing and purchase cost questions about a link have their own actions
+    return (
+      portalLink !== null &&
+      !isPriceHistoryQuestion(text) &&
+      !isFinanceQuestion(text) &&
+      !isTransactionCostQuestion(text)
+    );
   },
 
   handler: async (runtime, message, _state, _opts, callback) => {
-    logger.info('[analysePropertyLinkAction.handler] Handler started.');
-    const propertyLinkRegex = /https?:\/\/(?:www\.)?propertyfinder\.ae\/[^\s]+/i;
-    const linkMatch = (message.content.text || '').match(propertyLinkRegex);
+    logger.info("[analysePropertyLinkAction.handler] Handler started.");
+    const linkMatch = findPropertyLink(message.content.text || "");
 
     if (!linkMatch) {
-      logger.warn('[analysePropertyLinkAction.handler] No link match found, exiting handler.');
+      logger.warn(
+        "[analysePropertyLinkAction.handler] No link match found, exiting handler.",
+      );
       return null;
     }
-    const link = linkMatch[0];
-    logger.info(`[analysePropertyLinkAction.handler] Link extracted: ${link}`);
-
-    logger.info(`[analysePropertyLinkAction.handler] Attempting to call fetchPropertyDetails with link: ${link}`);
-    const details = await fetchPropertyDetails(link);
+    const link = linkMatch.link;
+    logger.info(
+      `[analysePropertyLinkAction.handler] ${linkMatch.portal} link extracted: ${link}`,
+    );
 
-    if (!details) {
-      logger.warn('[analysePropertyLinkAction.handler] fetchPropertyDetails returned null.');
-      await callback({ 
-        text: 'I had trouble retrieving that listing. Please try again later.',
-        actions: ['ANALYSE_PROPERTY_LINK']
-      });
-      return null;
-    }
+    logger.info(
+      `[analysePropertyLinkAction.handler] Attempting to call fetchPropertyDetails with link: ${link}`,
+    );
+    const details = await fetchDetailsForAction(
+      runtime,
+      link,
+      "ANALYSE_PROPERTY_LINK",
+      callback,
+    );
+    if (!details) return null;
 
-    const isRent = /\/rent\//.test(link);
+    // Adverts that don't say whether they're to rent or buy follow the user's intent
+    const purpose = await analysisPurpose(runtime, message, details.purpose);
+    const isRent = purpose.purpose === "rent";
 
     // Common fields
     const price = details.price;
     const size = details.size;
-    const ppsqft = size ? (price / size).toFixed(0) : 'N/A';
+    const ppsqft = size ? (price / size).toFixed(0) : "N/A";
 
     let analysis = `**${details.title}**\n`;
-    analysis += `${isRent ? 'Annual Rent' : 'Asking Price'}: **AED ${price.toLocaleString()}**\n`;
-    if (size) analysis += `Size: **${size.toLocaleString()} sqft** (AED ${ppsqft}/sqft)\n`;
-    analysis += `Bedrooms/Bathrooms: **${details.bedrooms} / ${details.bathrooms}**\n`;
+    analysis += `${isRent ? "Annual Rent" : "Asking Price"}: **AED ${price.toLocaleString()}**\n`;
+    if (size)
+      analysis += `Size: **${size.toLocaleString()} sqft** (AED ${ppsqft}/sqft)\n`;
+    analysis += `Bedrooms/Bathrooms: **${details.bedrooms === 0 ? "Studio" : (details.bedrooms ?? "n/a")} / ${details.bathrooms ?? "n/a"}**\n`;
     analysis += `Location: ${details.location}\n`;
+    if (purpose.note) analysis += `_${purpose.note}_\n`;
+
+    const priceChange = summarisePriceChange(
+      await getPriceHistory(runtime, canonicalListingId(link)),
+    );
+    if (priceChange && priceChange.direction !== "unchanged") {
+      analysis += `Price ${priceChange.direction} ${Math.abs(priceChange.changePct).toFixed(1)}% since ${formatDate(priceChange.firstSeen)} (was ${formatAed(priceChange.firstPrice)})\n`;
+    }
 
     if (isRent) {
-      // Simple rent-focused insight
+      // Rent-focused insight benchmarked against comparable contracts
+      const store = getRentalYieldStore();
+      const target = store ? comparableTargetFromDetails(details) : null;
+      const fairness = target ? assessRentFairness(store, target, price) : null;
+
       analysis += `\n__*Rental Insights*__\n`;
       analysis += `• Approx. rent per sqft: **AED ${ppsqft}**\n`;
-      analysis += `• Furnishing: ${details.furnishing === 'YES' ? 'Furnished' : 'Unfurnished'}\n`;
-      analysis += `• Key amenities: ${details.amenities?.slice(0,5).join(', ') || 'N/A'}\n`;
+      if (fairness) {
+        analysis += `• Market check: **${fairness.verdict}** – advertised rent sits at the ${ordinal(Math.round(fairness.percentile))} percentile of ${fairness.comparables.length} comparable contracts matched on ${fairness.matchLevel} in ${target.area} (median ${formatAed(fairness.medianRent)})\n`;
+        analysis += `• Closest recorded contracts:\n`;
+        for (const contract of fairness.closest) {
+          analysis += `  – ${describeContract(contract)}\n`;
+        }
+      } else {
+        analysis += `• Market check: not enough comparable rental contracts for this location\n`;
+      }
+      analysis += `• Furnishing: ${
+        details.furnishing === "YES"
+          ? "Furnished"
+          : details.furnishing === "PARTLY"
+            ? "Partly furnished"
+            : "Unfurnished"
+      }\n`;
+      analysis += `• Key amenities: ${details.amenities?.slice(0, 5).join(", ") || "N/A"}\n`;
       analysis += `\n*Recommendation:* Ensure the contract clarifies maintenance responsibilities and cheque schedule. Would you like help arranging a viewing or finding similar options?`;
     } else {
-      // Purchase analysis (basic)
+      // Purchase analysis with rent estimated from comparable contracts
+      const store = getRentalYieldStore();
+      const target = store ? comparableTargetFromDetails(details) : null;
+      const estimate = target ? estimateAnnualRent(store, target) : null;
+      const comparablePpsqft = estimate
+        ? medianPricePerSqft(estimate.comparables)
+        : null;
+      // Service charges for the building, or its community's median when the building isn't known
+      const { assumptions, serviceCharge } = netYieldAssumptionsFor(
+        listingLocation(details),
+      );
+      const netIncome = estimate
+        ? calculateYields(price, estimate.annualRent, size, assumptions)
+            .netIncome
+        : undefined;
+
+      // Kept so "finance it" can pick up the price, size and rent estimate
+      await rememberFinanceListing(runtime, searchOwnerId(message), {
+        link,
+        title: details.title,
+        price,
+        location: listingLocation(details),
+        size: size ?? undefined,
+        netIncome,
+        analysedAt: Date.now(),
+      });
+
       analysis += `\n__*Investment Snapshot*__\n`;
-      analysis += `• Price per sqft: **AED ${ppsqft}** (compare to area avg)\n`;
-      analysis += `• Estimated gross yield: _coming soon_\n`;
-      analysis += `\n*Recommendation:* Review service charges and potential rental income to confirm net yield. Let me know if you want a deeper investment breakdown.`;
+      analysis += `• Price per sqft: **AED ${ppsqft}**${
+        comparablePpsqft
+          ? ` (comparables median ${formatAed(comparablePpsqft)})`
+          : ""
+      }\n`;
+      analysis += describeServiceCharges(
+        serviceCharge,
+        assumptions.serviceChargePerSqft,
+        size,
+      );
+
+      if (estimate) {
+        const yields = calculateYields(
+          price,
+          estimate.annualRent,
+          size,
+          assumptions,
+        );
+        const deductions = [
+          size
+            ? `service charges (${formatAed(yields.serviceCharges)}/yr)`
+            : "no service charges (size unknown)",
+          `${assumptions.vacancyRate * 100}% vacancy`,
+          `${assumptions.managementRate * 100}% management`,
+        ];
+
+        analysis += `• Estimated annual rent: **${formatAed(estimate.annualRent)}** (range ${formatAed(estimate.low)} – ${formatAed(estimate.high)})\n`;
+        analysis += `• Estimated gross yield: **${yields.grossYield.toFixed(1)}%**\n`;
+        analysis += `• Estimated net yield: **${yields.netYield.toFixed(1)}%** after ${deductions.join(", ")}\n`;
+        analysis += `• Confidence: ${estimate.confidence} – ${estimate.comparables.length} comparable contracts matched on ${estimate.matchLevel} in ${target.area}, rent spread ±${Math.round(estimate.spread * 100)}%\n`;
+        analysis += describeUpfrontCosts(estimateTransactionCosts(price));
+        analysis += describeFinancingOffer(price);
+        analysis += `\n*Recommendation:* Confirm ${serviceCharge?.basis === "building" ? "recent rents" : "the building's actual service charges and recent rents"} before relying on the net figure. Let me know if you want a deeper investment breakdown.`;
+      } else {
+        analysis += `• Estimated gross yield: not enough comparable rental contracts for this location\n`;
+        analysis += describeUpfrontCosts(estimateTransactionCosts(price));
+        analysis += describeFinancingOffer(price);
+        analysis += `\n*Recommendation:* Budget for the upfront costs on top of the price, and check potential rental income to confirm net yield. Let me know if you want a deeper investment breakdown.`;
+      }
     }
 
     const response: Content = {
       text: `${analysis}\n\n<${link}>`,
-      actions: ['ANALYSE_PROPERTY_LINK'],
-      attachments: details.image ? [{ type: 'image', url: details.image }] : undefined,
+      actions: ["ANALYSE_PROPERTY_LINK"],
+      attachments: details.image
+        ? [{ type: "image", url: details.image }]
+        : undefined,
     } as any;
 
     await callback(response);
@@ -1002,90 +2417,545 @@ const analysePropertyLinkAction: Action = {
   },
 };
 
+// Action reporting how a pasted listing's price has moved since we first saw it
+const priceHistoryAction: Action = {
+  name: "PRICE_HISTORY",
+  similes: ["PRICE_DROP", "PRICE_CHANGE", "LISTING_PRICE_HISTORY"],
+  description:
+    "Shows the recorded price history of a pasted property advert and whether its price has dropped or risen",
+
+  validate: async (_runtime: IAgentRuntime, message: Memory) => {
+    const text = message.content.text || "";
+    return findPropertyLink(text) !== null && isPriceHistoryQuestion(text);
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State,
+    _options: any,
+    callback: HandlerCallback,
+  ) => {
+    const messageSource = message.content.source;
+    const linkMatch = findPropertyLink(message.content.text || "");
+    if (!linkMatch) return null;
+
+    // Always fetch the current price so the answer reflects the live advert
+    const details = await fetchDetailsForAction(
+      runtime,
+      linkMatch.link,
+      "PRICE_HISTORY",
+      callback,
+      {
+        refresh: true,
+      },
+    );
+    if (!details) return null;
+
+    const history = await getPriceHistory(
+      runtime,
+      canonicalListingId(linkMatch.link),
+    );
+    const change = summarisePriceChange(history);
+
+    let responseText: string;
+    if (!change || history.length < 2) {
+      responseText = `**${details.title}** is listed at **${formatAed(details.price)}**. This is the first time I've seen it, so there's no price history yet – I'll track it from now on.`;
+    } else {
+      const levels = priceChanges(history);
+      const rows = levels.map((snapshot, index) => {
+        const previous = levels[index - 1];
+        const delta = previous
+          ? ((snapshot.price - previous.price) / previous.price) * 100
+          : null;
+        return [
+          formatDate(snapshot.observedAt),
+          formatAed(snapshot.price),
+          delta === null
+            ? "first seen"
+            : `${delta > 0 ? "+" : ""}${delta.toFixed(1)}%`,
+        ];
+      });
+
+      const headline =
+        change.direction === "unchanged"
+          ? `No change: still **${formatAed(change.currentPrice)}**, the price first seen on ${formatDate(change.firstSeen)}.`
+          : `Yes, the price has ${change.direction === "reduced" ? "dropped" : "gone up"}: **${formatAed(change.currentPrice)}**, ${change.direction} ${Math.abs(change.changePct).toFixed(1)}% since ${formatDate(change.firstSeen)} (was ${formatAed(change.firstPrice)}).`;
+
+      responseText = `**${details.title}**\n${headline}\n\n${renderTable(["Date", "Price", "Change"], rows)}`;
+      if (change.direction === "reduced") {
+        responseText += `\n\nA recent reduction is useful negotiating context – the seller has already shown flexibility on price.`;
+      }
+    }
+
+    const response: Content = {
+      text: `${responseText}\n\n<${linkMatch.link}>`,
+      actions: ["PRICE_HISTORY"],
+      source: messageSource,
+    };
+
+    await callback(response);
+    return response;
+  },
+
+  examples: [
+    [
+      {
+        name: "{{user}}",
+        content: {
+          text: "Has this one dropped in price? https://www.propertyfinder.ae/en/plp/buy/apartment-for-sale-dubai-dubai-marina-marina-gate-123456.html",
+        },
+      },
+      {
+        name: "John",
+        content: {
+          text: "**Marina View | 2 Bed | Vacant**\nYes, the price has dropped: **AED 2,375,000**, reduced 5.0% since 2026-08-01 (was AED 2,500,000).\n\n```\nDate       | Price         | Change\n-----------+---------------+-----------\n2026-08-01 | AED 2,500,000 | first seen\n2026-09-14 | AED 2,375,000 | -5.0%\n```\n\nA recent reduction is useful negotiating context – the seller has already shown flexibility on price.",
+          actions: ["PRICE_HISTORY"],
+        },
+      },
+    ],
+  ],
+};
+
+const RESIDENCY_LABELS: Record<Residency, string> = {
+  uae_national: "UAE national",
+  resident: "UAE resident",
+  non_resident: "Non-resident",
+};
+
+// Buyer profiles compared under a financing breakdown
+const FINANCE_PROFILES: { residency: Residency; firstHome: boolean }[] = [
+  { residency: "resident", firstHome: true },
+  { residency: "resident", firstHome: false },
+  { residency: "uae_national", firstHome: true },
+  { residency: "non_resident", firstHome: true },
+];
+
+// Helper to estimate a sale listing's net rental income from comparable contracts
+function estimateNetIncome(details: PropertyDetails): number | undefined {
+  const store = getRentalYieldStore();
+  const target = store ? comparableTargetFromDetails(details) : null;
+  const estimate = target ? estimateAnnualRent(store, target) : null;
+  if (!estimate) return undefined;
+  const { assumptions } = netYieldAssumptionsFor(listingLocation(details));
+  return calculateYields(
+    details.price,
+    estimate.annualRent,
+    details.size,
+    assumptions,
+  ).netIncome;
+}
+
+// Helper to find the purchase a financing or cost question is about: a price
+// in the message, then a pasted sale advert, then the last sale listing the
+// user had analysed. Returns null after replying when a pasted advert can't
+// be used.
+async function findPurchase(
+  runtime: IAgentRuntime,
+  message: Memory,
+  price: number | undefined,
+  actionName: string,
+  callback: HandlerCallback,
+): Promise<Partial<FinanceListing> | null> {
+  if (price) return { price };
+
+  const text = message.content.text || "";
+  const linkMatch = findPropertyLink(text);
+  if (linkMatch) {
+    const details = await fetchDetailsForAction(
+      runtime,
+      linkMatch.link,
+      actionName,
+      callback,
+    );
+    if (!details) return null;
+    if (details.purpose === "rent") {
+      await callback({
+        text: `**${details.title}** is advertised for rent, so there's no purchase to work out. Send me a sale listing or a price, e.g. "1.5M".`,
+        actions: [actionName],
+        source: message.content.source,
+      });
+      return null;
+    }
+    return {
+      price: details.price,
+      title: details.title,
+      link: linkMatch.link,
+      location: listingLocation(details),
+      size: details.size ?? undefined,
+      netIncome: estimateNetIncome(details),
+    };
+  }
+  return (await recallFinanceListing(runtime, searchOwnerId(message))) ?? {};
+}
+
+// Action working out mortgage scenarios for a price, a pasted sale advert or
+// the last sale listing the user had analysed
+const financeCalcAction: Action = {
+  name: "FINANCE_CALC",
+  similes: ["MORTGAGE_CALC", "MORTGAGE", "FINANCING", "LOAN_CALCULATOR"],
+  description:
+    "Works out UAE mortgage scenarios for a purchase: the loan-to-value cap for residents, non-residents and first or subsequent homes, down payment, monthly payment, total interest and the cash-on-cash return with estimated rent",
+
+  validate: async (_runtime: IAgentRuntime, message: Memory) => {
+    const text = message.content.text || "";
+    // "buying costs with a mortgage" is a TRANSACTION_COSTS question
+    return isFinanceQuestion(text) && !isTransactionCostQuestion(text);
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State,
+    _options: any,
+    callback: HandlerCallback,
+  ) => {
+    const text = message.content.text || "";
+    const messageSource = message.content.source;
+    const request = parseFinanceRequest(text);
+
+    const purchase = await findPurchase(
+      runtime,
+      message,
+      request.price,
+      "FINANCE_CALC",
+      callback,
+    );
+    if (!purchase) return null;
+    const { price, title, link, location, size } = purchase;
+    let netIncome = purchase.netIncome;
+
+    if (!price) {
+      const response: Content = {
+        text: `Which purchase should I work the mortgage out for? Give me a price, e.g. "mortgage on 1.5M at 4.2% over 20 years", or paste a sale listing.`,
+        actions: ["FINANCE_CALC"],
+        source: messageSource,
+      };
+      await callback(response);
+      return response;
+    }
+
+    // Rent quoted in the message replaces the comparable-contract estimate
+    if (request.annualRent) {
+      const { assumptions } = netYieldAssumptionsFor(location || "");
+      netIncome = calculateYields(
+        price,
+        request.annualRent,
+        size,
+        assumptions,
+      ).netIncome;
+    }
+
+    const annualRate = request.annualRate ?? DEFAULT_MORTGAGE_RATE;
+    const termYears = request.termYears ?? DEFAULT_MORTGAGE_TERM_YEARS;
+    const residency = request.residency ?? "resident";
+    const firstHome = request.firstHome ?? true;
+    const mortgage = calculateMortgage({
+      price,
+      residency,
+      firstHome,
+      offPlan: request.offPlan,
+      downPayment:
+        request.downPayment ??
+        (request.downPaymentShare !== undefined
+          ? price * request.downPaymentShare
+          : undefined),
+      annualRate,
+      termYears,
+    });
+
+    const assumed = [
+      !request.residency && "a UAE resident",
+      request.firstHome === undefined && "buying your first home",
+    ].filter(Boolean);
+    const profile = `${RESIDENCY_LABELS[residency]}, ${firstHome ? "first home" : "subsequent home"}${request.offPlan ? ", off-plan" : ""}`;
+
+    let responseText = `**Financing ${title ? `${title} (${formatAed(price)})` : formatAed(price)}**\n`;
+    if (assumed.length) {
+      responseText += `_I've assumed you're ${assumed.join(" and ")}; say "non-resident" or "second home" if not._\n`;
+    }
+    responseText += `• Max loan-to-value: **${Math.round(mortgage.maxLtv * 100)}%** (${profile})\n`;
+    responseText += `• Loan: **${formatAed(mortgage.loanAmount)}** with **${formatAed(mortgage.downPayment)}** down (${Math.round((1 - mortgage.ltv) * 100)}%)\n`;
+    if (mortgage.depositRaised) {
+      responseText += `_That deposit is below the minimum for this purchase, so I've used the smallest one banks accept._\n`;
+    }
+    responseText += `• Monthly payment: **${formatAed(mortgage.monthlyPayment)}** at ${annualRate}% over ${mortgage.scenario.termYears} years\n`;
+    responseText += `• Total interest: ${formatAed(mortgage.totalInterest)} (${formatAed(mortgage.totalRepaid)} repaid in all)\n`;
+    if (netIncome !== undefined) {
+      const costs = estimateTransactionCosts(price, {
+        loanAmount: mortgage.loanAmount,
+        offPlan: request.offPlan,
+      });
+      const returns = cashOnCashReturn(mortgage, netIncome, costs.total);
+      responseText += `• Cash-on-cash return: **${returns.cashOnCash.toFixed(1)}%** – net rent of ${formatAed(returns.netIncome)}/yr less ${formatAed(returns.annualDebtService)}/yr in repayments, on ${formatAed(returns.cashInvested)} put in (the deposit plus ${formatAed(costs.total)} in purchase costs)\n`;
+    } else {
+      responseText += `• Cash-on-cash return: tell me the expected rent, e.g. "rents for 90k", and I'll work it out\n`;
+    }
+
+    const rows = FINANCE_PROFILES.map((buyer) => {
+      const scenario = calculateMortgage({
+        ...buyer,
+        price,
+        offPlan: request.offPlan,
+        annualRate,
+        termYears,
+      });
+      return [
+        `${RESIDENCY_LABELS[buyer.residency]}, ${buyer.firstHome ? "first" : "subsequent"}`,
+        `${Math.round(scenario.maxLtv * 100)}%`,
+        formatAed(scenario.downPayment),
+        formatAed(scenario.monthlyPayment),
+      ];
+    });
+    responseText += `\nOther buyers at this price:\n${renderTable(["Buyer", "Max LTV", "Down payment", "Monthly"], rows)}`;
+    if (link) responseText += `\n\n<${link}>`;
+
+    const response: Content = {
+      text: responseText,
+      actions: ["FINANCE_CALC"],
+      source: messageSource,
+    };
+
+    await callback(response);
+    return response;
+  },
+
+  examples: [
+    [
+      {
+        name: "{{user}}",
+        content: {
+          text: "What's the mortgage on a 1.5M flat at 4.2% over 20 years? I'm a non-resident",
+        },
+      },
+      {
+        name: "John",
+        content: {
+          text: '**Financing AED 1,500,000**\n_I\'ve assumed you\'re buying your first home; say "non-resident" or "second home" if not._\n• Max loan-to-value: **50%** (Non-resident, first home)\n• Loan: **AED 750,000** with **AED 750,000** down (50%)\n• Monthly payment: **AED 4,624** at 4.2% over 20 years\n• Total interest: AED 359,827 (AED 1,109,827 repaid in all)\n• Cash-on-cash return: tell me the expected rent, e.g. "rents for 90k", and I\'ll work it out',
+          actions: ["FINANCE_CALC"],
+        },
+      },
+    ],
+    [
+      {
+        name: "{{user}}",
+        content: {
+          text: "finance it",
+        },
+      },
+      {
+        name: "John",
+        content: {
+          text: '**Financing Marina View | 2 Bed | Vacant (AED 2,400,000)**\n_I\'ve assumed you\'re a UAE resident and buying your first home; say "non-resident" or "second home" if not._\n• Max loan-to-value: **80%** (UAE resident, first home)\n• Loan: **AED 1,920,000** with **AED 480,000** down (20%)\n• Monthly payment: **AED 10,672** at 4.5% over 25 years\n• Total interest: AED 1,281,595 (AED 3,201,595 repaid in all)\n• Cash-on-cash return: **-3.4%** – net rent of AED 106,000/yr less AED 128,064/yr in repayments, on AED 640,270 put in (the deposit plus AED 160,270 in purchase costs)',
+          actions: ["FINANCE_CALC"],
+        },
+      },
+    ],
+  ],
+};
+
+// Action itemising the upfront costs of buying at a price, a pasted sale
+// advert or the last sale listing the user had analysed
+const transactionCostsAction: Action = {
+  name: "TRANSACTION_COSTS",
+  similes: ["PURCHASE_COSTS", "BUYING_COSTS", "CLOSING_COSTS", "DLD_FEES"],
+  description:
+    "Itemises the upfront costs of a Dubai purchase: DLD transfer fee, registration trustee fee, agent commission, NOC and, with a mortgage, mortgage registration and valuation",
+
+  validate: async (_runtime: IAgentRuntime, message: Memory) => {
+    return isTransactionCostQuestion(message.content.text || "");
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State,
+    _options: any,
+    callback: HandlerCallback,
+  ) => {
+    const text = message.content.text || "";
+    const messageSource = message.content.source;
+    const request = parseFinanceRequest(text);
+
+    const purchase = await findPurchase(
+      runtime,
+      message,
+      request.price,
+      "TRANSACTION_COSTS",
+      callback,
+    );
+    if (!purchase) return null;
+    const { price, title, link } = purchase;
+
+    if (!price) {
+      const response: Content = {
+        text: `Which purchase should I cost? Give me a price, e.g. "buying costs for a 1.5M flat with a mortgage", or paste a sale listing.`,
+        actions: ["TRANSACTION_COSTS"],
+        source: messageSource,
+      };
+      await callback(response);
+      return response;
+    }
+
+    // Mortgage fees only apply when the buyer borrows, at the smallest deposit allowed unless stated
+    const mortgaged =
+      /\b(?:mortgage|loan|financ(?:e|ed|ing))\b/i.test(text) ||
+      request.downPayment !== undefined ||
+      request.downPaymentShare !== undefined;
+    const mortgage = mortgaged
+      ? calculateMortgage({
+          price,
+          residency: request.residency ?? "resident",
+          firstHome: request.firstHome ?? true,
+          offPlan: request.offPlan,
+          downPayment:
+            request.downPayment ??
+            (request.downPaymentShare !== undefined
+              ? price * request.downPaymentShare
+              : undefined),
+          annualRate: DEFAULT_MORTGAGE_RATE,
+          termYears: DEFAULT_MORTGAGE_TERM_YEARS,
+        })
+      : null;
+    const costs = estimateTransactionCosts(
+      price,
+      { loanAmount: mortgage?.loanAmount, offPlan: request.offPlan },
+      parseCostOverrides(text),
+    );
+
+    const rows = costs.items.map((item) => [
+      item.label,
+      item.basis,
+      formatAed(item.amount),
+    ]);
+    rows.push([
+      "Total",
+      `${costs.percentOfPrice.toFixed(1)}% of the price`,
+      formatAed(costs.total),
+    ]);
+
+    let responseText = `**Upfront costs for ${title ? `${title} (${formatAed(price)})` : formatAed(price)}**\n`;
+    responseText += renderTable(["Item", "Basis", "Amount"], rows);
+    if (mortgage) {
+      responseText += `\nWith ${formatAed(mortgage.downPayment)} down (${Math.round((1 - mortgage.ltv) * 100)}%), you'd need about **${formatAed(mortgage.downPayment + costs.total)}** in cash.`;
+    } else {
+      responseText += `\nThat's about **${formatAed(price + costs.total)}** in all for a cash purchase. Say "with a mortgage" to add the mortgage registration and valuation fees.`;
+    }
+    responseText += `\n_Trustee, NOC and valuation fees vary by office, developer and bank; agent commission is usually negotiable._`;
+    if (link) responseText += `\n\n<${link}>`;
+
+    const response: Content = {
+      text: responseText,
+      actions: ["TRANSACTION_COSTS"],
+      source: messageSource,
+    };
+
+    await callback(response);
+    return response;
+  },
+
+  examples: [
+    [
+      {
+        name: "{{user}}",
+        content: {
+          text: "What are the buying costs on a 2M apartment?",
+        },
+      },
+      {
+        name: "John",
+        content: {
+          text: '**Upfront costs for AED 2,000,000**\n```\nItem                     | Basis             | Amount\n-------------------------+-------------------+------------\nDLD transfer fee         | 4% + AED 580      | AED 80,580\nRegistration trustee fee | AED 4,000 + VAT   | AED 4,200\nAgent commission         | 2% + VAT          | AED 42,000\nDeveloper NOC            | typical           | AED 1,000\nTotal                    | 6.4% of the price | AED 127,780\n```\nThat\'s about **AED 2,127,780** in all for a cash purchase. Say "with a mortgage" to add the mortgage registration and valuation fees.\n_Trustee, NOC and valuation fees vary by office, developer and bank; agent commission is usually negotiable._',
+          actions: ["TRANSACTION_COSTS"],
+        },
+      },
+    ],
+  ],
+};
+
 // Debug action to manually test property analysis with a hardcoded URL
 const debugPropertyAction: Action = {
-  name: 'DEBUG_PROPERTY',
-  similes: ['TEST_PROPERTY', 'FETCH_TEST_PROPERTY'],
-  description: 'Debug utility to test property fetching with a fixed URL',
+  name: "DEBUG_PROPERTY",
+  similes: ["TEST_PROPERTY", "FETCH_TEST_PROPERTY"],
+  description: "Debug utility to test property fetching with a fixed URL",
 
   validate: async (_rt, message) => {
-    const text = (message.content.text || '').toLowerCase();
-    return text.includes('debug property') || text.includes('test property link');
+    const text = (message.content.text || "").toLowerCase();
+    return (
+      text.includes("debug property") || text.includes("test property link")
+    );
   },
 
   handler: async (runtime, message, _state, _opts, callback) => {
-    logger.info('[debugPropertyAction.handler] Handler started.');
-    
+    logger.info("[debugPropertyAction.handler] Handler started.");
+
     // Fixed test URL - this is the one from the user's example
-    const testUrl = 'https://www.propertyfinder.ae/en/plp/rent/apartment-for-rent-dubai-business-bay-upside-living-14214294.html';
+    const testUrl =
+      "https://www.propertyfinder.ae/en/plp/rent/apartment-for-rent-dubai-business-bay-upside-living-14214294.html";
     logger.info(`[debugPropertyAction.handler] Using test URL: ${testUrl}`);
-    
-    await callback({ 
+
+    await callback({
       text: `I'll debug the property link analysis with a test URL: ${testUrl}`,
-      actions: ['DEBUG_PROPERTY'] 
+      actions: ["DEBUG_PROPERTY"],
     });
-    
-    logger.info(`[debugPropertyAction.handler] Calling fetchPropertyDetails with test URL`);
-    const details = await fetchPropertyDetails(testUrl);
-    
+
+    logger.info(
+      `[debugPropertyAction.handler] Calling fetchPropertyDetails with test URL`,
+    );
+    let details: PropertyDetails | null;
+    try {
+      details = await fetchPropertyDetails(runtime, testUrl, { refresh: true });
+    } catch (error) {
+      if (!(error instanceof ListingValidationError)) throw error;
+      await callback({
+        text: `DEBUG RESULT: ${error.message}`,
+        actions: ["DEBUG_PROPERTY"],
+      });
+      return null;
+    }
+
     if (!details) {
-      logger.warn('[debugPropertyAction.handler] fetchPropertyDetails returned null.');
-      await callback({ 
+      logger.warn(
+        "[debugPropertyAction.handler] fetchPropertyDetails returned null.",
+      );
+      await callback({
         text: `DEBUG RESULT: Failed to fetch property details from n8n webhook.`,
-        actions: ['DEBUG_PROPERTY']
+        actions: ["DEBUG_PROPERTY"],
       });
       return null;
     }
-    
+
     // Successfully got details
-    logger.info(`[debugPropertyAction.handler] Successfully received property details: ${JSON.stringify(details)}`);
-    
-    await callback({ 
+    logger.info(
+      `[debugPropertyAction.handler] Successfully received property details: ${JSON.stringify(details)}`,
+    );
+
+    await callback({
       text: `DEBUG RESULT: Successfully fetched property details!\n\nTitle: ${details.title}\nPrice: ${details.price}\nSize: ${details.size}\nBedrooms: ${details.bedrooms}`,
-      actions: ['DEBUG_PROPERTY']
+      actions: ["DEBUG_PROPERTY"],
     });
-    
+
     return null;
   },
 };
 
-export class StarterService extends Service {
-  static serviceType = 'starter';
-  capabilityDescription =
-    'This is a starter service which is attached to the agent through the starter plugin.';
-  constructor(protected runtime: IAgentRuntime) {
-    super(runtime);
-  }
-
-  static async start(runtime: IAgentRuntime) {
-    logger.info('*** Starting starter service ***');
-    const service = new StarterService(runtime);
-    return service;
-  }
-
-  static async stop(runtime: IAgentRuntime) {
-    logger.info('*** Stopping starter service ***');
-    // get the service from the runtime
-    const service = runtime.getService(StarterService.serviceType);
-    if (!service) {
-      throw new Error('Starter service not found');
-    }
-    service.stop();
-  }
-
-  async stop() {
-    logger.info('*** Stopping starter service instance ***');
-  }
-}
-
 const plugin: Plugin = {
-  name: 'starter',
-  description: 'A starter plugin for Eliza',
+  name: "starter",
+  description: "A starter plugin for Eliza",
   config: {
     EXAMPLE_PLUGIN_VARIABLE: process.env.EXAMPLE_PLUGIN_VARIABLE,
+    LISTING_SOURCE: process.env.LISTING_SOURCE,
+    N8N_SEARCH_WEBHOOK_URL: process.env.N8N_SEARCH_WEBHOOK_URL,
+    N8N_PROPERTY_WEBHOOK_URL: process.env.N8N_PROPERTY_WEBHOOK_URL,
+    N8N_BAYUT_WEBHOOK_URL: process.env.N8N_BAYUT_WEBHOOK_URL,
+    N8N_DUBIZZLE_WEBHOOK_URL: process.env.N8N_DUBIZZLE_WEBHOOK_URL,
+    LISTING_CACHE_TTL_HOURS: process.env.LISTING_CACHE_TTL_HOURS,
+    LISTING_ALERT_CHECK_MINUTES: process.env.LISTING_ALERT_CHECK_MINUTES,
+    SEARCH_SESSION_TTL_MINUTES: process.env.SEARCH_SESSION_TTL_MINUTES,
+    SERVICE_CHARGES_CSV_PATH: process.env.SERVICE_CHARGES_CSV_PATH,
   },
   async init(config: Record<string, string>) {
-    logger.info('*** Initializing starter plugin ***');
+    logger.info("*** Initializing starter plugin ***");
     try {
       const validatedConfig = await configSchema.parseAsync(config);
 
@@ -1093,69 +2963,83 @@ const plugin: Plugin = {
       for (const [key, value] of Object.entries(validatedConfig)) {
         if (value) process.env[key] = value;
       }
-      
-      // Test n8n webhook connectivity during initialization
-      const webhookIsAccessible = await testPropertyLinkWebhook();
-      logger.info(`[init] n8n webhook for property analysis is ${webhookIsAccessible ? 'accessible' : 'NOT ACCESSIBLE'}`);
-      if (!webhookIsAccessible) {
-        logger.warn('[init] WARNING: Property analysis may not work due to connectivity issues with n8n webhook');
+
+      // Select the listing source and test its connectivity during initialization
+      const listingSource = createListingSource(validatedConfig);
+      setListingSource(listingSource);
+      const sourceIsAccessible = await listingSource.healthCheck();
+      logger.info(
+        `[init] ${listingSource.name} listing source is ${sourceIsAccessible ? "accessible" : "NOT ACCESSIBLE"}`,
+      );
+      if (!sourceIsAccessible) {
+        logger.warn(
+          `[init] WARNING: Property analysis may not work due to connectivity issues with the ${listingSource.name} listing source`,
+        );
       }
-      
+
       // Initialize database tables
       try {
         // Using any to bypass type checks for sql property
         const runtime = this.runtime as any;
         if (runtime?.sql) {
-          // Create preferences table if it doesn't exist
-          await runtime.sql.query(`
-            CREATE TABLE IF NOT EXISTS preferences (
-              id INTEGER PRIMARY KEY AUTOINCREMENT,
-              user_id TEXT NOT NULL,
-              area TEXT,
-              property_type TEXT,
-              bedrooms TEXT,
-              max_price INTEGER,
-              min_price INTEGER,
-              yield_floor REAL,
-              furnished INTEGER,
-              last_updated TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-              UNIQUE(user_id)
-            )
-          `);
-          
+          // Create saved_searches table, carrying over searches from the old preferences table
+          await runtime.sql.query(SAVED_SEARCHES_TABLE_SQL);
+          await migrateLegacyPreferences(runtime);
+
           // Create search_logs table if it doesn't exist
           await runtime.sql.query(`
             CREATE TABLE IF NOT EXISTS search_logs (
               search_id TEXT PRIMARY KEY,
               user_id TEXT NOT NULL,
+              room_id TEXT,
+              world_id TEXT,
               timestamp TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
               criteria_json TEXT,
               listings_returned INTEGER,
               CONSTRAINT idx_user UNIQUE (user_id, timestamp)
             )
           `);
-          
-          logger.info('Database tables initialized');
+
+          // Create listing_cache table for fetched advert details
+          await runtime.sql.query(LISTING_CACHE_TABLE_SQL);
+
+          // Create listing_price_history table for observed prices
+          await runtime.sql.query(PRICE_HISTORY_TABLE_SQL);
+
+          // Create alert_settings and shown_listings tables for listing alerts
+          await runtime.sql.query(ALERT_SETTINGS_TABLE_SQL);
+          await runtime.sql.query(SHOWN_LISTINGS_TABLE_SQL);
+
+          // search_logs tables created before rows were keyed by sender lack the room columns
+          for (const column of ["room_id", "world_id"]) {
+            try {
+              await runtime.sql.query(
+                `ALTER TABLE search_logs ADD COLUMN ${column} TEXT`,
+              );
+            } catch {
+              // Column already exists
+            }
+          }
+
+          // Move rows written under message IDs to the sender's entity
+          await migrateMessageKeyedRows(runtime);
+
+          logger.info("Database tables initialized");
         }
       } catch (error) {
-        logger.error('Error initializing database tables:', error);
+        logger.error("Error initializing database tables:", error);
       }
     } catch (error) {
       if (error instanceof z.ZodError) {
         throw new Error(
-          `Invalid plugin configuration: ${error.errors.map((e) => e.message).join(', ')}`
+          `Invalid plugin configuration: ${error.errors.map((e) => e.message).join(", ")}`,
         );
       }
       throw error;
     }
   },
+  // TEXT_SMALL is left to the model provider plugins, as search criteria are read with it
   models: {
-    [ModelType.TEXT_SMALL]: async (
-      _runtime,
-      { prompt, stopSequences = [] }: GenerateTextParams
-    ) => {
-      return 'Never gonna give you up, never gonna let you down, never gonna run around and desert you...';
-    },
     [ModelType.TEXT_LARGE]: async (
       _runtime,
       {
@@ -1165,55 +3049,67 @@ const plugin: Plugin = {
         temperature = 0.7,
         frequencyPenalty = 0.7,
         presencePenalty = 0.7,
-      }: GenerateTextParams
+      }: GenerateTextParams,
     ) => {
-      return 'Never gonna make you cry, never gonna say goodbye, never gonna tell a lie and hurt you...';
+      return "Never gonna make you cry, never gonna say goodbye, never gonna tell a lie and hurt you...";
     },
   },
   tests: [starterTestSuite],
   routes: [
     {
-      name: 'HELLO_WORLD_ROUTE',
-      path: '/helloworld',
-      type: 'GET',
+      name: "HELLO_WORLD_ROUTE",
+      path: "/helloworld",
+      type: "GET",
       handler: async (_req: any, res: any) => {
-        res.json({ message: 'Hello World!' });
+        res.json({ message: "Hello World!" });
       },
     },
   ],
   events: {
     MESSAGE_RECEIVED: [
       async (params) => {
-        logger.info('MESSAGE_RECEIVED event received');
+        logger.info("MESSAGE_RECEIVED event received");
         // print the keys
         logger.info(Object.keys(params));
       },
     ],
     VOICE_MESSAGE_RECEIVED: [
       async (params) => {
-        logger.info('VOICE_MESSAGE_RECEIVED event received');
+        logger.info("VOICE_MESSAGE_RECEIVED event received");
         // print the keys
         logger.info(Object.keys(params));
       },
     ],
     WORLD_CONNECTED: [
       async (params) => {
-        logger.info('WORLD_CONNECTED event received');
+        logger.info("WORLD_CONNECTED event received");
         // print the keys
         logger.info(Object.keys(params));
       },
     ],
     WORLD_JOINED: [
       async (params) => {
-        logger.info('WORLD_JOINED event received');
+        logger.info("WORLD_JOINED event received");
         // print the keys
         logger.info(Object.keys(params));
       },
     ],
   },
-  services: [StarterService],
-  actions: [analysePropertyLinkAction, searchListingsAction, debugPropertyAction, helloWorldAction],
-  providers: [helloWorldProvider, preferencesProvider],
+  services: [ListingAlertService],
+  actions: [
+    analysePropertyLinkAction,
+    priceHistoryAction,
+    financeCalcAction,
+    transactionCostsAction,
+    searchListingsAction,
+    savedSearchesAction,
+    listingAlertsAction,
+    yieldStatsAction,
+    compareAreasAction,
+    debugPropertyAction,
+    helloWorldAction,
+  ],
+  providers: [helloWorldProvider, preferencesProvider, rentalYieldsProvider],
 };
 
 export default plugin;
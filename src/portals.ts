@@ -0,0 +1,277 @@
+import type { PropertyDetailsInput } from "./listing-schema";
+import { SQM_TO_SQFT } from "./rental-yields";
+
+export type Portal = "propertyfinder" | "bayut" | "dubizzle";
+
+export type ListingPurpose = "rent" | "sale";
+
+export interface PortalLink {
+  portal: Portal;
+  link: string;
+}
+
+const PORTAL_LINK_PATTERNS: Record<Portal, RegExp> = {
+  propertyfinder: /https?:\/\/(?:www\.)?propertyfinder\.ae\/[^\s<>]+/i,
+  bayut: /https?:\/\/(?:www\.)?bayut\.com\/[^\s<>]+/i,
+  dubizzle: /https?:\/\/(?:[a-z-]+\.)?dubizzle\.com\/[^\s<>]+/i,
+};
+
+export const SUPPORTED_PORTALS = Object.keys(PORTAL_LINK_PATTERNS) as Portal[];
+
+/**
+ * Finds the first supported portal advert link in a message, without any
+ * sentence punctuation that followed it.
+ */
+export function findPropertyLink(text: string): PortalLink | null {
+  let found: (PortalLink & { index: number }) | null = null;
+  for (const portal of SUPPORTED_PORTALS) {
+    const match = PORTAL_LINK_PATTERNS[portal].exec(text);
+    if (match && (!found || match.index < found.index)) {
+      found = {
+        portal,
+        link: match[0].replace(/[).,!?]+$/, ""),
+        index: match.index,
+      };
+    }
+  }
+  return found ? { portal: found.portal, link: found.link } : null;
+}
+
+/**
+ * Reads rent or sale from the advert URL, e.g. propertyfinder ".../plp/rent/...",
+ * bayut "/to-rent/..." or dubizzle "/property-for-rent/...". Returns null when
+ * the URL doesn't say, as with bayut "/property/details-123.html" links.
+ */
+export function purposeFromLink(link: string): ListingPurpose | null {
+  const path = link.toLowerCase();
+  if (/\/rent\/|\/to-rent\/|property-for-rent|-for-rent-/.test(path))
+    return "rent";
+  if (/\/buy\/|\/for-sale\/|property-for-sale|-for-sale-/.test(path))
+    return "sale";
+  return null;
+}
+
+/**
+ * Reads whether a user wants to rent or buy from their message, e.g.
+ * "looking to buy", "apartments for rent" or "is this a good investment".
+ * Landlords letting a unit ("rent it out") and yield questions ("rental
+ * yield") are buying intents or neither, not renting ones. Returns null when
+ * the message doesn't say.
+ */
+export function purposeFromText(text: string): ListingPurpose | null {
+  const lower = text.toLowerCase();
+  if (
+    /\b(?:for|to) (?:rent|lease)\b|\brent(?:ing)? an?\b|\brenting\b|\bas a tenant\b/.test(
+      lower,
+    ) &&
+    !/\brent(?:ing)? (?:it |them )?out\b/.test(lower)
+  ) {
+    return "rent";
+  }
+  if (
+    /\b(?:for sale|to buy|buy(?:ing)? an?|buying|purchas(?:e|ing)|invest(?:ment|ing|or)?|mortgage)\b/.test(
+      lower,
+    )
+  ) {
+    return "sale";
+  }
+  return null;
+}
+
+function purposeFromDetails(raw: any): ListingPurpose | null {
+  const value = String(
+    raw.purpose ?? raw.listing_type ?? raw.category ?? "",
+  ).toLowerCase();
+  if (/rent/.test(value) || raw.rentFrequency || raw.rent_frequency)
+    return "rent";
+  if (/sale|buy/.test(value)) return "sale";
+  return null;
+}
+
+function propertyTypeFromLink(link: string): string | null {
+  const match = link.match(
+    /(apartment|villa|townhouse|penthouse)(?:flat)?[-/]/i,
+  );
+  return match ? match[1].toLowerCase() : null;
+}
+
+function furnishingFlag(value: any): PropertyDetailsInput["furnishing"] {
+  if (value === true) return "YES";
+  if (value === false) return "NO";
+  const text = String(value ?? "").toLowerCase();
+  if (!text) return null;
+  if (text.startsWith("partly") || text.startsWith("semi")) return "PARTLY";
+  if (text === "yes" || text === "furnished") return "YES";
+  if (text === "no" || text === "unfurnished") return "NO";
+  return null;
+}
+
+// Amenities come back as plain strings, { text } objects or grouped lists
+function amenityNames(value: any): string[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((item: any) => {
+    if (typeof item === "string") return [item];
+    if (Array.isArray(item?.amenities)) return amenityNames(item.amenities);
+    const name = item?.text ?? item?.name ?? item?.label;
+    return name ? [String(name)] : [];
+  });
+}
+
+// Locations are a display string, or a list of levels from city down to building
+function locationText(value: any): string {
+  if (Array.isArray(value)) {
+    return value
+      .map((level: any) => (typeof level === "string" ? level : level?.name))
+      .filter(Boolean)
+      .reverse()
+      .join(", ");
+  }
+  return value ? String(value) : "";
+}
+
+/**
+ * Maps a portal's detail payload onto the shared property-details shape.
+ * Property Finder payloads already use the shared field names; bayut and
+ * dubizzle ones are renamed, with bayut's square-metre area converted to
+ * sqft. Values are validated and coerced afterwards by the listing schema.
+ */
+export function normalisePropertyDetails(
+  raw: any,
+  portal: Portal,
+  link: string,
+): PropertyDetailsInput {
+  let details: Omit<
+    PropertyDetailsInput,
+    "purpose" | "portal" | "link" | "propertyType"
+  >;
+
+  switch (portal) {
+    case "bayut":
+      details = {
+        title: raw.title,
+        price: raw.price,
+        bedrooms: raw.rooms ?? raw.bedrooms,
+        bathrooms: raw.baths ?? raw.bathrooms,
+        size:
+          raw.size ??
+          (typeof raw.area === "number"
+            ? Math.round(raw.area * SQM_TO_SQFT)
+            : raw.area),
+        furnishing: furnishingFlag(raw.furnishingStatus ?? raw.furnishing),
+        location: locationText(raw.location),
+        amenities: amenityNames(raw.amenities),
+        image: raw.coverPhoto?.url ?? raw.image ?? null,
+      };
+      break;
+    case "dubizzle":
+      details = {
+        title: raw.name ?? raw.title,
+        price: raw.price,
+        bedrooms: raw.bedrooms,
+        bathrooms: raw.bathrooms,
+        size: raw.size,
+        furnishing: furnishingFlag(raw.furnished ?? raw.furnishing),
+        location: locationText(
+          raw.location_text ?? raw.location ?? raw.neighborhood,
+        ),
+        amenities: amenityNames(raw.amenities_v2 ?? raw.amenities),
+        image: raw.photos?.[0]?.url ?? raw.photos?.[0] ?? raw.image ?? null,
+      };
+      break;
+    default:
+      details = {
+        title: raw.title,
+        price: raw.price,
+        bedrooms: raw.bedrooms,
+        bathrooms: raw.bathrooms,
+        size: raw.size,
+        furnishing: furnishingFlag(raw.furnishing),
+        location: locationText(raw.location),
+        amenities: amenityNames(raw.amenities),
+        image: raw.image ?? null,
+      };
+  }
+
+  return {
+    ...details,
+    title: details.title || "Untitled listing",
+    propertyType:
+      raw.propertyType ?? raw.property_type ?? propertyTypeFromLink(link),
+    purpose: purposeFromLink(link) ?? purposeFromDetails(raw),
+    portal,
+    link,
+  };
+}
+
+function completionStatusFrom(raw: any): "ready" | "off_plan" | null {
+  const value = String(
+    raw.completionStatus ?? raw.completion_status ?? raw.completion ?? "",
+  )
+    .toLowerCase()
+    .replace(/[-_]/g, " ");
+  if (/off ?plan|under construction/.test(value)) return "off_plan";
+  if (/ready|complete/.test(value)) return "ready";
+  return null;
+}
+
+/**
+ * Maps a search result onto the shared listing-summary shape. Backends
+ * name the optional details differently, or leave them out; the ones
+ * found here are validated and coerced by the listing schema.
+ */
+export function normaliseListingSummary(raw: any): any {
+  if (!raw || typeof raw !== "object") return raw;
+  const link = typeof raw.link === "string" ? raw.link : "";
+  return {
+    ...raw,
+    bedrooms: raw.bedrooms ?? raw.beds ?? raw.rooms,
+    size: raw.size ?? raw.sizeSqft ?? raw.area_sqft,
+    furnishing: furnishingFlag(
+      raw.furnishing ?? raw.furnished ?? raw.furnishingStatus,
+    ),
+    propertyType:
+      raw.propertyType ?? raw.property_type ?? propertyTypeFromLink(link),
+    purpose: purposeFromLink(link) ?? purposeFromDetails(raw),
+    completionStatus: completionStatusFrom(raw),
+    grossYield: raw.grossYield ?? raw.gross_yield ?? raw.yield,
+  };
+}
+
+/**
+ * A stable key for an advert, so the same listing pasted with different
+ * tracking parameters or hosts maps to one record, e.g.
+ * "propertyfinder:14214294", "bayut:8123456" or "dubizzle:jvc-1-bed-2-123".
+ * Falls back to the link without query string or trailing slash.
+ */
+export function canonicalListingId(link: string): string {
+  const portal = findPropertyLink(link)?.portal;
+  let path = link;
+  try {
+    const url = new URL(link);
+    path = `${url.hostname.replace(/^www\./, "")}${url.pathname}`.replace(
+      /\/+$/,
+      "",
+    );
+  } catch {
+    // Not a parseable URL, key on the text as given
+  }
+
+  switch (portal) {
+    case "propertyfinder": {
+      const match = path.match(/-(\d+)\.html$/);
+      if (match) return `propertyfinder:${match[1]}`;
+      break;
+    }
+    case "bayut": {
+      const match = path.match(/details-(\d+)\.html$/);
+      if (match) return `bayut:${match[1]}`;
+      break;
+    }
+    case "dubizzle": {
+      const slug = path.split("/").pop();
+      if (slug) return `dubizzle:${slug}`;
+      break;
+    }
+  }
+  return path.toLowerCase();
+}
@@ -0,0 +1,115 @@
+import { type IAgentRuntime, logger } from "@elizaos/core";
+
+export const PRICE_HISTORY_TABLE_SQL = `
+  CREATE TABLE IF NOT EXISTS listing_price_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    listing_id TEXT NOT NULL,
+    price REAL NOT NULL,
+    observed_at INTEGER NOT NULL
+  )
+`;
+
+export interface PriceSnapshot {
+  price: number;
+  observedAt: Date;
+}
+
+export interface PriceChange {
+  direction: "reduced" | "increased" | "unchanged";
+  /** Change from the first observed price, e.g. -5 = reduced by 5% */
+  changePct: number;
+  firstPrice: number;
+  firstSeen: Date;
+  currentPrice: number;
+  /** When the listing last moved to its current price, null if it never changed */
+  changedAt: Date | null;
+}
+
+/**
+ * Records the price a listing was observed at. Called for every fresh fetch,
+ * so the listing cache TTL bounds how often a listing is sampled.
+ */
+export async function recordPriceSnapshot(
+  runtime: IAgentRuntime,
+  listingId: string,
+  price: number,
+  now: Date = new Date(),
+): Promise<void> {
+  const sql = (runtime as any).sql;
+  if (!sql) return;
+
+  try {
+    await sql.query(
+      `INSERT INTO listing_price_history (listing_id, price, observed_at) VALUES (?, ?, ?)`,
+      [listingId, price, now.getTime()],
+    );
+  } catch (error) {
+    logger.error(
+      { error },
+      `[recordPriceSnapshot] Error recording price for ${listingId}`,
+    );
+  }
+}
+
+/**
+ * Every recorded price for a listing, oldest first.
+ */
+export async function getPriceHistory(
+  runtime: IAgentRuntime,
+  listingId: string,
+): Promise<PriceSnapshot[]> {
+  const sql = (runtime as any).sql;
+  if (!sql) return [];
+
+  try {
+    const rows = await sql.query(
+      `SELECT price, observed_at FROM listing_price_history WHERE listing_id = ? ORDER BY observed_at ASC`,
+      [listingId],
+    );
+    return (rows || []).map((row: any) => ({
+      price: Number(row.price),
+      observedAt: new Date(Number(row.observed_at)),
+    }));
+  } catch (error) {
+    logger.error(
+      { error },
+      `[getPriceHistory] Error reading price history for ${listingId}`,
+    );
+    return [];
+  }
+}
+
+/**
+ * Collapses repeated observations at the same price, keeping the first
+ * sighting of each price level.
+ */
+export function priceChanges(history: PriceSnapshot[]): PriceSnapshot[] {
+  return history.filter(
+    (snapshot, index) =>
+      index === 0 || snapshot.price !== history[index - 1].price,
+  );
+}
+
+/**
+ * Compares the latest observed price with the first one on record.
+ */
+export function summarisePriceChange(
+  history: PriceSnapshot[],
+): PriceChange | null {
+  if (history.length === 0) return null;
+
+  const first = history[0];
+  const levels = priceChanges(history);
+  const current = levels[levels.length - 1];
+  const changePct = ((current.price - first.price) / first.price) * 100;
+
+  return {
+    direction:
+      changePct < 0 ? "reduced" : changePct > 0 ? "increased" : "unchanged",
+    changePct,
+    firstPrice: first.price,
+    firstSeen: first.observedAt,
+    currentPrice: current.price,
+    changedAt: levels.length > 1 ? current.observedAt : null,
+  };
+}
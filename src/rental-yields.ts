@@ -0,0 +1,528 @@
+import { logger } from "@elizaos/core";
+import fs from "fs";
+import {
+  findPlace,
+  matchPlace,
+  normaliseAreaKey,
+  placeLineage,
+  placesWithin,
+} from "./gazetteer";
+
+/**
+ * A single rental contract row from the Dubai rental_yields.csv dataset.
+ * Sizes are always held in square feet and yields in percent.
+ */
+export interface RentalContract {
+  area: string;
+  propertyType: string | null;
+  bedrooms: number | null;
+  sizeSqft: number | null;
+  annualRent: number;
+  transactionPrice: number | null;
+  contractDate: Date | null;
+  grossYield: number | null;
+}
+
+/**
+ * Filters accepted by {@link RentalYieldStore.query}. Every field is optional;
+ * an empty query matches the whole dataset (the city-wide view).
+ */
+export interface ContractQuery {
+  area?: string;
+  propertyType?: string;
+  bedrooms?: number;
+  minSize?: number;
+  maxSize?: number;
+  from?: Date;
+  to?: Date;
+}
+
+export interface MetricSummary {
+  count: number;
+  mean: number;
+  median: number;
+  p25: number;
+  p75: number;
+  min: number;
+  max: number;
+}
+
+export interface ContractStats {
+  count: number;
+  grossYield: MetricSummary | null;
+  annualRent: MetricSummary | null;
+  transactionPrice: MetricSummary | null;
+  rentPerSqft: MetricSummary | null;
+  pricePerSqft: MetricSummary | null;
+}
+
+export interface YieldComparison {
+  segment: ContractStats;
+  cityWide: ContractStats;
+  spreadPp: number | null;
+}
+
+export const SQM_TO_SQFT = 10.7639;
+
+// Accepted header spellings for each field, after normalising to snake_case
+const COLUMN_ALIASES: Record<string, string[]> = {
+  area: ["area", "area_name", "area_name_en", "community", "location"],
+  propertyType: [
+    "property_type",
+    "prop_type",
+    "property_sub_type",
+    "unit_type",
+    "type",
+  ],
+  bedrooms: ["bedrooms", "bedroom", "beds", "rooms", "rooms_en"],
+  sizeSqft: ["size_sqft", "area_sqft", "sqft", "size", "actual_area"],
+  sizeSqm: ["size_sqm", "size_m2", "area_sqm", "sqm", "procedure_area"],
+  annualRent: [
+    "annual_rent",
+    "rent",
+    "annual_amount",
+    "contract_amount",
+    "rent_aed",
+  ],
+  transactionPrice: [
+    "transaction_price",
+    "sale_price",
+    "price",
+    "trans_value",
+    "actual_worth",
+  ],
+  contractDate: [
+    "contract_date",
+    "contract_start_date",
+    "start_date",
+    "date",
+    "instance_date",
+  ],
+};
+
+/**
+ * Splits CSV text into rows of fields, honouring double-quoted fields that
+ * contain commas, escaped quotes or line breaks.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      field = "";
+      if (row.some((value) => value.trim() !== "")) rows.push(row);
+      row = [];
+    } else {
+      field += char;
+    }
+  }
+
+  row.push(field);
+  if (row.some((value) => value.trim() !== "")) rows.push(row);
+  return rows;
+}
+
+export function normalisePropertyType(
+  value: string | null | undefined,
+): string | null {
+  if (!value) return null;
+  const type = value.toLowerCase().trim();
+  if (!type) return null;
+  if (type.includes("penthouse")) return "penthouse";
+  if (type.includes("townhouse")) return "townhouse";
+  if (type.includes("villa") || type.includes("house")) return "villa";
+  if (
+    type.includes("apartment") ||
+    type.includes("flat") ||
+    type.includes("unit")
+  ) {
+    return "apartment";
+  }
+  return type;
+}
+
+/**
+ * Parses bedroom descriptions such as "Studio", "1 B/R", "2" or "4+" into a
+ * number, with studios represented as 0.
+ */
+export function parseBedrooms(
+  value: string | number | null | undefined,
+): number | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  const text = value.toLowerCase().trim();
+  if (!text) return null;
+  if (text.includes("studio")) return 0;
+  const match = text.match(/\d+/);
+  return match ? parseInt(match[0], 10) : null;
+}
+
+export function parseNumber(value: string | undefined): number | null {
+  if (value === undefined) return null;
+  const cleaned = value.replace(/[^0-9.\-]/g, "");
+  if (!cleaned) return null;
+  const parsed = parseFloat(cleaned);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function parseDate(value: string | undefined): Date | null {
+  if (!value || !value.trim()) return null;
+  const text = value.trim();
+
+  // Day-first formats used by DLD exports, e.g. 15-06-2022 or 15/06/2022
+  const dayFirst = text.match(/^(\d{1,2})[-/](\d{1,2})[-/](\d{4})/);
+  if (dayFirst) {
+    const [, day, month, year] = dayFirst;
+    return new Date(
+      Date.UTC(parseInt(year, 10), parseInt(month, 10) - 1, parseInt(day, 10)),
+    );
+  }
+
+  const parsed = new Date(text);
+  return isNaN(parsed.getTime()) ? null : parsed;
+}
+
+function resolveColumns(header: string[]): Record<string, number> {
+  const normalised = header.map((name) =>
+    name
+      .toLowerCase()
+      .trim()
+      .replace(/[^a-z0-9]+/g, "_")
+      .replace(/^_|_$/g, ""),
+  );
+
+  const columns: Record<string, number> = {};
+  for (const [field, aliases] of Object.entries(COLUMN_ALIASES)) {
+    for (const alias of aliases) {
+      const index = normalised.indexOf(alias);
+      if (index !== -1) {
+        columns[field] = index;
+        break;
+      }
+    }
+  }
+  return columns;
+}
+
+/**
+ * Parses the rental_yields.csv text into typed contracts. Rows without an
+ * area or a positive annual rent are skipped.
+ */
+export function parseRentalYieldsCsv(text: string): RentalContract[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+
+  const columns = resolveColumns(header);
+  if (columns.area === undefined || columns.annualRent === undefined) {
+    throw new Error(
+      `rental_yields.csv is missing required columns (found: ${header.join(", ")})`,
+    );
+  }
+
+  const contracts: RentalContract[] = [];
+  let skipped = 0;
+
+  for (const row of rows) {
+    const cell = (field: string) =>
+      columns[field] !== undefined ? row[columns[field]]?.trim() : undefined;
+
+    const area = cell("area");
+    const annualRent = parseNumber(cell("annualRent"));
+    if (!area || !annualRent || annualRent <= 0) {
+      skipped++;
+      continue;
+    }
+
+    let sizeSqft = parseNumber(cell("sizeSqft"));
+    if (sizeSqft === null) {
+      const sizeSqm = parseNumber(cell("sizeSqm"));
+      sizeSqft = sizeSqm !== null ? Math.round(sizeSqm * SQM_TO_SQFT) : null;
+    }
+
+    const transactionPrice = parseNumber(cell("transactionPrice"));
+    const validPrice =
+      transactionPrice && transactionPrice > 0 ? transactionPrice : null;
+
+    contracts.push({
+      area,
+      propertyType: normalisePropertyType(cell("propertyType")),
+      bedrooms: parseBedrooms(cell("bedrooms")),
+      sizeSqft: sizeSqft && sizeSqft > 0 ? sizeSqft : null,
+      annualRent,
+      transactionPrice: validPrice,
+      contractDate: parseDate(cell("contractDate")),
+      grossYield: validPrice ? (annualRent / validPrice) * 100 : null,
+    });
+  }
+
+  if (skipped > 0) {
+    logger.warn(
+      `[parseRentalYieldsCsv] Skipped ${skipped} rows without area or annual rent`,
+    );
+  }
+  return contracts;
+}
+
+/**
+ * Linear-interpolated percentile of an ascending sorted array.
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return NaN;
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+export function summarise(values: number[]): MetricSummary | null {
+  const sorted = values
+    .filter((value) => Number.isFinite(value))
+    .sort((a, b) => a - b);
+  if (sorted.length === 0) return null;
+
+  return {
+    count: sorted.length,
+    mean: sorted.reduce((sum, value) => sum + value, 0) / sorted.length,
+    median: percentile(sorted, 50),
+    p25: percentile(sorted, 25),
+    p75: percentile(sorted, 75),
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+  };
+}
+
+/**
+ * Summarises yield, rent and price metrics for a set of contracts.
+ */
+export function computeContractStats(
+  contracts: RentalContract[],
+): ContractStats {
+  const withSize = contracts.filter((c) => c.sizeSqft);
+
+  return {
+    count: contracts.length,
+    grossYield: summarise(
+      contracts.filter((c) => c.grossYield !== null).map((c) => c.grossYield),
+    ),
+    annualRent: summarise(contracts.map((c) => c.annualRent)),
+    transactionPrice: summarise(
+      contracts
+        .filter((c) => c.transactionPrice)
+        .map((c) => c.transactionPrice),
+    ),
+    rentPerSqft: summarise(withSize.map((c) => c.annualRent / c.sizeSqft)),
+    pricePerSqft: summarise(
+      withSize
+        .filter((c) => c.transactionPrice)
+        .map((c) => c.transactionPrice / c.sizeSqft),
+    ),
+  };
+}
+
+/**
+ * In-memory store of rental contracts indexed by area, property type and
+ * bedroom count. All yield figures John quotes are computed from here.
+ */
+export class RentalYieldStore {
+  private readonly contracts: RentalContract[];
+  private readonly byArea = new Map<string, RentalContract[]>();
+  private readonly byType = new Map<string, RentalContract[]>();
+  private readonly byBedrooms = new Map<number, RentalContract[]>();
+  private readonly areaNames = new Map<string, string>();
+  // Gazetteer place name → key of the dataset area it corresponds to
+  private readonly placeAreas = new Map<string, string>();
+
+  constructor(contracts: RentalContract[]) {
+    this.contracts = contracts;
+
+    for (const contract of contracts) {
+      const areaKey = normaliseAreaKey(contract.area);
+      if (!this.areaNames.has(areaKey)) {
+        this.areaNames.set(areaKey, contract.area);
+        const place = findPlace(contract.area);
+        if (place && !this.placeAreas.has(place.name))
+          this.placeAreas.set(place.name, areaKey);
+      }
+      pushToIndex(this.byArea, areaKey, contract);
+      if (contract.propertyType)
+        pushToIndex(this.byType, contract.propertyType, contract);
+      if (contract.bedrooms !== null)
+        pushToIndex(this.byBedrooms, contract.bedrooms, contract);
+    }
+  }
+
+  get size(): number {
+    return this.contracts.length;
+  }
+
+  /** Display names of every area present in the dataset. */
+  areas(): string[] {
+    return Array.from(this.areaNames.values());
+  }
+
+  /**
+   * Finds the longest area name or gazetteer alias mentioned in free text,
+   * so that "Samara, Arabian Ranches 2" resolves to "Arabian Ranches 2"
+   * rather than "Arabian Ranches". Places the dataset has no contracts for
+   * roll up to the nearest enclosing area it does have, e.g. a building in
+   * Dubai Marina resolves to Dubai Marina.
+   */
+  resolveArea(text: string): string | null {
+    const haystack = ` ${normaliseAreaKey(text)} `;
+    let best: string | null = null;
+    let bestLength = 0;
+
+    for (const key of this.areaNames.keys()) {
+      if (key.length > bestLength && haystack.includes(` ${key} `)) {
+        best = key;
+        bestLength = key.length;
+      }
+    }
+
+    const match = matchPlace(text);
+    if (match && match.phrase.length > bestLength) {
+      const known = placeLineage(match.place.name).find((place) =>
+        this.placeAreas.has(place.name),
+      );
+      if (known) best = this.placeAreas.get(known.name);
+    }
+    return best ? this.areaNames.get(best) : null;
+  }
+
+  // Dataset area keys covered by an area name or alias: the area itself plus
+  // any sub-communities and buildings the dataset lists separately
+  private areaKeys(area: string): string[] {
+    const keys = new Set<string>();
+    const key = normaliseAreaKey(area);
+    if (this.byArea.has(key)) keys.add(key);
+
+    const place = findPlace(area);
+    if (place) {
+      for (const name of [place.name, ...placesWithin(place.name)]) {
+        const placeKey = this.placeAreas.get(name);
+        if (placeKey) keys.add(placeKey);
+      }
+    }
+    return Array.from(keys);
+  }
+
+  query(query: ContractQuery = {}): RentalContract[] {
+    const propertyType = normalisePropertyType(query.propertyType);
+
+    // Start from the narrowest index available, then filter the rest
+    let candidates = this.contracts;
+    if (query.area) {
+      candidates = this.areaKeys(query.area).flatMap(
+        (key) => this.byArea.get(key) || [],
+      );
+    } else if (query.bedrooms !== undefined && query.bedrooms !== null) {
+      candidates = this.byBedrooms.get(query.bedrooms) || [];
+    } else if (propertyType) {
+      candidates = this.byType.get(propertyType) || [];
+    }
+
+    return candidates.filter((contract) => {
+      if (propertyType && contract.propertyType !== propertyType) return false;
+      if (query.bedrooms !== undefined && query.bedrooms !== null) {
+        if (contract.bedrooms !== query.bedrooms) return false;
+      }
+      if (
+        query.minSize &&
+        (!contract.sizeSqft || contract.sizeSqft < query.minSize)
+      )
+        return false;
+      if (
+        query.maxSize &&
+        (!contract.sizeSqft || contract.sizeSqft > query.maxSize)
+      )
+        return false;
+      if (query.from || query.to) {
+        if (!contract.contractDate) return false;
+        if (query.from && contract.contractDate < query.from) return false;
+        if (query.to && contract.contractDate > query.to) return false;
+      }
+      return true;
+    });
+  }
+
+  stats(query: ContractQuery = {}): ContractStats {
+    return computeContractStats(this.query(query));
+  }
+
+  /**
+   * Compares a segment against the same filters across the whole city,
+   * returning the gap between the two median yields in percentage points.
+   */
+  compareToCity(query: ContractQuery): YieldComparison {
+    const segment = this.stats(query);
+    const cityWide = this.stats({ ...query, area: undefined });
+    const spreadPp =
+      segment.grossYield && cityWide.grossYield
+        ? segment.grossYield.median - cityWide.grossYield.median
+        : null;
+    return { segment, cityWide, spreadPp };
+  }
+}
+
+function pushToIndex<K>(
+  index: Map<K, RentalContract[]>,
+  key: K,
+  contract: RentalContract,
+) {
+  const bucket = index.get(key);
+  if (bucket) {
+    bucket.push(contract);
+  } else {
+    index.set(key, [contract]);
+  }
+}
+
+let activeStore: RentalYieldStore | null = null;
+
+/**
+ * Reads and indexes the rental yields CSV from disk.
+ */
+export function loadRentalYieldStore(csvPath: string): RentalYieldStore {
+  const csvText = fs.readFileSync(csvPath, "utf-8");
+  const store = new RentalYieldStore(parseRentalYieldsCsv(csvText));
+  logger.info(
+    `[loadRentalYieldStore] Indexed ${store.size} rental contracts from ${csvPath}`,
+  );
+  return store;
+}
+
+export function setRentalYieldStore(store: RentalYieldStore | null): void {
+  activeStore = store;
+}
+
+/**
+ * Returns the dataset loaded at agent start-up, or null when
+ * rental_yields.csv was not available.
+ */
+export function getRentalYieldStore(): RentalYieldStore | null {
+  return activeStore;
+}
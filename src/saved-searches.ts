@@ -0,0 +1,499 @@
+import { type IAgentRuntime, logger } from "@elizaos/core";
+import { formatAed } from "./format";
+import type { ListingSearchCriteria } from "./listing-sources";
+
+export const SAVED_SEARCHES_TABLE_SQL = `
+  CREATE TABLE IF NOT EXISTS saved_searches (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    area TEXT,
+    property_type TEXT,
+    bedrooms TEXT,
+    max_price INTEGER,
+    min_price INTEGER,
+    yield_floor REAL,
+    furnished INTEGER,
+    min_size INTEGER,
+    max_size INTEGER,
+    purpose TEXT,
+    completion_status TEXT,
+    is_active INTEGER NOT NULL DEFAULT 0,
+    updated_at INTEGER NOT NULL,
+    UNIQUE(user_id, name)
+  )
+`;
+
+const MAX_NAME_LENGTH = 40;
+
+export type SavedSearchCriteria = ListingSearchCriteria;
+
+export type SavedSearchField = keyof SavedSearchCriteria;
+
+export interface SavedSearch {
+  userId: string;
+  name: string;
+  criteria: SavedSearchCriteria;
+  active: boolean;
+  updatedAt: Date;
+}
+
+export type SavedSearchCommand =
+  | { type: "list" }
+  | { type: "run" | "use" | "delete"; name: string }
+  | { type: "rename"; name: string; newName: string }
+  | { type: "clear"; name?: string; fields: SavedSearchField[] };
+
+const FIELD_COLUMNS: Record<SavedSearchField, string> = {
+  area: "area",
+  propertyType: "property_type",
+  bedrooms: "bedrooms",
+  maxPrice: "max_price",
+  minPrice: "min_price",
+  yieldFloor: "yield_floor",
+  furnished: "furnished",
+  minSizeSqft: "min_size",
+  maxSizeSqft: "max_size",
+  purpose: "purpose",
+  completionStatus: "completion_status",
+};
+
+const FIELD_LABELS: Record<SavedSearchField, string> = {
+  area: "area",
+  propertyType: "property type",
+  bedrooms: "bedrooms",
+  maxPrice: "maximum price",
+  minPrice: "minimum price",
+  yieldFloor: "yield floor",
+  furnished: "furnishing",
+  minSizeSqft: "minimum size",
+  maxSizeSqft: "maximum size",
+  purpose: "rent or buy",
+  completionStatus: "completion status",
+};
+
+/**
+ * Turns free text into a search name, e.g. "Marina 2bed" → "marina-2bed".
+ */
+export function slugifySearchName(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, MAX_NAME_LENGTH)
+    .replace(/-+$/, "");
+}
+
+/**
+ * Name used when a search is saved without one, e.g. "dubai-marina-2bed-apartment".
+ */
+export function defaultSearchName(criteria: SavedSearchCriteria): string {
+  const bedrooms =
+    criteria.bedrooms === undefined ||
+    criteria.bedrooms === null ||
+    criteria.bedrooms === ""
+      ? ""
+      : String(criteria.bedrooms).toLowerCase() === "studio"
+        ? "studio"
+        : `${criteria.bedrooms}bed`;
+  const name = slugifySearchName(
+    [criteria.area, bedrooms, criteria.propertyType].filter(Boolean).join(" "),
+  );
+  return name || "my-search";
+}
+
+/**
+ * Describes saved criteria in a sentence fragment, e.g.
+ * "2 bedroom apartment properties in Dubai Marina under AED 1,500,000".
+ */
+export function describeSearchCriteria(criteria: SavedSearchCriteria): string {
+  const bedrooms =
+    criteria.bedrooms === undefined ||
+    criteria.bedrooms === null ||
+    criteria.bedrooms === ""
+      ? ""
+      : String(criteria.bedrooms).toLowerCase() === "studio"
+        ? "studio "
+        : `${criteria.bedrooms} bedroom `;
+  let description = `${bedrooms}${criteria.propertyType ? criteria.propertyType + " " : ""}properties`;
+  if (criteria.completionStatus) {
+    description = `${criteria.completionStatus === "off_plan" ? "off-plan" : "ready"} ${description}`;
+  }
+  if (criteria.purpose)
+    description += criteria.purpose === "rent" ? " to rent" : " for sale";
+  if (criteria.area) description += ` in ${criteria.area}`;
+  if (criteria.minPrice && criteria.maxPrice) {
+    description += ` between ${formatAed(criteria.minPrice)} and ${formatAed(criteria.maxPrice)}`;
+  } else if (criteria.maxPrice) {
+    description += ` under ${formatAed(criteria.maxPrice)}`;
+  } else if (criteria.minPrice) {
+    description += ` over ${formatAed(criteria.minPrice)}`;
+  }
+  if (criteria.minSizeSqft && criteria.maxSizeSqft) {
+    description += ` of ${criteria.minSizeSqft.toLocaleString()}-${criteria.maxSizeSqft.toLocaleString()} sqft`;
+  } else if (criteria.maxSizeSqft) {
+    description += ` up to ${criteria.maxSizeSqft.toLocaleString()} sqft`;
+  } else if (criteria.minSizeSqft) {
+    description += ` of at least ${criteria.minSizeSqft.toLocaleString()} sqft`;
+  }
+  if (criteria.yieldFloor)
+    description += ` yielding at least ${criteria.yieldFloor}%`;
+  if (criteria.furnished !== undefined) {
+    description += criteria.furnished ? ", furnished" : ", unfurnished";
+  }
+  return description;
+}
+
+export function describeSearchFields(fields: SavedSearchField[]): string {
+  return fields.map((field) => FIELD_LABELS[field]).join(", ");
+}
+
+/**
+ * Reads the name from "save this search as marina 2bed", if one was given.
+ */
+export function parseSearchName(text: string): string | undefined {
+  const match = text.match(
+    /\b(?:as|called|named)\s+["']?([\w -]+?)["']?\s*[.!]?$/i,
+  );
+  const name = match ? slugifySearchName(match[1]) : "";
+  return name || undefined;
+}
+
+/**
+ * The criteria a phrase refers to, e.g. "the max price" or "any area".
+ * Expects lower-case text.
+ */
+export function clearedFields(text: string): SavedSearchField[] {
+  const fields: SavedSearchField[] = [];
+  if (/\bmax(?:imum)? price\b|\bbudget\b|\bprice (?:limit|cap)\b/.test(text)) {
+    fields.push("maxPrice");
+  }
+  if (/\bmin(?:imum)? price\b/.test(text)) fields.push("minPrice");
+  if (fields.length === 0 && /\bprices?\b/.test(text))
+    fields.push("maxPrice", "minPrice");
+  if (/\b(?:area|location|community)\b/.test(text)) fields.push("area");
+  if (/\b(?:property )?type\b/.test(text)) fields.push("propertyType");
+  if (/\b(?:bed(?:room)?s?|studio)\b/.test(text)) fields.push("bedrooms");
+  if (/\byield\b/.test(text)) fields.push("yieldFloor");
+  if (/\bfurnish/.test(text)) fields.push("furnished");
+  if (/\bmax(?:imum)? size\b/.test(text)) fields.push("maxSizeSqft");
+  if (/\bmin(?:imum)? size\b/.test(text)) fields.push("minSizeSqft");
+  if (
+    !/\bm(?:ax|in)(?:imum)? size\b/.test(text) &&
+    /\b(?:size|sqft|sq ft)\b/.test(text)
+  ) {
+    fields.push("minSizeSqft", "maxSizeSqft");
+  }
+  if (/\b(?:purpose|rent or buy|rent|buy)\b/.test(text)) fields.push("purpose");
+  if (/\b(?:completion|off[- ]?plan|ready)\b/.test(text))
+    fields.push("completionStatus");
+  return fields;
+}
+
+/**
+ * Recognises commands for managing saved searches, e.g. "list my saved
+ * searches", "rename search marina-2bed to marina-2br", "delete search
+ * jvc-studio", "run search jvc-studio-yield" or "clear the max price from
+ * search marina-2bed". Returns null for anything else.
+ */
+export function parseSavedSearchCommand(
+  text: string,
+): SavedSearchCommand | null {
+  const lower = text.toLowerCase().trim();
+  const name = `["']?([a-z0-9][\\w-]*)["']?`;
+  const searchWord = `(?:(?:my|the)\\s+)?(?:saved\\s+)?search`;
+
+  if (
+    /\b(?:list|show|see|what are)\b.*\b(?:saved )?searches\b/.test(lower) ||
+    /^my (?:saved )?searches\??$/.test(lower)
+  ) {
+    return { type: "list" };
+  }
+
+  const rename = lower.match(
+    new RegExp(
+      `\\brename\\s+(?:${searchWord}\\s+)?${name}\\s+(?:to|as)\\s+["']?([\\w -]+?)["']?$`,
+    ),
+  );
+  if (rename) {
+    const newName = slugifySearchName(rename[2]);
+    if (newName) return { type: "rename", name: rename[1], newName };
+  }
+
+  // "drop the budget to 2M" lowers the budget rather than clearing it
+  if (
+    /\b(?:clear|remove|drop|reset|unset)\b/.test(lower) &&
+    !/\bto\s+(?:aed\s*)?\d/.test(lower)
+  ) {
+    const target =
+      lower.match(
+        new RegExp(`\\b(?:from|on|in|for)\\s+${searchWord}\\s+${name}`),
+      ) || lower.match(/\b(?:from|on|in|for)\s+["']?([a-z0-9]+-[\w-]+)/);
+    // Names such as "jvc-studio-yield" shouldn't read as fields to clear
+    const fields = clearedFields(target ? lower.replace(target[0], "") : lower);
+    if (fields.length > 0) return { type: "clear", name: target?.[1], fields };
+  }
+
+  const remove = lower.match(
+    new RegExp(`\\b(?:delete|remove|forget)\\s+${searchWord}\\s+${name}`),
+  );
+  if (remove) return { type: "delete", name: remove[1] };
+
+  const run =
+    lower.match(
+      new RegExp(`\\b(?:run|re-?run|load|open)\\s+${searchWord}\\s+${name}`),
+    ) || lower.match(/\b(?:run|re-?run)\s+["']?([a-z0-9]+-[\w-]+)/);
+  if (run) return { type: "run", name: run[1] };
+
+  const use = lower.match(
+    new RegExp(
+      `\\b(?:use|switch to|activate|make)\\s+${searchWord}\\s+${name}`,
+    ),
+  );
+  if (use) return { type: "use", name: use[1] };
+
+  return null;
+}
+
+function rowToSavedSearch(row: any): SavedSearch {
+  const criteria: SavedSearchCriteria = {};
+  if (row.area) criteria.area = row.area;
+  if (row.property_type) criteria.propertyType = row.property_type;
+  if (
+    row.bedrooms !== null &&
+    row.bedrooms !== undefined &&
+    row.bedrooms !== ""
+  ) {
+    criteria.bedrooms = row.bedrooms;
+  }
+  if (row.max_price) criteria.maxPrice = Number(row.max_price);
+  if (row.min_price) criteria.minPrice = Number(row.min_price);
+  if (row.yield_floor) criteria.yieldFloor = Number(row.yield_floor);
+  if (row.furnished !== null && row.furnished !== undefined) {
+    criteria.furnished = Boolean(Number(row.furnished));
+  }
+  if (row.min_size) criteria.minSizeSqft = Number(row.min_size);
+  if (row.max_size) criteria.maxSizeSqft = Number(row.max_size);
+  if (row.purpose) criteria.purpose = row.purpose;
+  if (row.completion_status) criteria.completionStatus = row.completion_status;
+
+  return {
+    userId: row.user_id,
+    name: row.name,
+    criteria,
+    active: Boolean(Number(row.is_active)),
+    updatedAt: new Date(Number(row.updated_at)),
+  };
+}
+
+function requireSql(runtime: IAgentRuntime) {
+  const sql = (runtime as any).sql;
+  if (!sql) throw new Error("Saved searches need the SQL plugin");
+  return sql;
+}
+
+/**
+ * Saves criteria under a name, replacing every field of an existing search
+ * with that name, and makes it the user's active search.
+ */
+export async function saveSearch(
+  runtime: IAgentRuntime,
+  userId: string,
+  name: string,
+  criteria: SavedSearchCriteria,
+  now: Date = new Date(),
+): Promise<SavedSearch> {
+  const sql = requireSql(runtime);
+
+  await sql.query(
+    `INSERT INTO saved_searches (
+      user_id, name, area, property_type, bedrooms, max_price, min_price, yield_floor, furnished,
+      min_size, max_size, purpose, completion_status, is_active, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 1, ?)
+    ON CONFLICT (user_id, name) DO UPDATE SET
+      area = excluded.area,
+      property_type = excluded.property_type,
+      bedrooms = excluded.bedrooms,
+      max_price = excluded.max_price,
+      min_price = excluded.min_price,
+      yield_floor = excluded.yield_floor,
+      furnished = excluded.furnished,
+      min_size = excluded.min_size,
+      max_size = excluded.max_size,
+      purpose = excluded.purpose,
+      completion_status = excluded.completion_status,
+      is_active = 1,
+      updated_at = excluded.updated_at`,
+    [
+      userId,
+      name,
+      criteria.area || null,
+      criteria.propertyType || null,
+      criteria.bedrooms?.toString() || null,
+      criteria.maxPrice || null,
+      criteria.minPrice || null,
+      criteria.yieldFloor || null,
+      criteria.furnished === undefined ? null : criteria.furnished ? 1 : 0,
+      criteria.minSizeSqft || null,
+      criteria.maxSizeSqft || null,
+      criteria.purpose || null,
+      criteria.completionStatus || null,
+      now.getTime(),
+    ],
+  );
+  await sql.query(
+    `UPDATE saved_searches SET is_active = 0 WHERE user_id = ? AND name <> ?`,
+    [userId, name],
+  );
+
+  return { userId, name, criteria, active: true, updatedAt: now };
+}
+
+/**
+ * All of a user's saved searches, most recently updated first.
+ */
+export async function listSavedSearches(
+  runtime: IAgentRuntime,
+  userId: string,
+): Promise<SavedSearch[]> {
+  const sql = (runtime as any).sql;
+  if (!sql) return [];
+
+  const rows = await sql.query(
+    `SELECT * FROM saved_searches WHERE user_id = ? ORDER BY updated_at DESC`,
+    [userId],
+  );
+  return (rows || []).map(rowToSavedSearch);
+}
+
+export async function getSavedSearch(
+  runtime: IAgentRuntime,
+  userId: string,
+  name: string,
+): Promise<SavedSearch | null> {
+  const sql = (runtime as any).sql;
+  if (!sql) return null;
+
+  const rows = await sql.query(
+    `SELECT * FROM saved_searches WHERE user_id = ? AND name = ?`,
+    [userId, name],
+  );
+  return rows && rows.length > 0 ? rowToSavedSearch(rows[0]) : null;
+}
+
+/**
+ * The search the user last saved or switched to, falling back to the most
+ * recently updated one.
+ */
+export async function getActiveSearch(
+  runtime: IAgentRuntime,
+  userId: string,
+): Promise<SavedSearch | null> {
+  const searches = await listSavedSearches(runtime, userId);
+  return searches.find((search) => search.active) || searches[0] || null;
+}
+
+/**
+ * Makes a saved search the active one. Returns false if it doesn't exist.
+ */
+export async function setActiveSearch(
+  runtime: IAgentRuntime,
+  userId: string,
+  name: string,
+): Promise<boolean> {
+  const sql = requireSql(runtime);
+  if (!(await getSavedSearch(runtime, userId, name))) return false;
+
+  await sql.query(
+    `UPDATE saved_searches SET is_active = CASE WHEN name = ? THEN 1 ELSE 0 END WHERE user_id = ?`,
+    [name, userId],
+  );
+  return true;
+}
+
+/**
+ * Renames a saved search. Returns false if it doesn't exist; callers check
+ * the new name is free first.
+ */
+export async function renameSavedSearch(
+  runtime: IAgentRuntime,
+  userId: string,
+  name: string,
+  newName: string,
+  now: Date = new Date(),
+): Promise<boolean> {
+  const sql = requireSql(runtime);
+  if (!(await getSavedSearch(runtime, userId, name))) return false;
+
+  await sql.query(
+    `UPDATE saved_searches SET name = ?, updated_at = ? WHERE user_id = ? AND name = ?`,
+    [newName, now.getTime(), userId, name],
+  );
+  return true;
+}
+
+export async function deleteSavedSearch(
+  runtime: IAgentRuntime,
+  userId: string,
+  name: string,
+): Promise<boolean> {
+  const sql = requireSql(runtime);
+  if (!(await getSavedSearch(runtime, userId, name))) return false;
+
+  await sql.query(`DELETE FROM saved_searches WHERE user_id = ? AND name = ?`, [
+    userId,
+    name,
+  ]);
+  return true;
+}
+
+/**
+ * Sets the given fields of a saved search back to "any". Returns the updated
+ * search, or null if it doesn't exist.
+ */
+export async function clearSavedSearchFields(
+  runtime: IAgentRuntime,
+  userId: string,
+  name: string,
+  fields: SavedSearchField[],
+  now: Date = new Date(),
+): Promise<SavedSearch | null> {
+  const sql = requireSql(runtime);
+  if (!(await getSavedSearch(runtime, userId, name))) return null;
+
+  const assignments = fields.map((field) => `${FIELD_COLUMNS[field]} = NULL`);
+  await sql.query(
+    `UPDATE saved_searches SET ${assignments.join(", ")}, updated_at = ? WHERE user_id = ? AND name = ?`,
+    [now.getTime(), userId, name],
+  );
+  return getSavedSearch(runtime, userId, name);
+}
+
+/**
+ * Moves searches from the old single-row `preferences` table into
+ * `saved_searches` as each user's "default" search. Copied rows are deleted,
+ * so later start-ups don't bring them back once they've been re-keyed or
+ * renamed. A no-op where the old table never existed.
+ */
+export async function migrateLegacyPreferences(
+  runtime: IAgentRuntime,
+  now: Date = new Date(),
+): Promise<void> {
+  const sql = (runtime as any).sql;
+  if (!sql) return;
+
+  try {
+    await sql.query(
+      `INSERT INTO saved_searches (
+        user_id, name, area, property_type, bedrooms, max_price, min_price, yield_floor, furnished, is_active, updated_at
+      )
+      SELECT user_id, 'default', area, property_type, bedrooms, max_price, min_price, yield_floor, furnished, 1, ?
+      FROM preferences WHERE true
+      ON CONFLICT (user_id, name) DO NOTHING`,
+      [now.getTime()],
+    );
+    await sql.query(`DELETE FROM preferences WHERE true`);
+  } catch (error) {
+    logger.warn({ error }, "Skipped migrating legacy preferences");
+  }
+}
@@ -0,0 +1,188 @@
+import { type IAgentRuntime, logger } from "@elizaos/core";
+import type { ListingSearchCriteria } from "./listing-sources";
+
+export const DEFAULT_SEARCH_SESSION_TTL_MINUTES = 30;
+
+/**
+ * Where a user is in the search flow:
+ * - `awaiting_criteria`: John asked what they're looking for
+ * - `showing_results`: a page of results is on screen, so "show more",
+ *   "narrow" and "save these" refer to it
+ * - `refining`: John asked which part of the search to change
+ *
+ * A user with no session is idle.
+ */
+export type SearchSessionState =
+  | "awaiting_criteria"
+  | "showing_results"
+  | "refining";
+
+// Where the user is in the current search's results
+export interface ListingPageState {
+  page: number;
+  total: number | null;
+  nextCursor: string | null;
+  /** Listings on the page left out for yielding under the floor */
+  belowYieldFloor?: number;
+  /** False once the last page fetched was the end of the results */
+  hasMore?: boolean;
+}
+
+export interface SearchSession {
+  state: SearchSessionState;
+  criteria: ListingSearchCriteria;
+  paging: ListingPageState | null;
+  /** Epoch milliseconds of the last transition */
+  updatedAt: number;
+}
+
+export type SearchSessionEvent =
+  | { type: "ask_criteria" }
+  | {
+      type: "show_results";
+      criteria: ListingSearchCriteria;
+      paging: ListingPageState;
+    }
+  | { type: "show_page"; paging: ListingPageState }
+  | { type: "refine" }
+  | { type: "reset" };
+
+/**
+ * Raised for an event the session's state doesn't accept, e.g. "show more"
+ * with no results on screen.
+ */
+export class InvalidSearchTransitionError extends Error {
+  constructor(
+    readonly from: SearchSessionState | "idle",
+    readonly event: SearchSessionEvent["type"],
+  ) {
+    super(`Search session can't handle ${event} while ${from}`);
+    this.name = "InvalidSearchTransitionError";
+  }
+}
+
+/**
+ * Applies an event to a session and returns the new one, or null once the
+ * user is idle again:
+ * - `ask_criteria` and `show_results` are accepted in any state and start over
+ * - `show_page` and `refine` need results on screen; refining keeps the
+ *   criteria being refined
+ * - `reset` ends the session
+ */
+export function transition(
+  session: SearchSession | null,
+  event: SearchSessionEvent,
+  now: Date = new Date(),
+): SearchSession | null {
+  const updatedAt = now.getTime();
+  switch (event.type) {
+    case "ask_criteria":
+      return {
+        state: "awaiting_criteria",
+        criteria: {},
+        paging: null,
+        updatedAt,
+      };
+    case "show_results":
+      return {
+        state: "showing_results",
+        criteria: event.criteria,
+        paging: event.paging,
+        updatedAt,
+      };
+    case "show_page":
+    case "refine":
+      if (session?.state !== "showing_results") {
+        throw new InvalidSearchTransitionError(
+          session?.state ?? "idle",
+          event.type,
+        );
+      }
+      return event.type === "show_page"
+        ? { ...session, paging: event.paging, updatedAt }
+        : { ...session, state: "refining", updatedAt };
+    case "reset":
+      return null;
+  }
+}
+
+/**
+ * Session lifetime from SEARCH_SESSION_TTL_MINUTES, defaulting to half an
+ * hour. A user who comes back later starts a new search.
+ */
+export function searchSessionTtlMs(): number {
+  const minutes = Number(process.env.SEARCH_SESSION_TTL_MINUTES);
+  return (
+    (Number.isFinite(minutes) && minutes > 0
+      ? minutes
+      : DEFAULT_SEARCH_SESSION_TTL_MINUTES) *
+    60 *
+    1000
+  );
+}
+
+const sessionKey = (userId: string) => `property-search:session:${userId}`;
+
+/**
+ * The user's search session from the runtime cache, or null when they have
+ * none, it has expired, or the runtime has no cache.
+ */
+export async function loadSearchSession(
+  runtime: IAgentRuntime,
+  userId: string,
+  now: Date = new Date(),
+  ttlMs: number = searchSessionTtlMs(),
+): Promise<SearchSession | null> {
+  if (typeof runtime.getCache !== "function") return null;
+  try {
+    const session = await runtime.getCache<SearchSession>(sessionKey(userId));
+    if (!session || now.getTime() - session.updatedAt > ttlMs) return null;
+    return session;
+  } catch (error) {
+    logger.error(
+      { error },
+      `[loadSearchSession] Error reading the search session for ${userId}`,
+    );
+    return null;
+  }
+}
+
+/**
+ * Stores the user's search session, or removes it when null.
+ */
+export async function saveSearchSession(
+  runtime: IAgentRuntime,
+  userId: string,
+  session: SearchSession | null,
+): Promise<void> {
+  try {
+    if (session) {
+      await runtime.setCache?.(sessionKey(userId), session);
+    } else {
+      await runtime.deleteCache?.(sessionKey(userId));
+    }
+  } catch (error) {
+    logger.error(
+      { error },
+      `[saveSearchSession] Error storing the search session for ${userId}`,
+    );
+  }
+}
+
+/**
+ * Loads the user's session, applies the event and stores the result.
+ */
+export async function advanceSearchSession(
+  runtime: IAgentRuntime,
+  userId: string,
+  event: SearchSessionEvent,
+  now: Date = new Date(),
+): Promise<SearchSession | null> {
+  const next = transition(
+    await loadSearchSession(runtime, userId, now),
+    event,
+    now,
+  );
+  await saveSearchSession(runtime, userId, next);
+  return next;
+}
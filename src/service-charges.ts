@@ -0,0 +1,316 @@
+import { logger } from "@elizaos/core";
+import fs from "fs";
+import {
+  findPlace,
+  matchPlace,
+  normaliseAreaKey,
+  placeLineage,
+  placesWithin,
+} from "./gazetteer";
+import {
+  SQM_TO_SQFT,
+  parseCsv,
+  parseNumber,
+  percentile,
+} from "./rental-yields";
+import {
+  DEFAULT_NET_YIELD_ASSUMPTIONS,
+  type NetYieldAssumptions,
+} from "./yield-estimate";
+
+/**
+ * A service charge rate from the reference dataset: what owners in a
+ * building (or across a community, when no building is given) pay per sqft
+ * per year.
+ */
+export interface ServiceChargeRate {
+  community: string;
+  building: string | null;
+  ratePerSqft: number;
+}
+
+/**
+ * The service charge rate that applies to a listing, and where it came from:
+ * the building's own rate, or the median of the community's rates when the
+ * building isn't in the dataset.
+ */
+export interface ServiceChargeEstimate {
+  ratePerSqft: number;
+  basis: "building" | "area";
+  /** Building or community the rate is for */
+  name: string;
+  /** Rates the figure was taken from */
+  sampleSize: number;
+}
+
+// Accepted header spellings for each field, after normalising to snake_case
+const COLUMN_ALIASES: Record<keyof ServiceChargeRate | "ratePerSqm", string[]> =
+  {
+    community: [
+      "community",
+      "master_community",
+      "area",
+      "area_name",
+      "location",
+    ],
+    building: ["building", "building_name", "project", "project_name"],
+    ratePerSqft: [
+      "rate_per_sqft",
+      "aed_per_sqft",
+      "service_charge_per_sqft",
+      "service_charge",
+    ],
+    ratePerSqm: ["rate_per_sqm", "aed_per_sqm", "service_charge_per_sqm"],
+  };
+
+/**
+ * Parses service_charges.csv text into rates. Rates given per sqm are
+ * converted to sqft; rows without a community or a positive rate are
+ * skipped.
+ */
+export function parseServiceChargesCsv(text: string): ServiceChargeRate[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+
+  const normalised = header.map((name) =>
+    name
+      .toLowerCase()
+      .trim()
+      .replace(/[^a-z0-9]+/g, "_")
+      .replace(/^_|_$/g, ""),
+  );
+  const column = (field: keyof typeof COLUMN_ALIASES) =>
+    COLUMN_ALIASES[field]
+      .map((alias) => normalised.indexOf(alias))
+      .find((index) => index !== -1);
+  const community = column("community");
+  const building = column("building");
+  const perSqft = column("ratePerSqft");
+  const perSqm = column("ratePerSqm");
+  if (
+    community === undefined ||
+    (perSqft === undefined && perSqm === undefined)
+  ) {
+    throw new Error(
+      `service_charges.csv is missing required columns (found: ${header.join(", ")})`,
+    );
+  }
+
+  const rates: ServiceChargeRate[] = [];
+  let skipped = 0;
+  for (const row of rows) {
+    const sqm = perSqm !== undefined ? parseNumber(row[perSqm]) : null;
+    const ratePerSqft =
+      (perSqft !== undefined ? parseNumber(row[perSqft]) : null) ??
+      (sqm !== null ? sqm / SQM_TO_SQFT : null);
+    const communityName = row[community]?.trim();
+    if (!communityName || !ratePerSqft || ratePerSqft <= 0) {
+      skipped++;
+      continue;
+    }
+    rates.push({
+      community: communityName,
+      building: (building !== undefined && row[building]?.trim()) || null,
+      ratePerSqft,
+    });
+  }
+
+  if (skipped > 0) {
+    logger.warn(
+      `[parseServiceChargesCsv] Skipped ${skipped} rows without community or rate`,
+    );
+  }
+  return rates;
+}
+
+function medianRate(rates: ServiceChargeRate[]): number {
+  return percentile(
+    rates.map((rate) => rate.ratePerSqft).sort((a, b) => a - b),
+    50,
+  );
+}
+
+/**
+ * Indexed service charge rates, looked up by the building or community a
+ * listing's location names.
+ */
+export class ServiceChargeStore {
+  private readonly byBuilding = new Map<string, ServiceChargeRate[]>();
+  private readonly byCommunity = new Map<string, ServiceChargeRate[]>();
+  // Display names of the indexed buildings and communities
+  private readonly names = new Map<string, string>();
+  // Gazetteer place name → key of the dataset community it corresponds to
+  private readonly placeCommunities = new Map<string, string>();
+
+  constructor(rates: ServiceChargeRate[]) {
+    for (const rate of rates) {
+      const communityKey = normaliseAreaKey(rate.community);
+      push(this.byCommunity, communityKey, rate);
+      if (!this.names.has(communityKey)) {
+        this.names.set(communityKey, rate.community);
+        const place = findPlace(rate.community);
+        if (place && !this.placeCommunities.has(place.name)) {
+          this.placeCommunities.set(place.name, communityKey);
+        }
+      }
+      if (rate.building) {
+        const buildingKey = normaliseAreaKey(rate.building);
+        push(this.byBuilding, buildingKey, rate);
+        this.names.set(buildingKey, rate.building);
+      }
+    }
+  }
+
+  get size(): number {
+    return Array.from(this.byCommunity.values()).reduce(
+      (sum, rates) => sum + rates.length,
+      0,
+    );
+  }
+
+  /**
+   * The rate for a listing from its location and title, e.g. "Marina Gate 1,
+   * Dubai Marina": the building's own rate when the dataset has it,
+   * otherwise the median across the community. Places are rolled up through
+   * the gazetteer, so a sub-community the dataset doesn't list uses its
+   * master community. Null when neither is known.
+   */
+  estimate(text: string): ServiceChargeEstimate | null {
+    const haystack = ` ${normaliseAreaKey(text)} `;
+    const building = longestKeyIn(this.byBuilding, haystack);
+    if (building) {
+      const rates = this.byBuilding.get(building);
+      return {
+        ratePerSqft: medianRate(rates),
+        basis: "building",
+        name: this.names.get(building),
+        sampleSize: rates.length,
+      };
+    }
+
+    const community = this.resolveCommunity(text, haystack);
+    if (!community) return null;
+    return {
+      ratePerSqft: medianRate(community.rates),
+      basis: "area",
+      name: community.name,
+      sampleSize: community.rates.length,
+    };
+  }
+
+  // The community a location names and its rates, including any
+  // sub-communities the dataset lists separately
+  private resolveCommunity(
+    text: string,
+    haystack: string,
+  ): { name: string; rates: ServiceChargeRate[] } | null {
+    const literal = longestKeyIn(this.byCommunity, haystack);
+    const match = matchPlace(text);
+    if (match && match.phrase.length > (literal?.length ?? 0)) {
+      for (const place of placeLineage(match.place.name)) {
+        const rates = this.placeRates(place.name);
+        if (rates.length) return { name: place.name, rates };
+      }
+    }
+    if (!literal) return null;
+
+    const place = findPlace(this.names.get(literal));
+    const rates = place ? this.placeRates(place.name) : [];
+    return {
+      name: this.names.get(literal),
+      rates: rates.length ? rates : this.byCommunity.get(literal),
+    };
+  }
+
+  // Rates recorded against a gazetteer place and the places within it
+  private placeRates(name: string): ServiceChargeRate[] {
+    const keys = new Set<string>();
+    for (const placeName of [name, ...placesWithin(name)]) {
+      const key = this.placeCommunities.get(placeName);
+      if (key) keys.add(key);
+    }
+    return Array.from(keys).flatMap((key) => this.byCommunity.get(key));
+  }
+}
+
+function push(
+  index: Map<string, ServiceChargeRate[]>,
+  key: string,
+  rate: ServiceChargeRate,
+) {
+  const bucket = index.get(key);
+  if (bucket) {
+    bucket.push(rate);
+  } else {
+    index.set(key, [rate]);
+  }
+}
+
+function longestKeyIn(
+  index: Map<string, unknown>,
+  haystack: string,
+): string | null {
+  let best: string | null = null;
+  for (const key of index.keys()) {
+    if ((!best || key.length > best.length) && haystack.includes(` ${key} `))
+      best = key;
+  }
+  return best;
+}
+
+let activeStore: ServiceChargeStore | null = null;
+let warnedWithoutStore = false;
+
+/**
+ * Reads and indexes the service charges CSV from disk.
+ */
+export function loadServiceChargeStore(csvPath: string): ServiceChargeStore {
+  const store = new ServiceChargeStore(
+    parseServiceChargesCsv(fs.readFileSync(csvPath, "utf-8")),
+  );
+  logger.info(
+    `[loadServiceChargeStore] Indexed ${store.size} service charge rates from ${csvPath}`,
+  );
+  return store;
+}
+
+export function setServiceChargeStore(store: ServiceChargeStore | null): void {
+  activeStore = store;
+  warnedWithoutStore = false;
+}
+
+/**
+ * Returns the rates loaded at agent start-up, or null when
+ * service_charges.csv was not available.
+ */
+export function getServiceChargeStore(): ServiceChargeStore | null {
+  return activeStore;
+}
+
+/**
+ * Net yield assumptions for a listing, with the service charge rate looked
+ * up from its location. Falls back to the flat default rate when the
+ * dataset isn't loaded or knows neither the building nor the community.
+ */
+export function netYieldAssumptionsFor(
+  location: string,
+  base: NetYieldAssumptions = DEFAULT_NET_YIELD_ASSUMPTIONS,
+): {
+  assumptions: NetYieldAssumptions;
+  serviceCharge: ServiceChargeEstimate | null;
+} {
+  const store = getServiceChargeStore();
+  if (!store && !warnedWithoutStore) {
+    warnedWithoutStore = true;
+    logger.warn(
+      "[netYieldAssumptionsFor] No service charge rates are loaded; using the default rate",
+    );
+  }
+  const serviceCharge = store?.estimate(location) ?? null;
+  return {
+    assumptions: serviceCharge
+      ? { ...base, serviceChargePerSqft: serviceCharge.ratePerSqft }
+      : base,
+    serviceCharge,
+  };
+}
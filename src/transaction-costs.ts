@@ -0,0 +1,159 @@
+import { formatAed } from "./format";
+
+/**
+ * Fees a Dubai purchase carries on top of the price. Rates are fractions of
+ * the price (or the loan for mortgage registration), fees are AED.
+ */
+export interface TransactionCostRates {
+  /** Dubai Land Department transfer fee on the price */
+  dldTransferRate: number;
+  /** DLD title deed and admin charges */
+  dldAdminFee: number;
+  /** Registration trustee office fee for properties at or above the threshold */
+  trusteeFee: number;
+  /** Trustee fee below the threshold */
+  trusteeFeeLowValue: number;
+  trusteeThreshold: number;
+  agentCommissionRate: number;
+  /** DLD mortgage registration fee on the loan */
+  mortgageRegistrationRate: number;
+  mortgageRegistrationAdminFee: number;
+  /** Bank valuation of the property, VAT included */
+  valuationFee: number;
+  /** Developer no-objection certificate for a resale */
+  nocFee: number;
+  /** VAT charged on the trustee fee and the agent's commission */
+  vatRate: number;
+}
+
+export const DEFAULT_TRANSACTION_COST_RATES: TransactionCostRates = {
+  dldTransferRate: 0.04,
+  dldAdminFee: 580,
+  trusteeFee: 4000,
+  trusteeFeeLowValue: 2000,
+  trusteeThreshold: 500000,
+  agentCommissionRate: 0.02,
+  mortgageRegistrationRate: 0.0025,
+  mortgageRegistrationAdminFee: 290,
+  valuationFee: 3000,
+  nocFee: 1000,
+  vatRate: 0.05,
+};
+
+export interface TransactionCostItem {
+  label: string;
+  amount: number;
+  /** How the amount was worked out, e.g. "4% + AED 580" */
+  basis: string;
+}
+
+export interface TransactionCosts {
+  price: number;
+  /** Mortgage the costs include registration and valuation for; 0 for a cash purchase */
+  loanAmount: number;
+  items: TransactionCostItem[];
+  total: number;
+  /** Total as a percentage of the price */
+  percentOfPrice: number;
+}
+
+export interface TransactionCostOptions {
+  loanAmount?: number;
+  /** Off-plan purchases are bought from the developer, so there's no NOC */
+  offPlan?: boolean;
+}
+
+const percent = (rate: number) => `${+(rate * 100).toFixed(2)}%`;
+
+/**
+ * Itemised upfront costs of buying at a price: the DLD transfer fee, the
+ * registration trustee's fee, agent commission and the developer's NOC, plus
+ * mortgage registration and the bank's valuation when part of the price is
+ * borrowed. Items that come to nothing (e.g. a 0% commission for a direct
+ * purchase) are left out. Rates can be overridden one by one.
+ */
+export function estimateTransactionCosts(
+  price: number,
+  { loanAmount = 0, offPlan = false }: TransactionCostOptions = {},
+  overrides: Partial<TransactionCostRates> = {},
+): TransactionCosts {
+  const rates = { ...DEFAULT_TRANSACTION_COST_RATES, ...overrides };
+  const withVat = (amount: number) => amount * (1 + rates.vatRate);
+  const trusteeFee =
+    price >= rates.trusteeThreshold
+      ? rates.trusteeFee
+      : rates.trusteeFeeLowValue;
+
+  const items: TransactionCostItem[] = [
+    {
+      label: "DLD transfer fee",
+      amount: price * rates.dldTransferRate + rates.dldAdminFee,
+      basis: `${percent(rates.dldTransferRate)} + ${formatAed(rates.dldAdminFee)}`,
+    },
+    {
+      label: "Registration trustee fee",
+      amount: withVat(trusteeFee),
+      basis: `${formatAed(trusteeFee)} + VAT`,
+    },
+    {
+      label: "Agent commission",
+      amount: withVat(price * rates.agentCommissionRate),
+      basis: `${percent(rates.agentCommissionRate)} + VAT`,
+    },
+  ];
+  if (loanAmount > 0) {
+    items.push(
+      {
+        label: "Mortgage registration",
+        amount:
+          loanAmount * rates.mortgageRegistrationRate +
+          rates.mortgageRegistrationAdminFee,
+        basis: `${percent(rates.mortgageRegistrationRate)} of the loan + ${formatAed(rates.mortgageRegistrationAdminFee)}`,
+      },
+      {
+        label: "Valuation fee",
+        amount: rates.valuationFee,
+        basis: "incl. VAT",
+      },
+    );
+  }
+  if (!offPlan) {
+    items.push({
+      label: "Developer NOC",
+      amount: rates.nocFee,
+      basis: "typical",
+    });
+  }
+
+  const charged = items.filter((item) => item.amount > 0);
+  const total = charged.reduce((sum, item) => sum + item.amount, 0);
+  return {
+    price,
+    loanAmount,
+    items: charged,
+    total,
+    percentOfPrice: price > 0 ? (total / price) * 100 : 0,
+  };
+}
+
+/**
+ * Rate overrides a message asks for, e.g. "1.5% commission" or "no agent".
+ */
+export function parseCostOverrides(
+  text: string,
+): Partial<TransactionCostRates> {
+  const overrides: Partial<TransactionCostRates> = {};
+  const commission = text.match(
+    /(\d+(?:\.\d+)?)\s*%\s*(?:agent(?:'s)?\s*)?(?:commission|agency fee|agent fee)/i,
+  );
+  if (commission) {
+    overrides.agentCommissionRate = parseFloat(commission[1]) / 100;
+  } else if (
+    /\bno (?:agent|agency|commission)\b|\b(?:direct(?:ly)? from|buying from) (?:the )?(?:developer|owner|seller)\b/i.test(
+      text,
+    )
+  ) {
+    overrides.agentCommissionRate = 0;
+  }
+  return overrides;
+}
@@ -0,0 +1,152 @@
+import {
+  type IAgentRuntime,
+  type Memory,
+  type UUID,
+  logger,
+} from "@elizaos/core";
+
+const MIGRATION_CACHE_KEY = "property-search:message-id-migration";
+
+/**
+ * The ID saved searches, search logs, shown listings and alerts are stored
+ * under. This is the sender's entity, which stays the same from one message
+ * to the next; the room a request came from is stored alongside where it
+ * matters (alert delivery, search logs).
+ */
+export function searchOwnerId(message: Memory): string {
+  return message.entityId;
+}
+
+async function distinctUserIds(
+  runtime: IAgentRuntime,
+  table: string,
+): Promise<string[]> {
+  const rows = await (runtime as any).sql.query(
+    `SELECT DISTINCT user_id FROM ${table}`,
+    [],
+  );
+  return (rows || []).map((row: any) => row.user_id);
+}
+
+// Moves saved searches, renaming any that clash with one the entity already has
+async function moveSavedSearches(
+  runtime: IAgentRuntime,
+  from: string,
+  to: string,
+) {
+  const sql = (runtime as any).sql;
+  const existing = await sql.query(
+    `SELECT name FROM saved_searches WHERE user_id = ?`,
+    [to],
+  );
+  const taken = new Set((existing || []).map((row: any) => row.name));
+  const rows = await sql.query(
+    `SELECT id, name, is_active FROM saved_searches WHERE user_id = ?`,
+    [from],
+  );
+  // At most one active search: the entity's own if it has any, else the moved one that was active
+  let activeTaken = taken.size > 0;
+
+  for (const row of rows || []) {
+    let name = row.name;
+    for (let n = 2; taken.has(name); n++) name = `${row.name}-${n}`;
+    taken.add(name);
+    const active = !activeTaken && Number(row.is_active) === 1;
+    if (active) activeTaken = true;
+    await sql.query(
+      `UPDATE saved_searches SET user_id = ?, name = ?, is_active = ? WHERE id = ?`,
+      [to, name, active ? 1 : 0, row.id],
+    );
+  }
+}
+
+async function moveRows(
+  runtime: IAgentRuntime,
+  table: string,
+  from: string,
+  to: string,
+) {
+  const sql = (runtime as any).sql;
+  switch (table) {
+    case "saved_searches":
+      return moveSavedSearches(runtime, from, to);
+    case "alert_settings": {
+      // Keep the entity's own settings if it already has some
+      const current = await sql.query(
+        `SELECT user_id FROM alert_settings WHERE user_id = ?`,
+        [to],
+      );
+      if (current && current.length > 0) {
+        await sql.query(`DELETE FROM alert_settings WHERE user_id = ?`, [from]);
+      } else {
+        await sql.query(
+          `UPDATE alert_settings SET user_id = ? WHERE user_id = ?`,
+          [to, from],
+        );
+      }
+      return;
+    }
+    case "shown_listings":
+      await sql.query(
+        `INSERT INTO shown_listings (user_id, link, shown_at)
+          SELECT ?, link, shown_at FROM shown_listings WHERE user_id = ?
+          ON CONFLICT (user_id, link) DO NOTHING`,
+        [to, from],
+      );
+      await sql.query(`DELETE FROM shown_listings WHERE user_id = ?`, [from]);
+      return;
+    default:
+      await sql.query(`UPDATE ${table} SET user_id = ? WHERE user_id = ?`, [
+        to,
+        from,
+      ]);
+  }
+}
+
+/**
+ * Earlier versions stored searches, logs and alerts under the ID of the
+ * message that created them. Looks each such ID up as a message and moves
+ * its rows to the sender's entity. Runs once per agent; returns the number
+ * of message IDs migrated.
+ */
+export async function migrateMessageKeyedRows(
+  runtime: IAgentRuntime,
+): Promise<number> {
+  const sql = (runtime as any).sql;
+  if (!sql) return 0;
+  if (await runtime.getCache<boolean>(MIGRATION_CACHE_KEY)) return 0;
+
+  const tables = [
+    "saved_searches",
+    "search_logs",
+    "alert_settings",
+    "shown_listings",
+  ];
+  const owners = new Map<string, string | null>();
+  const migrated = new Set<string>();
+
+  for (const table of tables) {
+    for (const userId of await distinctUserIds(runtime, table)) {
+      if (!owners.has(userId)) {
+        const memory = await runtime.getMemoryById(userId as UUID);
+        owners.set(
+          userId,
+          memory && memory.entityId !== userId ? memory.entityId : null,
+        );
+      }
+      const entityId = owners.get(userId);
+      if (!entityId) continue;
+
+      await moveRows(runtime, table, userId, entityId);
+      migrated.add(userId);
+    }
+  }
+
+  await runtime.setCache(MIGRATION_CACHE_KEY, true);
+  if (migrated.size > 0) {
+    logger.info(
+      `Moved search records for ${migrated.size} message IDs to their senders`,
+    );
+  }
+  return migrated.size;
+}
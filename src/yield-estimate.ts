@@ -0,0 +1,325 @@
+import type { ListingSummary } from "./listing-schema";
+import type { ListingSearchCriteria } from "./listing-sources";
+import {
+  type ContractQuery,
+  type RentalContract,
+  type RentalYieldStore,
+  parseBedrooms,
+  percentile,
+  summarise,
+} from "./rental-yields";
+
+/**
+ * The property being valued: a listing's area, type, bedrooms and size.
+ */
+export interface ComparableTarget {
+  area: string;
+  propertyType?: string;
+  bedrooms?: number;
+  sizeSqft?: number;
+}
+
+export type MatchLevel =
+  | "area, bedrooms and size"
+  | "area and bedrooms"
+  | "area";
+
+export interface RentEstimate {
+  annualRent: number;
+  low: number;
+  high: number;
+  comparables: RentalContract[];
+  matchLevel: MatchLevel;
+  /** Interquartile spread of the estimate relative to its midpoint, e.g. 0.12 = ±12% */
+  spread: number;
+  confidence: "high" | "medium" | "low";
+}
+
+export interface NetYieldAssumptions {
+  serviceChargePerSqft: number;
+  vacancyRate: number;
+  managementRate: number;
+}
+
+export interface YieldBreakdown {
+  grossYield: number;
+  netYield: number;
+  serviceCharges: number;
+  vacancyLoss: number;
+  managementFee: number;
+  netIncome: number;
+}
+
+export const DEFAULT_NET_YIELD_ASSUMPTIONS: NetYieldAssumptions = {
+  serviceChargePerSqft: 15,
+  vacancyRate: 0.05,
+  managementRate: 0.05,
+};
+
+// Fewest contracts we accept before widening the comparable search
+const MIN_COMPARABLES = 3;
+// Size band around the target, e.g. 0.2 = ±20%
+const SIZE_BAND = 0.2;
+
+/**
+ * Finds comparable rental contracts, starting with the tightest match (same
+ * area, bedrooms and a ±20% size band) and widening until enough are found.
+ */
+export function findComparables(
+  store: RentalYieldStore,
+  target: ComparableTarget,
+): { contracts: RentalContract[]; matchLevel: MatchLevel } {
+  const base: ContractQuery = {
+    area: target.area,
+    propertyType: target.propertyType,
+  };
+  const tiers: { query: ContractQuery; matchLevel: MatchLevel }[] = [];
+
+  if (target.bedrooms !== undefined && target.sizeSqft) {
+    tiers.push({
+      query: {
+        ...base,
+        bedrooms: target.bedrooms,
+        minSize: target.sizeSqft * (1 - SIZE_BAND),
+        maxSize: target.sizeSqft * (1 + SIZE_BAND),
+      },
+      matchLevel: "area, bedrooms and size",
+    });
+  }
+  if (target.bedrooms !== undefined) {
+    tiers.push({
+      query: { ...base, bedrooms: target.bedrooms },
+      matchLevel: "area and bedrooms",
+    });
+  }
+  tiers.push({ query: base, matchLevel: "area" });
+
+  let fallback: { contracts: RentalContract[]; matchLevel: MatchLevel } | null =
+    null;
+  for (const { query, matchLevel } of tiers) {
+    const contracts = store.query(query);
+    if (contracts.length >= MIN_COMPARABLES) return { contracts, matchLevel };
+    if (!fallback && contracts.length > 0) fallback = { contracts, matchLevel };
+  }
+  return fallback || { contracts: [], matchLevel: "area" };
+}
+
+/**
+ * Comparable rents expressed for the target: scaled by rent per sqft when
+ * the target size is known, otherwise the contracts' rents as recorded.
+ */
+function comparableRents(
+  contracts: RentalContract[],
+  target: ComparableTarget,
+): number[] {
+  const sized = contracts.filter((c) => c.sizeSqft);
+  if (
+    target.sizeSqft &&
+    sized.length >= Math.min(MIN_COMPARABLES, contracts.length)
+  ) {
+    return sized.map((c) => (c.annualRent / c.sizeSqft) * target.sizeSqft);
+  }
+  return contracts.map((c) => c.annualRent);
+}
+
+/**
+ * Estimates a property's annual rent from comparable contracts. When the
+ * target size is known the estimate scales the comparables' rent per sqft,
+ * otherwise it uses their median rent directly.
+ */
+export function estimateAnnualRent(
+  store: RentalYieldStore,
+  target: ComparableTarget,
+): RentEstimate | null {
+  const { contracts, matchLevel } = findComparables(store, target);
+  if (contracts.length === 0) return null;
+
+  const summary = summarise(comparableRents(contracts, target));
+  const spread =
+    summary.median > 0 ? (summary.p75 - summary.p25) / 2 / summary.median : 0;
+
+  let confidence: RentEstimate["confidence"] = "low";
+  if (contracts.length >= 20 && spread <= 0.15 && matchLevel !== "area") {
+    confidence = "high";
+  } else if (contracts.length >= 8 && spread <= 0.25) {
+    confidence = "medium";
+  }
+
+  return {
+    annualRent: summary.median,
+    low: summary.p25,
+    high: summary.p75,
+    comparables: contracts,
+    matchLevel,
+    spread,
+    confidence,
+  };
+}
+
+export interface RentFairness {
+  verdict: "below market" | "at market" | "above market";
+  /** Percentile rank of the advertised rent among comparable rents, 0–100 */
+  percentile: number;
+  medianRent: number;
+  comparables: RentalContract[];
+  matchLevel: MatchLevel;
+  closest: RentalContract[];
+}
+
+/**
+ * Places an advertised annual rent within the distribution of comparable
+ * contracts. Rents under the 25th percentile are below market and those
+ * over the 75th above market. The closest contracts by size (then most
+ * recent) are returned as evidence.
+ */
+export function assessRentFairness(
+  store: RentalYieldStore,
+  target: ComparableTarget,
+  annualRent: number,
+): RentFairness | null {
+  const { contracts, matchLevel } = findComparables(store, target);
+  if (contracts.length === 0) return null;
+
+  const rents = comparableRents(contracts, target);
+  const below = rents.filter((rent) => rent < annualRent).length;
+  const equal = rents.filter((rent) => rent === annualRent).length;
+  const rank = ((below + equal / 2) / rents.length) * 100;
+
+  let verdict: RentFairness["verdict"] = "at market";
+  if (rank < 25) verdict = "below market";
+  else if (rank > 75) verdict = "above market";
+
+  const sizeGap = (c: RentalContract) =>
+    target.sizeSqft && c.sizeSqft
+      ? Math.abs(c.sizeSqft - target.sizeSqft)
+      : Infinity;
+  const closest = [...contracts]
+    .sort(
+      (a, b) =>
+        sizeGap(a) - sizeGap(b) ||
+        (b.contractDate?.getTime() ?? 0) - (a.contractDate?.getTime() ?? 0),
+    )
+    .slice(0, 3);
+
+  return {
+    verdict,
+    percentile: rank,
+    medianRent: summarise(rents).median,
+    comparables: contracts,
+    matchLevel,
+    closest,
+  };
+}
+
+/**
+ * Gross and net yield for a purchase price and expected rent. Net income
+ * deducts service charges (per sqft), a vacancy allowance and a
+ * management fee, both as a share of rent.
+ */
+export function calculateYields(
+  price: number,
+  annualRent: number,
+  sizeSqft: number | null | undefined,
+  assumptions: NetYieldAssumptions = DEFAULT_NET_YIELD_ASSUMPTIONS,
+): YieldBreakdown {
+  const serviceCharges = sizeSqft
+    ? sizeSqft * assumptions.serviceChargePerSqft
+    : 0;
+  const vacancyLoss = annualRent * assumptions.vacancyRate;
+  const managementFee = annualRent * assumptions.managementRate;
+  const netIncome = annualRent - serviceCharges - vacancyLoss - managementFee;
+
+  return {
+    grossYield: (annualRent / price) * 100,
+    netYield: (netIncome / price) * 100,
+    serviceCharges,
+    vacancyLoss,
+    managementFee,
+    netIncome,
+  };
+}
+
+/**
+ * Median price per sqft across the comparables, for benchmarking an
+ * asking price against recorded transactions.
+ */
+export function medianPricePerSqft(contracts: RentalContract[]): number | null {
+  const values = contracts
+    .filter((c) => c.sizeSqft && c.transactionPrice)
+    .map((c) => c.transactionPrice / c.sizeSqft)
+    .sort((a, b) => a - b);
+  return values.length ? percentile(values, 50) : null;
+}
+
+/**
+ * A search result with its gross yield estimated from comparable contracts:
+ * null when a yield floor asked for one but it couldn't be estimated.
+ */
+export type ListingWithYield = ListingSummary & {
+  estimatedYield?: number | null;
+};
+
+/**
+ * Estimated gross yield of a sale listing, in percent, from comparable
+ * contracts in the searched area. Details the listing doesn't carry are
+ * taken from the criteria. Null for rentals, listings without a price and
+ * areas without contracts.
+ */
+export function estimateListingYield(
+  store: RentalYieldStore,
+  listing: ListingSummary,
+  criteria: ListingSearchCriteria,
+): number | null {
+  if (!criteria.area || !listing.priceAed) return null;
+  if ((listing.purpose ?? criteria.purpose) === "rent") return null;
+
+  const estimate = estimateAnnualRent(store, {
+    // A sub-community the dataset doesn't list rolls up to its community
+    area: store.resolveArea(criteria.area) ?? criteria.area,
+    propertyType: listing.propertyType ?? criteria.propertyType,
+    bedrooms: listing.bedrooms ?? parseBedrooms(criteria.bedrooms) ?? undefined,
+    sizeSqft: listing.sizeSqft,
+  });
+  return estimate
+    ? calculateYields(listing.priceAed, estimate.annualRent, listing.sizeSqft)
+        .grossYield
+    : null;
+}
+
+/**
+ * Estimates the gross yield of each sale listing without one from the
+ * backend and, when the criteria set a yield floor, drops those estimated
+ * below it. Listings whose yield can't be estimated are kept.
+ */
+export function applyYieldFloor(
+  store: RentalYieldStore | null,
+  listings: ListingSummary[],
+  criteria: ListingSearchCriteria,
+): { listings: ListingWithYield[]; belowFloor: number } {
+  const kept: ListingWithYield[] = [];
+  let belowFloor = 0;
+
+  for (const listing of listings) {
+    if (listing.grossYield !== undefined) {
+      kept.push(listing);
+      continue;
+    }
+    const estimatedYield = store
+      ? estimateListingYield(store, listing, criteria)
+      : null;
+    if (
+      criteria.yieldFloor &&
+      estimatedYield !== null &&
+      estimatedYield < criteria.yieldFloor
+    ) {
+      belowFloor++;
+    } else if (estimatedYield !== null) {
+      kept.push({ ...listing, estimatedYield });
+    } else {
+      kept.push(
+        criteria.yieldFloor ? { ...listing, estimatedYield: null } : listing,
+      );
+    }
+  }
+  return { listings: kept, belowFloor };
+}